@@ -0,0 +1,146 @@
+import { describe, expect, test } from 'bun:test';
+
+import { ValidationError, buildClashConfig, createClient, createMockPanel, generateUUID } from './index';
+import type { Client, Inbound, InboundStreamSettings, SubscriptionInfo, VlessClient } from './types';
+
+function vlessInbound(id: number, streamSettings: InboundStreamSettings, client: Client): Inbound {
+    return inbound(id, 'vless', streamSettings, client);
+}
+
+function inbound(id: number, protocol: Inbound['protocol'], streamSettings: InboundStreamSettings, client: Client): Inbound {
+    return {
+        id,
+        userId: 1,
+        up: 0,
+        down: 0,
+        total: 0,
+        remark: `in-${id}`,
+        enable: true,
+        expiryTime: 0,
+        clientStats: [],
+        listen: '',
+        port: 1000 + id,
+        protocol,
+        settings: { clients: [client], decryption: 'none' },
+        streamSettings,
+        tag: `inbound-${1000 + id}`,
+        sniffing: { enabled: false, destOverride: [] }
+    };
+}
+
+function vlessClient(email: string): VlessClient {
+    return { id: generateUUID(), email, enable: true, limitIp: 0, totalGB: 0, expiryTime: 0, subId: 'sub', reset: 0, flow: '' };
+}
+
+function subscription(inbounds: Inbound[]): SubscriptionInfo {
+    return {
+        subId: 'sub',
+        clients: inbounds.map(inbound => ({
+            client: inbound.settings.clients![0]!,
+            inboundId: inbound.id,
+            inboundRemark: inbound.remark,
+            inboundProtocol: inbound.protocol
+        }))
+    };
+}
+
+describe('buildClashConfig transports', () => {
+    test('raw inbound is exported as tcp', () => {
+        const inbounds = [
+            vlessInbound(1, { network: 'raw', security: 'none', rawSettings: { header: { type: 'none' } } }, vlessClient('raw'))
+        ];
+
+        const result = buildClashConfig(subscription(inbounds), inbounds, { address: 'vpn.example.com' });
+
+        expect(result.skipped).toEqual([]);
+        expect(result.config.proxies).toHaveLength(1);
+        expect(result.config.proxies[0]).toMatchObject({ type: 'vless', server: 'vpn.example.com', port: 1001, network: 'tcp' });
+    });
+
+    test('xhttp inbound is skipped with a reason', () => {
+        const inbounds = [
+            vlessInbound(1, { network: 'raw', security: 'none' }, vlessClient('raw')),
+            vlessInbound(2, { network: 'xhttp', security: 'none', xhttpSettings: { path: '/x' } }, vlessClient('xhttp'))
+        ];
+
+        const result = buildClashConfig(subscription(inbounds), inbounds, { address: 'vpn.example.com' });
+
+        expect(result.config.proxies.map(proxy => proxy.port)).toEqual([1001]);
+        expect(result.skipped).toEqual([
+            { inboundId: 2, email: 'xhttp', protocol: 'vless', reason: 'Clash does not support xhttp transport' }
+        ]);
+    });
+});
+
+describe('buildClashConfig', () => {
+    const reality: InboundStreamSettings = {
+        network: 'tcp',
+        security: 'reality',
+        realitySettings: {
+            serverNames: ['www.google.com'],
+            shortIds: ['6ba8'],
+            settings: { publicKey: 'pbk-value', fingerprint: 'chrome' }
+        }
+    };
+
+    test('vless reality proxy and proxy groups', () => {
+        const inbounds = [vlessInbound(1, reality, { ...vlessClient('alice'), flow: 'xtls-rprx-vision' } as VlessClient)];
+
+        const { config, yaml } = buildClashConfig(subscription(inbounds), inbounds, { address: 'vpn.example.com' });
+
+        expect(config.proxies[0]).toMatchObject({
+            name: 'in-1-alice',
+            type: 'vless',
+            flow: 'xtls-rprx-vision',
+            network: 'tcp',
+            tls: true,
+            servername: 'www.google.com',
+            'client-fingerprint': 'chrome',
+            'reality-opts': { 'public-key': 'pbk-value', 'short-id': '6ba8' }
+        });
+        expect(config['proxy-groups'].map(group => group.proxies)).toEqual([['Auto', 'in-1-alice', 'DIRECT'], ['in-1-alice']]);
+        expect(config.rules.at(-1)).toBe('MATCH,PROXY');
+        expect(yaml).toContain('public-key: pbk-value');
+    });
+
+    test('duplicate remarks get unique names', () => {
+        const inbounds = [
+            vlessInbound(1, { network: 'tcp', security: 'none' }, vlessClient('alice')),
+            vlessInbound(2, { network: 'tcp', security: 'none' }, vlessClient('alice'))
+        ];
+        inbounds[1]!.remark = 'in-1';
+
+        const { config } = buildClashConfig(subscription(inbounds), inbounds, { address: 'vpn.example.com' });
+
+        expect(config.proxies.map(proxy => proxy.name)).toEqual(['in-1-alice', 'in-1-alice (2)']);
+    });
+
+    test('trojan without TLS is skipped, or rejected in strict mode', () => {
+        const trojan = { ...vlessClient('bob'), password: 'secret' };
+        const inbounds = [inbound(1, 'trojan', { network: 'tcp', security: 'none' }, trojan)];
+
+        const result = buildClashConfig(subscription(inbounds), inbounds, { address: 'vpn.example.com' });
+
+        expect(result.config.proxies).toEqual([]);
+        expect(result.skipped[0]!.reason).toBe('Clash trojan proxies require TLS');
+        expect(() => buildClashConfig(subscription(inbounds), inbounds, { address: 'vpn.example.com', strict: true }))
+            .toThrow(ValidationError);
+    });
+
+    test('ClientManager exports a panel subscription', async () => {
+        const panel = createMockPanel({
+            inbounds: [{
+                protocol: 'vless',
+                port: 443,
+                remark: 'main',
+                settings: { clients: [vlessClient('alice')], decryption: 'none' },
+                streamSettings: { network: 'ws', security: 'none', wsSettings: { path: '/ws' } }
+            }]
+        });
+        const xui = createClient({ baseUrl: panel.baseUrl, username: 'admin', password: 'admin', transport: panel.transport });
+
+        const { config } = await xui.clients.getClashConfig('sub', { address: 'vpn.example.com' });
+
+        expect(config.proxies[0]).toMatchObject({ type: 'vless', server: 'vpn.example.com', port: 443, network: 'ws', 'ws-opts': { path: '/ws' } });
+    });
+});
@@ -0,0 +1,274 @@
+import { ValidationError } from './types';
+import type {
+    ClashConfig,
+    ClashExportOptions,
+    ClashExportResult,
+    ClashProxy,
+    Inbound,
+    SubscriptionEndpoint,
+    SubscriptionInfo
+} from './types';
+
+import { stringifyYaml } from './utils';
+import { resolveSubscriptionEndpoints, describeSkippedEndpoints } from './share-links';
+
+const SELECTOR_GROUP = 'PROXY';
+const URL_TEST_GROUP = 'Auto';
+
+/**
+ * Export subscription as Clash/Mihomo config.
+ * Clients Clash cannot express are listed in `skipped` (or rejected in strict mode).
+ * @param inbounds Inbounds the subscription clients belong to
+ */
+export function buildClashConfig(
+    subscription: SubscriptionInfo,
+    inbounds: Inbound[],
+    options: ClashExportOptions = {}
+): ClashExportResult {
+    const { endpoints, skipped } = resolveSubscriptionEndpoints(subscription, inbounds, options);
+    const proxies: ClashProxy[] = [];
+    const usedNames = new Set<string>();
+
+    for (const endpoint of endpoints) {
+        try {
+            const proxy = buildClashProxy(endpoint);
+            proxy.name = uniqueName(proxy.name, usedNames);
+            proxies.push(proxy);
+        } catch (error) {
+            if (!(error instanceof ValidationError)) {
+                throw error;
+            }
+
+            skipped.push({
+                inboundId: endpoint.inboundId,
+                email: endpoint.email,
+                protocol: endpoint.protocol,
+                reason: error.message
+            });
+        }
+    }
+
+    if (options.strict && skipped.length > 0) {
+        throw new ValidationError(`Clash cannot express ${skipped.length} client(s): ${describeSkippedEndpoints(skipped)}`, 'subscription');
+    }
+
+    const names = proxies.map(proxy => proxy.name);
+
+    const config: ClashConfig = {
+        'mixed-port': 7890,
+        'allow-lan': false,
+        mode: 'rule',
+        'log-level': 'info',
+        proxies,
+        'proxy-groups': [
+            {
+                name: SELECTOR_GROUP,
+                type: 'select',
+                proxies: [URL_TEST_GROUP, ...names, 'DIRECT']
+            },
+            {
+                name: URL_TEST_GROUP,
+                type: 'url-test',
+                proxies: names.length > 0 ? names : ['DIRECT'],
+                url: options.testUrl ?? 'https://www.gstatic.com/generate_204',
+                interval: options.testInterval ?? 300
+            }
+        ],
+        rules: [
+            ...(options.rules ?? [
+                'GEOIP,private,DIRECT,no-resolve',
+                'DOMAIN-SUFFIX,local,DIRECT'
+            ]),
+            `MATCH,${SELECTOR_GROUP}`
+        ]
+    };
+
+    return {
+        config,
+        yaml: stringifyYaml(config),
+        skipped
+    };
+}
+
+/**
+ * Convert endpoint into Clash proxy entry
+ */
+function buildClashProxy(endpoint: SubscriptionEndpoint): ClashProxy {
+    const base = {
+        name: endpoint.remark || `${endpoint.protocol}-${endpoint.port}`,
+        server: endpoint.address,
+        port: endpoint.port,
+        udp: true
+    };
+
+    switch (endpoint.protocol) {
+        case 'vless':
+            return {
+                ...base,
+                type: 'vless',
+                uuid: endpoint.id,
+                ...(endpoint.flow ? { flow: endpoint.flow } : {}),
+                ...buildTransportOptions(endpoint),
+                ...buildSecurityOptions(endpoint, 'servername')
+            };
+
+        case 'vmess':
+            return {
+                ...base,
+                type: 'vmess',
+                uuid: endpoint.id,
+                alterId: endpoint.alterId ?? 0,
+                cipher: endpoint.security || 'auto',
+                ...buildTransportOptions(endpoint),
+                ...buildSecurityOptions(endpoint, 'servername')
+            };
+
+        case 'trojan':
+            if (endpoint.streamSettings.security === 'none') {
+                throw new ValidationError('Clash trojan proxies require TLS', 'security');
+            }
+
+            return {
+                ...base,
+                type: 'trojan',
+                password: endpoint.password,
+                ...buildTransportOptions(endpoint),
+                ...buildSecurityOptions(endpoint, 'sni')
+            };
+
+        case 'shadowsocks':
+            if (endpoint.streamSettings.network !== 'tcp' || endpoint.streamSettings.security !== 'none'
+                || endpoint.streamSettings.tcpSettings?.header?.type === 'http') {
+                throw new ValidationError('Clash supports Shadowsocks only over plain TCP', 'network');
+            }
+
+            return {
+                ...base,
+                type: 'ss',
+                cipher: endpoint.method,
+                password: endpoint.serverPassword
+                    ? `${endpoint.serverPassword}:${endpoint.password}`
+                    : endpoint.password
+            };
+    }
+}
+
+/**
+ * Build network options (ws-opts, grpc-opts, http-opts)
+ */
+function buildTransportOptions(endpoint: SubscriptionEndpoint): Record<string, any> {
+    const stream = endpoint.streamSettings;
+
+    switch (stream.network) {
+        case 'tcp': {
+            const header = stream.tcpSettings?.header;
+            if (header?.type !== 'http') {
+                return { network: 'tcp' };
+            }
+
+            if (endpoint.protocol !== 'vmess') {
+                throw new ValidationError(`Clash supports TCP HTTP obfuscation only for vmess, not ${endpoint.protocol}`, 'tcpSettings');
+            }
+
+            return {
+                network: 'http',
+                'http-opts': {
+                    method: 'GET',
+                    path: header.request?.path ?? ['/'],
+                    ...(header.request?.headers?.Host ? { headers: { Host: header.request.headers.Host } } : {})
+                }
+            };
+        }
+
+        case 'ws':
+            return {
+                network: 'ws',
+                'ws-opts': {
+                    path: stream.wsSettings?.path || '/',
+                    ...(stream.wsSettings?.host ? { headers: { Host: stream.wsSettings.host } } : {})
+                }
+            };
+
+        case 'httpupgrade':
+            return {
+                network: 'ws',
+                'ws-opts': {
+                    path: stream.httpupgradeSettings?.path || '/',
+                    ...(stream.httpupgradeSettings?.host ? { headers: { Host: stream.httpupgradeSettings.host } } : {}),
+                    'v2ray-http-upgrade': true
+                }
+            };
+
+        case 'grpc':
+            if (stream.grpcSettings?.multiMode) {
+                throw new ValidationError('Clash does not support gRPC multi mode', 'grpcSettings.multiMode');
+            }
+
+            return {
+                network: 'grpc',
+                'grpc-opts': {
+                    'grpc-service-name': stream.grpcSettings?.serviceName ?? ''
+                }
+            };
+
+        default:
+            throw new ValidationError(`Clash does not support ${stream.network} transport`, 'network');
+    }
+}
+
+/**
+ * Build TLS/Reality options
+ * @param sniKey Key Clash uses for SNI of this proxy type
+ */
+function buildSecurityOptions(endpoint: SubscriptionEndpoint, sniKey: 'servername' | 'sni'): Record<string, any> {
+    const stream = endpoint.streamSettings;
+
+    switch (stream.security) {
+        case 'tls': {
+            const tls = stream.tlsSettings;
+            return {
+                tls: true,
+                ...(tls?.serverName ? { [sniKey]: tls.serverName } : {}),
+                ...(tls?.alpn?.length ? { alpn: tls.alpn } : {}),
+                ...(tls?.settings?.fingerprint ? { 'client-fingerprint': tls.settings.fingerprint } : {}),
+                ...(tls?.settings?.allowInsecure ? { 'skip-cert-verify': true } : {})
+            };
+        }
+
+        case 'reality': {
+            if (endpoint.protocol !== 'vless') {
+                throw new ValidationError(`Clash supports Reality only for vless, not ${endpoint.protocol}`, 'security');
+            }
+
+            if (stream.network !== 'tcp' && stream.network !== 'grpc') {
+                throw new ValidationError(`Clash supports Reality only over tcp or grpc, not ${stream.network}`, 'network');
+            }
+
+            const reality = stream.realitySettings;
+            return {
+                tls: true,
+                [sniKey]: reality?.settings?.serverName || reality?.serverNames[0] || '',
+                'client-fingerprint': reality?.settings?.fingerprint || 'chrome',
+                'reality-opts': {
+                    'public-key': reality?.settings?.publicKey ?? '',
+                    'short-id': reality?.shortIds[0] ?? ''
+                }
+            };
+        }
+
+        default:
+            return {};
+    }
+}
+
+function uniqueName(name: string, usedNames: Set<string>): string {
+    let candidate = name;
+    let counter = 2;
+
+    while (usedNames.has(candidate)) {
+        candidate = `${name} (${counter++})`;
+    }
+
+    usedNames.add(candidate);
+    return candidate;
+}
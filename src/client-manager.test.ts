@@ -0,0 +1,196 @@
+import { describe, expect, test } from 'bun:test';
+
+import { InboundBuilder, WriteConflictError, createClient, createMockPanel, generateShadowsocksPassword, generateUUID } from './index';
+import type { MockPanel } from './index';
+import type { Client, HttpTransport, ShadowsocksClient } from './types';
+
+function setup(wrapTransport: (transport: HttpTransport) => HttpTransport = transport => transport) {
+    const panel = createMockPanel({
+        serializeFields: true,
+        inbounds: [{
+            protocol: 'vless',
+            port: 443,
+            remark: 'main',
+            settings: { clients: [], decryption: 'none' },
+            streamSettings: { network: 'tcp', security: 'none' }
+        }]
+    });
+    const xui = createClient({
+        baseUrl: panel.baseUrl,
+        username: 'admin',
+        password: 'admin',
+        transport: wrapTransport(panel.transport),
+        retryAttempts: 0
+    });
+
+    return { panel, xui };
+}
+
+/**
+ * Transport where another writer, which read the inbound before our update, saves its own copy
+ * of the client right after each of our first `times` updateClient requests
+ */
+function interferingWriter(staleClient: () => Client, times: number) {
+    return (transport: HttpTransport): HttpTransport => {
+        let remaining = times;
+
+        return async (url, init) => {
+            const response = await transport(url, init);
+
+            if (remaining > 0 && init.method === 'POST' && url.includes('/updateClient/')) {
+                remaining--;
+                const client = staleClient();
+                await transport(url, {
+                    ...init,
+                    body: JSON.stringify({ id: 1, settings: JSON.stringify({ clients: [client] }) })
+                });
+            }
+
+            return response;
+        };
+    };
+}
+
+function countUpdateRequests(panel: MockPanel): number {
+    return panel.requests.filter(request => request.path.includes('/updateClient/')).length;
+}
+
+function vlessClient(email: string): Client {
+    return {
+        id: generateUUID(),
+        email,
+        enable: true,
+        limitIp: 0,
+        totalGB: 0,
+        expiryTime: 0,
+        subId: '',
+        reset: 0,
+        flow: ''
+    };
+}
+
+describe('concurrent client writes', () => {
+    test('concurrent adds to one inbound all survive', async () => {
+        const { xui } = setup();
+        const emails = Array.from({ length: 20 }, (_, index) => `user-${index}`);
+
+        await Promise.all(emails.map(email => xui.clients.addClient(1, vlessClient(email))));
+
+        const stored = (await xui.inbounds.getById(1)).settings.clients ?? [];
+        expect(stored.map(client => client.email).sort()).toEqual([...emails].sort());
+    });
+
+    test('concurrent updates of one client keep every change', async () => {
+        const { xui } = setup();
+        const client = await xui.clients.addClient(1, vlessClient('user'));
+
+        await Promise.all([
+            xui.clients.updateClient(1, client.id, { limitIp: 2 }),
+            xui.clients.toggleClientEnabled(1, client.id, false),
+            xui.clients.updateClient(1, client.id, { subId: 'sub-1' })
+        ]);
+
+        const [stored] = (await xui.inbounds.getById(1)).settings.clients ?? [];
+        expect(stored).toMatchObject({ limitIp: 2, enable: false, subId: 'sub-1' });
+    });
+
+    test('concurrent updates of different fields are queued, not retried', async () => {
+        const { panel, xui } = setup();
+        const client = await xui.clients.addClient(1, vlessClient('user'));
+
+        await Promise.all([
+            xui.clients.updateClient(1, client.id, { limitIp: 2 }),
+            xui.clients.updateClient(1, client.id, { totalGB: 1024 }),
+            xui.clients.updateClient(1, client.id, { expiryTime: 1700000000000 }),
+            xui.clients.updateClient(1, client.id, { enable: false })
+        ]);
+
+        const [stored] = (await xui.inbounds.getById(1)).settings.clients ?? [];
+        expect(stored).toMatchObject({ limitIp: 2, totalGB: 1024, expiryTime: 1700000000000, enable: false });
+        // Every update read the result of the previous one, so none of them was lost and repeated
+        expect(countUpdateRequests(panel)).toBe(4);
+    });
+
+    test('field update overwritten by another writer is repeated', async () => {
+        let original: Client | null = null;
+        const { panel, xui } = setup(interferingWriter(() => ({ ...original!, limitIp: 5 }), 1));
+        original = await xui.clients.addClient(1, vlessClient('user'));
+
+        const updated = await xui.clients.updateClient(1, original.id, { totalGB: 2048 });
+
+        expect(updated).toMatchObject({ totalGB: 2048, limitIp: 5 });
+        const [stored] = (await xui.inbounds.getById(1)).settings.clients ?? [];
+        expect(stored).toMatchObject({ totalGB: 2048, limitIp: 5 });
+        // Ours, the other writer's, and our repeated write
+        expect(countUpdateRequests(panel)).toBe(3);
+    });
+
+    test('field update that keeps being overwritten raises WriteConflictError', async () => {
+        let original: Client | null = null;
+        const { xui } = setup(interferingWriter(() => original!, Infinity));
+        original = await xui.clients.addClient(1, vlessClient('user'));
+
+        await expect(xui.clients.updateClient(1, original.id, { enable: false })).rejects.toBeInstanceOf(WriteConflictError);
+    });
+});
+
+describe('shadowsocks 2022 clients', () => {
+    function setupShadowsocks() {
+        const panel = createMockPanel({
+            inbounds: [InboundBuilder.shadowsocks2022({ port: 8388, method: '2022-blake3-aes-128-gcm' }).build()]
+        });
+        const xui = createClient({
+            baseUrl: panel.baseUrl,
+            username: 'admin',
+            password: 'admin',
+            transport: panel.transport,
+            retryAttempts: 0
+        });
+
+        return { xui };
+    }
+
+    test('client gets the inbound method and a key of its size', async () => {
+        const { xui } = setupShadowsocks();
+
+        const result = await xui.clients.createClientOnInbounds({}, [1]);
+
+        expect(result.success).toBe(1);
+        const client = result.results[0]!.client as ShadowsocksClient;
+        expect(client.method).toBe('2022-blake3-aes-128-gcm');
+        expect(Buffer.from(client.password, 'base64').length).toBe(16);
+    });
+
+    test('matching request method is accepted', async () => {
+        const { xui } = setupShadowsocks();
+
+        const result = await xui.clients.createClientOnInbounds({
+            shadowsocks: { method: '2022-blake3-aes-128-gcm' }
+        }, [1]);
+
+        expect(result.success).toBe(1);
+    });
+
+    test('conflicting request method is rejected', async () => {
+        const { xui } = setupShadowsocks();
+
+        const result = await xui.clients.createClientOnInbounds({
+            shadowsocks: { method: '2022-blake3-aes-256-gcm' }
+        }, [1]);
+
+        expect(result.failed).toBe(1);
+        expect(result.results[0]!.error).toContain('does not match inbound method');
+        expect((await xui.inbounds.getById(1)).settings.clients ?? []).toHaveLength(0);
+    });
+
+    test('password of the wrong key size is rejected', async () => {
+        const { xui } = setupShadowsocks();
+
+        const result = await xui.clients.createClientOnInbounds({
+            shadowsocks: { password: generateShadowsocksPassword('2022-blake3-aes-256-gcm') }
+        }, [1]);
+
+        expect(result.failed).toBe(1);
+        expect(result.results[0]!.error).toContain('16-byte base64 key');
+    });
+});
@@ -8,8 +8,20 @@ import type {
     ClientIpInfo,
     ApiResponse,
     Inbound,
+    InboundGetResponse,
     InboundSettings,
+    MutationResult,
+    MutationResultMode,
     SubscriptionInfo,
+    ShareLinkOptions,
+    ClashExportOptions,
+    ClashExportResult,
+    SingBoxExportOptions,
+    SingBoxExportResult,
+    QrCodeFormat,
+    QrCodeOptions,
+    SubscriptionFeed,
+    SubscriptionFeedOptions,
     MassClientRequest,
     VlessClient,
     VmessClient,
@@ -27,13 +39,25 @@ import {
     convertExpiryDays,
     convertIpLimit,
     generateUUID,
-    generateRandomEmail
+    generateRandomEmail,
+    generateShadowsocksPassword,
+    validateShadowsocksPassword,
+    SHADOWSOCKS_2022_KEY_SIZES,
+    parseInboundField,
+    protocolSupportsClients,
+    toMutationResult
 } from './utils';
 
+import { buildShareLink, buildSubscriptionLinks } from './share-links';
+import { buildSubscriptionFeed } from './subscription-feed';
+import { buildClashConfig } from './clash-export';
+import { buildSingBoxConfig } from './singbox-export';
+import { renderQrCode } from './qr-code';
+
 /**
  * Client manager for operations on inbound clients
  */
-export class ClientManager {
+export class ClientManager<M extends MutationResultMode = 'entity'> {
     constructor(private client: XUIClient) { }
 
     /**
@@ -86,9 +110,9 @@ export class ClientManager {
     }
 
     /**
-     * Add client to inbound
+     * Add client to inbound, returns the client as stored by the panel
      */
-    async addClient(inboundId: number, client: Client): Promise<boolean> {
+    async addClient(inboundId: number, client: Client): Promise<MutationResult<M, Client>> {
         if (!validateInboundId(inboundId)) {
             throw new ValidationError('Invalid inbound ID', 'inboundId');
         }
@@ -96,40 +120,24 @@ export class ClientManager {
         this.validateClientData(client);
 
         try {
-            const inboundResponse = await this.client.get<any>(
-                this.getPath(`/get/${inboundId}`)
-            );
-
-            if (!inboundResponse.success || !inboundResponse.obj) {
-                throw new Error('Inbound not found');
-            }
-
-            const inbound: Inbound = inboundResponse.obj;
-
-            const currentSettings = inbound.settings || { clients: [] };
-            const settings: InboundSettings = {
-                ...currentSettings,
-                clients: [...(currentSettings.clients || [])]
-            };
-
-            settings.clients!.push(client);
+            const stored = await this.client.writeInbound(inboundId, 'addClient', async () => {
+                // The panel appends payload clients to the inbound, so only the new client is sent
+                const response = await this.client.post<ApiResponse>(
+                    this.getPath('/addClient'),
+                    {
+                        id: inboundId,
+                        settings: safeJsonStringify({ clients: [client] })
+                    }
+                );
 
-            const updateData = {
-                id: inboundId,
-                settings: safeJsonStringify(settings)
-            };
+                if (!response.success) {
+                    throw new Error(response.message || 'Failed to add client');
+                }
+            }, () => this.findStoredClient(inboundId, client));
 
-            const response = await this.client.post<ApiResponse>(
-                this.getPath('/addClient'),
-                updateData
-            );
+            this.client.getLogger().info(`Added client ${client.email} to inbound ${inboundId}`, { operation: 'addClient', inboundId, email: client.email });
 
-            if (!response.success) {
-                throw new Error(response.message || 'Failed to add client');
-            }
-
-            console.log(`Successfully added client ${client.email} to inbound ${inboundId}`);
-            return true;
+            return await toMutationResult<M, Client>(this.client.getMutationResultMode(), async () => stored);
         } catch (error) {
             throw createErrorWithContext(error, {
                 operation: 'addClient',
@@ -154,15 +162,15 @@ export class ClientManager {
         }
 
         try {
-            const response = await this.client.post<ApiResponse>(
+            const response = await this.client.withInboundLock(inboundId, () => this.client.post<ApiResponse>(
                 this.getPath(`/${inboundId}/delClient/${encodeURIComponent(clientId)}`)
-            );
+            ));
 
             if (!response.success) {
                 throw new Error(response.message || 'Failed to delete client');
             }
 
-            console.log(`Successfully deleted client ${clientId} from inbound ${inboundId}`);
+            this.client.getLogger().info(`Deleted client ${clientId} from inbound ${inboundId}`, { operation: 'deleteClient', inboundId, clientId });
             return true;
         } catch (error) {
             throw createErrorWithContext(error, {
@@ -176,7 +184,7 @@ export class ClientManager {
     /**
      * Update client by client ID
      */
-    async updateClient(inboundId: number, clientId: string, clientData: Partial<Client>): Promise<boolean> {
+    async updateClient(inboundId: number, clientId: string, clientData: Partial<Client>): Promise<MutationResult<M, Client>> {
         if (!validateInboundId(inboundId)) {
             throw new ValidationError('Invalid inbound ID', 'inboundId');
         }
@@ -186,57 +194,53 @@ export class ClientManager {
         }
 
         try {
-            const inboundResponse = await this.client.get<any>(
-                this.getPath(`/get/${inboundId}`)
-            );
+            let written: Client | null = null;
 
-            if (!inboundResponse.success || !inboundResponse.obj) {
-                throw new Error('Inbound not found');
-            }
+            // Merge into the current client on every attempt, a retry must not restore stale fields
+            const stored = await this.client.writeInbound(inboundId, 'updateClient', async () => {
+                const inboundResponse = await this.client.get<any>(
+                    this.getPath(`/get/${inboundId}`)
+                );
 
-            const inbound: Inbound = inboundResponse.obj;
+                if (!inboundResponse.success || !inboundResponse.obj) {
+                    throw new Error('Inbound not found');
+                }
 
-            const currentSettings = inbound.settings || { clients: [] };
-            if (!currentSettings.clients || currentSettings.clients.length === 0) {
-                throw new Error('No clients found in inbound');
-            }
+                const inbound: Inbound = inboundResponse.obj;
 
-            let clientFound = false;
-            const updatedClients = currentSettings.clients.map(client => {
-                const isMatch = this.isClientMatch(client, clientId, inbound.protocol);
+                const currentSettings = parseInboundField<InboundSettings>(inbound.settings, { clients: [] });
+                if (!currentSettings.clients || currentSettings.clients.length === 0) {
+                    throw new Error('No clients found in inbound');
+                }
+
+                const existing = currentSettings.clients.find(client => this.isClientMatch(client, clientId, inbound.protocol));
 
-                if (isMatch) {
-                    clientFound = true;
-                    return { ...client, ...clientData };
+                if (!existing) {
+                    throw new Error('Client not found');
                 }
-                return client;
-            });
 
-            if (!clientFound) {
-                throw new Error('Client not found');
-            }
+                const updatedClient = { ...existing, ...clientData } as Client;
+                written = updatedClient;
 
-            const settings: InboundSettings = {
-                ...currentSettings,
-                clients: updatedClients
-            };
+                // The panel replaces the client with the first client of the payload
+                const updateData = {
+                    id: inboundId,
+                    settings: safeJsonStringify({ clients: [updatedClient] })
+                };
 
-            const updateData = {
-                id: inboundId,
-                settings: safeJsonStringify(settings)
-            };
+                const response = await this.client.post<ApiResponse>(
+                    this.getPath(`/updateClient/${encodeURIComponent(clientId)}`),
+                    updateData
+                );
 
-            const response = await this.client.post<ApiResponse>(
-                this.getPath(`/updateClient/${encodeURIComponent(clientId)}`),
-                updateData
-            );
+                if (!response.success) {
+                    throw new Error(response.message || 'Failed to update client');
+                }
+            }, () => this.findStoredClient(inboundId, written!, clientData));
 
-            if (!response.success) {
-                throw new Error(response.message || 'Failed to update client');
-            }
+            this.client.getLogger().info(`Updated client ${clientId} in inbound ${inboundId}`, { operation: 'updateClient', inboundId, clientId });
 
-            console.log(`Successfully updated client ${clientId} in inbound ${inboundId}`);
-            return true;
+            return await toMutationResult<M, Client>(this.client.getMutationResultMode(), async () => stored);
         } catch (error) {
             throw createErrorWithContext(error, {
                 operation: 'updateClient',
@@ -264,7 +268,7 @@ export class ClientManager {
                 throw new Error(response.message || 'Failed to reset client traffic');
             }
 
-            console.log(`Successfully reset traffic for client ${email} in inbound ${inboundId}`);
+            this.client.getLogger().info(`Reset traffic for client ${email} in inbound ${inboundId}`, { operation: 'resetClientTraffic', inboundId, email });
             return true;
         } catch (error) {
             throw createErrorWithContext(error, {
@@ -312,7 +316,7 @@ export class ClientManager {
                 throw new Error(response.message || 'Failed to clear client IPs');
             }
 
-            console.log(`Successfully cleared IPs for client ${email}`);
+            this.client.getLogger().info(`Cleared IPs for client ${email}`, { operation: 'clearClientIps', email });
             return true;
         } catch (error) {
             throw createErrorWithContext(error, {
@@ -325,14 +329,14 @@ export class ClientManager {
     /**
      * Enable/disable client
      */
-    async toggleClientEnabled(inboundId: number, clientId: string, enabled: boolean): Promise<boolean> {
+    async toggleClientEnabled(inboundId: number, clientId: string, enabled: boolean): Promise<MutationResult<M, Client>> {
         return this.updateClient(inboundId, clientId, { enable: enabled });
     }
 
     /**
      * Set client traffic limit
      */
-    async setClientTrafficLimit(inboundId: number, clientId: string, limitGB: number): Promise<boolean> {
+    async setClientTrafficLimit(inboundId: number, clientId: string, limitGB: number): Promise<MutationResult<M, Client>> {
         if (limitGB < 0) {
             throw new ValidationError('Traffic limit must be non-negative', 'limitGB');
         }
@@ -345,7 +349,7 @@ export class ClientManager {
     /**
      * Set client expiry date
      */
-    async setClientExpiry(inboundId: number, clientId: string, expiryDate: Date): Promise<boolean> {
+    async setClientExpiry(inboundId: number, clientId: string, expiryDate: Date): Promise<MutationResult<M, Client>> {
         return this.updateClient(inboundId, clientId, {
             expiryTime: expiryDate.getTime()
         });
@@ -479,7 +483,11 @@ export class ClientManager {
                     try {
                         parsedSettings = JSON.parse(inbound.settings);
                     } catch (error) {
-                        console.warn(`Failed to parse settings for inbound ${inbound.id}: ${error}`);
+                        this.client.getLogger().warn(`Failed to parse settings for inbound ${inbound.id}`, {
+                            operation: 'getAllSubscriptions',
+                            inboundId: inbound.id,
+                            error: error instanceof Error ? error.message : String(error)
+                        });
                         continue;
                     }
                 } else {
@@ -538,7 +546,176 @@ export class ClientManager {
     }
 
     /**
-     * Create client with the same subId on all inbounds
+     * Get share links for all clients of a subscription
+     * @param options.address Server address (defaults to the panel host)
+     */
+    async getSubscriptionLinks(subId: string, options: Omit<ShareLinkOptions, 'remark'> = {}): Promise<string[]> {
+        if (!subId?.trim()) {
+            throw new ValidationError('SubId is required', 'subId');
+        }
+
+        try {
+            const { subscription, inbounds } = await this.loadSubscription(subId);
+
+            return buildSubscriptionLinks(subscription, inbounds, {
+                address: options.address ?? this.getPanelHost()
+            });
+        } catch (error) {
+            throw createErrorWithContext(error, {
+                operation: 'getSubscriptionLinks',
+                subId
+            }, `Failed to get links for subscription ${subId}`);
+        }
+    }
+
+    /**
+     * Render subscription as base64 link feed with subscription-userinfo header
+     * @param options.address Server address (defaults to the panel host)
+     */
+    async getSubscriptionFeed(subId: string, options: SubscriptionFeedOptions = {}): Promise<SubscriptionFeed> {
+        if (!subId?.trim()) {
+            throw new ValidationError('SubId is required', 'subId');
+        }
+
+        try {
+            const { subscription, inbounds } = await this.loadSubscription(subId);
+
+            return buildSubscriptionFeed(subscription, inbounds, undefined, {
+                ...options,
+                address: options.address ?? this.getPanelHost()
+            });
+        } catch (error) {
+            throw createErrorWithContext(error, {
+                operation: 'getSubscriptionFeed',
+                subId
+            }, `Failed to get feed for subscription ${subId}`);
+        }
+    }
+
+    /**
+     * Export subscription as Clash/Mihomo config
+     * @param options.address Server address (defaults to the panel host)
+     */
+    async getClashConfig(subId: string, options: ClashExportOptions = {}): Promise<ClashExportResult> {
+        if (!subId?.trim()) {
+            throw new ValidationError('SubId is required', 'subId');
+        }
+
+        try {
+            const { subscription, inbounds } = await this.loadSubscription(subId);
+
+            return buildClashConfig(subscription, inbounds, {
+                ...options,
+                address: options.address ?? this.getPanelHost()
+            });
+        } catch (error) {
+            throw createErrorWithContext(error, {
+                operation: 'getClashConfig',
+                subId
+            }, `Failed to export Clash config for subscription ${subId}`);
+        }
+    }
+
+    /**
+     * Export subscription as sing-box config
+     * @param options.address Server address (defaults to the panel host)
+     */
+    async getSingBoxConfig(subId: string, options: SingBoxExportOptions = {}): Promise<SingBoxExportResult> {
+        if (!subId?.trim()) {
+            throw new ValidationError('SubId is required', 'subId');
+        }
+
+        try {
+            const { subscription, inbounds } = await this.loadSubscription(subId);
+
+            return buildSingBoxConfig(subscription, inbounds, {
+                ...options,
+                address: options.address ?? this.getPanelHost()
+            });
+        } catch (error) {
+            throw createErrorWithContext(error, {
+                operation: 'getSingBoxConfig',
+                subId
+            }, `Failed to export sing-box config for subscription ${subId}`);
+        }
+    }
+
+    /**
+     * Get share link for a single client of an inbound
+     * @param clientId Client ID (client.id for VMESS/VLESS, client.password for TROJAN, client.email for Shadowsocks)
+     */
+    async getClientLink(inboundId: number, clientId: string, options: ShareLinkOptions = {}): Promise<string> {
+        if (!validateInboundId(inboundId)) {
+            throw new ValidationError('Invalid inbound ID', 'inboundId');
+        }
+
+        try {
+            const inboundResponse = await this.client.get<any>(
+                this.getPath(`/get/${inboundId}`)
+            );
+
+            if (!inboundResponse.success || !inboundResponse.obj) {
+                throw new Error('Inbound not found');
+            }
+
+            const inbound: Inbound = inboundResponse.obj;
+            const settings = parseInboundField<InboundSettings>(inbound.settings, {});
+            const client = settings.clients?.find(c => this.isClientMatch(c, clientId, inbound.protocol));
+
+            if (!client) {
+                throw new Error('Client not found');
+            }
+
+            return buildShareLink(inbound, client, {
+                ...options,
+                address: options.address ?? this.getPanelHost()
+            });
+        } catch (error) {
+            throw createErrorWithContext(error, {
+                operation: 'getClientLink',
+                inboundId,
+                clientId
+            }, 'Failed to get client link');
+        }
+    }
+
+    /**
+     * Render client share link as QR code
+     * @param format svg (markup), png (data URL) or terminal (Unicode blocks)
+     */
+    async getClientQrCode(
+        inboundId: number,
+        clientId: string,
+        format: QrCodeFormat = 'svg',
+        options: QrCodeOptions & ShareLinkOptions = {}
+    ): Promise<string> {
+        const link = await this.getClientLink(inboundId, clientId, {
+            address: options.address,
+            remark: options.remark
+        });
+
+        return renderQrCode(link, format, options);
+    }
+
+    /**
+     * Render every share link of a subscription as QR code
+     * @param format svg (markup), png (data URL) or terminal (Unicode blocks)
+     */
+    async getSubscriptionQrCodes(
+        subId: string,
+        format: QrCodeFormat = 'svg',
+        options: QrCodeOptions & Omit<ShareLinkOptions, 'remark'> = {}
+    ): Promise<Array<{ link: string; qrCode: string }>> {
+        const links = await this.getSubscriptionLinks(subId, { address: options.address });
+
+        return links.map(link => ({
+            link,
+            qrCode: renderQrCode(link, format, options)
+        }));
+    }
+
+    /**
+     * Create client with the same subId on all inbounds that support clients
      */
     async createClientOnAllInbounds(request: MassClientRequest): Promise<{
         success: number;
@@ -548,6 +725,7 @@ export class ClientManager {
             inboundRemark: string;
             protocol: string;
             success: boolean;
+            client?: Client;
             error?: string;
         }>;
     }> {
@@ -566,12 +744,14 @@ export class ClientManager {
                 throw new Error('Failed to get inbounds');
             }
 
-            const inbounds: Inbound[] = inboundsResponse.obj;
+            // WireGuard, mixed, tunnel and other proxy inbounds cannot hold subscription clients
+            const inbounds = (inboundsResponse.obj as Inbound[]).filter(inbound => protocolSupportsClients(inbound.protocol));
             const results: Array<{
                 inboundId: number;
                 inboundRemark: string;
                 protocol: string;
                 success: boolean;
+                client?: Client;
                 error?: string;
             }> = [];
 
@@ -581,17 +761,18 @@ export class ClientManager {
             for (const inbound of inbounds) {
                 try {
                     const client = this.createClientForProtocol(inbound, request);
-                    await this.addClient(inbound.id, client);
+                    const stored = await this.addClient(inbound.id, client);
 
                     results.push({
                         inboundId: inbound.id,
                         inboundRemark: inbound.remark,
                         protocol: inbound.protocol,
-                        success: true
+                        success: true,
+                        client: typeof stored === 'boolean' ? client : stored
                     });
 
                     successCount++;
-                    console.log(`✅ Client created successfully on inbound ${inbound.id} (${inbound.remark})`);
+                    this.client.getLogger().debug(`Client created on inbound ${inbound.id} (${inbound.remark})`, { operation: 'massCreateClient', inboundId: inbound.id, subId: request.subId });
                 } catch (error) {
                     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
@@ -604,11 +785,21 @@ export class ClientManager {
                     });
 
                     failedCount++;
-                    console.warn(`❌ Failed to create client on inbound ${inbound.id} (${inbound.remark}): ${errorMessage}`);
+                    this.client.getLogger().warn(`Failed to create client on inbound ${inbound.id} (${inbound.remark})`, {
+                        operation: 'massCreateClient',
+                        inboundId: inbound.id,
+                        subId: request.subId,
+                        error: errorMessage
+                    });
                 }
             }
 
-            console.log(`Mass client creation completed: ${successCount} success, ${failedCount} failed`);
+            this.client.getLogger().info(`Mass client creation completed: ${successCount} success, ${failedCount} failed`, {
+                operation: 'massCreateClient',
+                subId: request.subId,
+                success: successCount,
+                failed: failedCount
+            });
 
             return {
                 success: successCount,
@@ -634,6 +825,7 @@ export class ClientManager {
             inboundRemark: string;
             protocol: string;
             success: boolean;
+            client?: Client;
             error?: string;
         }>;
     }> {
@@ -653,6 +845,7 @@ export class ClientManager {
                 inboundRemark: string;
                 protocol: string;
                 success: boolean;
+                client?: Client;
                 error?: string;
             }> = [];
 
@@ -671,17 +864,18 @@ export class ClientManager {
 
                     const inbound: Inbound = inboundResponse.obj;
                     const client = this.createClientForProtocol(inbound, request);
-                    await this.addClient(inbound.id, client);
+                    const stored = await this.addClient(inbound.id, client);
 
                     results.push({
                         inboundId: inbound.id,
                         inboundRemark: inbound.remark,
                         protocol: inbound.protocol,
-                        success: true
+                        success: true,
+                        client: typeof stored === 'boolean' ? client : stored
                     });
 
                     successCount++;
-                    console.log(`✅ Client created successfully on inbound ${inbound.id} (${inbound.remark})`);
+                    this.client.getLogger().debug(`Client created on inbound ${inbound.id} (${inbound.remark})`, { operation: 'massCreateClient', inboundId: inbound.id, subId: request.subId });
                 } catch (error) {
                     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
@@ -694,11 +888,21 @@ export class ClientManager {
                     });
 
                     failedCount++;
-                    console.warn(`❌ Failed to create client on inbound ${inboundId}: ${errorMessage}`);
+                    this.client.getLogger().warn(`Failed to create client on inbound ${inboundId}`, {
+                        operation: 'massCreateClient',
+                        inboundId,
+                        subId: request.subId,
+                        error: errorMessage
+                    });
                 }
             }
 
-            console.log(`Mass client creation completed: ${successCount} success, ${failedCount} failed`);
+            this.client.getLogger().info(`Mass client creation completed: ${successCount} success, ${failedCount} failed`, {
+                operation: 'massCreateClient',
+                subId: request.subId,
+                success: successCount,
+                failed: failedCount
+            });
 
             return {
                 success: successCount,
@@ -764,7 +968,7 @@ export class ClientManager {
                     });
 
                     successCount++;
-                    console.log(`✅ Client ${clientInfo.client.email} deleted from inbound ${clientInfo.inboundId}`);
+                    this.client.getLogger().debug(`Client ${clientInfo.client.email} deleted from inbound ${clientInfo.inboundId}`, { operation: 'massDeleteClient', inboundId: clientInfo.inboundId, email: clientInfo.client.email });
                 } catch (error) {
                     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
@@ -776,11 +980,21 @@ export class ClientManager {
                     });
 
                     failedCount++;
-                    console.warn(`❌ Failed to delete client ${clientInfo.client.email} from inbound ${clientInfo.inboundId}: ${errorMessage}`);
+                    this.client.getLogger().warn(`Failed to delete client ${clientInfo.client.email} from inbound ${clientInfo.inboundId}`, {
+                        operation: 'massDeleteClient',
+                        inboundId: clientInfo.inboundId,
+                        email: clientInfo.client.email,
+                        error: errorMessage
+                    });
                 }
             }
 
-            console.log(`Mass client deletion completed: ${successCount} success, ${failedCount} failed`);
+            this.client.getLogger().info(`Mass client deletion completed: ${successCount} success, ${failedCount} failed`, {
+                operation: 'massDeleteClient',
+                subId,
+                success: successCount,
+                failed: failedCount
+            });
 
             return {
                 success: successCount,
@@ -795,6 +1009,146 @@ export class ClientManager {
         }
     }
 
+    /**
+     * Enable/disable all clients with specific subId
+     */
+    async setSubscriptionEnabled(subId: string, enabled: boolean): Promise<{
+        success: number;
+        failed: number;
+        results: Array<{
+            inboundId: number;
+            clientEmail: string;
+            success: boolean;
+            error?: string;
+        }>;
+    }> {
+        if (!subId?.trim()) {
+            throw new ValidationError('SubId is required', 'subId');
+        }
+
+        try {
+            const subscription = await this.getSubscriptionById(subId);
+
+            if (!subscription) {
+                return {
+                    success: 0,
+                    failed: 0,
+                    results: []
+                };
+            }
+
+            const results: Array<{
+                inboundId: number;
+                clientEmail: string;
+                success: boolean;
+                error?: string;
+            }> = [];
+
+            let successCount = 0;
+            let failedCount = 0;
+
+            for (const clientInfo of subscription.clients) {
+                try {
+                    if (clientInfo.client.enable !== enabled) {
+                        const clientId = this.getClientIdForProtocol(clientInfo.client, clientInfo.inboundProtocol);
+                        await this.updateClient(clientInfo.inboundId, clientId, { enable: enabled });
+                    }
+
+                    results.push({
+                        inboundId: clientInfo.inboundId,
+                        clientEmail: clientInfo.client.email,
+                        success: true
+                    });
+
+                    successCount++;
+                } catch (error) {
+                    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+                    results.push({
+                        inboundId: clientInfo.inboundId,
+                        clientEmail: clientInfo.client.email,
+                        success: false,
+                        error: errorMessage
+                    });
+
+                    failedCount++;
+                    this.client.getLogger().warn(`Failed to ${enabled ? 'enable' : 'disable'} client ${clientInfo.client.email} on inbound ${clientInfo.inboundId}`, {
+                        operation: 'setSubscriptionEnabled',
+                        inboundId: clientInfo.inboundId,
+                        email: clientInfo.client.email,
+                        error: errorMessage
+                    });
+                }
+            }
+
+            return {
+                success: successCount,
+                failed: failedCount,
+                results
+            };
+        } catch (error) {
+            throw createErrorWithContext(error, {
+                operation: 'setSubscriptionEnabled',
+                subId,
+                enabled
+            }, `Failed to ${enabled ? 'enable' : 'disable'} clients with subId ${subId}`);
+        }
+    }
+
+    /**
+     * Read written client back from the panel. Returns null when it is missing
+     * or its credentials differ (the write was overwritten).
+     */
+    private async findStoredClient(inboundId: number, written: Client, patch: Partial<Client> = {}): Promise<Client | null> {
+        const response = await this.client.get<InboundGetResponse>(
+            this.getPath(`/get/${inboundId}`)
+        );
+
+        if (!response.success || !response.obj) {
+            throw new Error(response.message || 'Inbound not found');
+        }
+
+        const settings = parseInboundField<InboundSettings>(response.obj.settings, { clients: [] });
+        const stored = settings.clients?.find(client => client.email === written.email);
+
+        return stored && this.hasSameCredentials(stored, written) && this.hasPatchedFields(stored, patch) ? stored : null;
+    }
+
+    /**
+     * Compare only identity fields, the panel may normalize the rest (defaults, number types)
+     */
+    private hasSameCredentials(stored: Client, written: Client): boolean {
+        if (written.id && stored.id !== written.id) {
+            return false;
+        }
+
+        if ('password' in written && written.password) {
+            return 'password' in stored && stored.password === written.password;
+        }
+
+        return true;
+    }
+
+    /**
+     * Check that every updated field reached the stored client. Values are compared as strings,
+     * the panel may return numbers and booleans it stored in another type.
+     */
+    private hasPatchedFields(stored: Client, patch: Partial<Client>): boolean {
+        const storedFields: Record<string, unknown> = { ...stored };
+
+        return Object.entries(patch).every(([field, value]) => {
+            if (value === undefined) {
+                return true;
+            }
+
+            const storedValue = storedFields[field];
+
+            return typeof value === 'object' && value !== null
+                ? JSON.stringify(storedValue) === JSON.stringify(value)
+                : String(storedValue ?? '') === String(value);
+        });
+    }
+
     /**
     * Generate unique random email (8 random bytes like "8s884159")
     */
@@ -843,18 +1197,41 @@ export class ClientManager {
                     password: request.trojan?.password ?? generateUUID()
                 } as TrojanClient;
 
-            case 'shadowsocks':
+            case 'shadowsocks': {
+                const inboundMethod = parseInboundField<InboundSettings>(inbound.settings, {}).method;
+                const requestedMethod = request.shadowsocks?.method;
+
+                // Xray requires client method (and key size) to match the inbound method
+                if (inboundMethod && requestedMethod && requestedMethod !== inboundMethod) {
+                    throw new ValidationError(
+                        `Client method ${requestedMethod} does not match inbound method ${inboundMethod}`,
+                        'shadowsocks.method'
+                    );
+                }
+
+                const method = inboundMethod || requestedMethod || 'aes-256-gcm';
+                const password = request.shadowsocks?.password ?? generateShadowsocksPassword(method);
+
+                if (!validateShadowsocksPassword(password, method)) {
+                    const keySize = SHADOWSOCKS_2022_KEY_SIZES[method];
+                    throw new ValidationError(
+                        keySize ? `Password must be a ${keySize}-byte base64 key for ${method}` : 'Shadowsocks password is required',
+                        'shadowsocks.password'
+                    );
+                }
+
                 return {
                     ...baseClient,
-                    method: request.shadowsocks?.method ?? 'aes-256-gcm',
-                    password: request.shadowsocks?.password ?? generateUUID()
+                    method,
+                    password
                 } as ShadowsocksClient;
+            }
+
+            case 'wireguard':
+                throw new ValidationError('WireGuard inbounds have peers instead of clients, use inbounds.addWireguardPeer()', 'protocol');
 
             default:
-                return {
-                    ...baseClient,
-                    flow: this.determineVlessFlow(inbound, request)
-                } as VlessClient;
+                throw new ValidationError(`Inbound protocol ${inbound.protocol} does not support clients`, 'protocol');
         }
     }
 
@@ -936,6 +1313,44 @@ export class ClientManager {
         }
     }
 
+    /**
+     * Get all inbounds
+     */
+    private async getInbounds(): Promise<Inbound[]> {
+        const inboundsResponse = await this.client.get<any>(
+            this.getPath('/list')
+        );
+
+        if (!inboundsResponse.success || !inboundsResponse.obj) {
+            throw new Error('Failed to get inbounds');
+        }
+
+        return inboundsResponse.obj;
+    }
+
+    /**
+     * Load subscription together with all inbounds it may reference
+     */
+    private async loadSubscription(subId: string): Promise<{ subscription: SubscriptionInfo; inbounds: Inbound[] }> {
+        const [subscription, inbounds] = await Promise.all([
+            this.getSubscriptionById(subId),
+            this.getInbounds()
+        ]);
+
+        if (!subscription) {
+            throw new Error('Subscription not found');
+        }
+
+        return { subscription, inbounds };
+    }
+
+    /**
+     * Get panel hostname used as default server address for links
+     */
+    private getPanelHost(): string {
+        return new URL(this.client.getBaseUrl()).hostname;
+    }
+
     /**
      * Get API path for client operations
      */
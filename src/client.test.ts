@@ -0,0 +1,90 @@
+import { describe, expect, test } from 'bun:test';
+
+import { AuthenticationError, TwoFactorError, createClient, createMockPanel } from './index';
+import type { TwoFactorConfig } from './types';
+
+function setup() {
+    const panel = createMockPanel();
+    const xui = createClient({
+        baseUrl: panel.baseUrl,
+        username: 'admin',
+        password: 'admin',
+        transport: panel.transport,
+        retryAttempts: 0
+    });
+
+    return { panel, xui };
+}
+
+describe('single-flight login', () => {
+    test('parallel requests on a fresh client log in once', async () => {
+        const { panel, xui } = setup();
+
+        await Promise.all(Array.from({ length: 50 }, () => xui.inbounds.getList()));
+
+        expect(panel.loginCount).toBe(1);
+    });
+
+    test('burst of 401s after session expiry logs in once more', async () => {
+        const { panel, xui } = setup();
+
+        await xui.login();
+        panel.expireSessions();
+        const loginsBefore = panel.loginCount;
+
+        await Promise.all(Array.from({ length: 50 }, () => xui.inbounds.getList()));
+
+        expect(panel.loginCount - loginsBefore).toBe(1);
+        expect(panel.requests.filter(request => request.status === 401).length).toBe(50);
+    });
+});
+
+describe('two-factor login', () => {
+    function setupTwoFactor(twoFactor: TwoFactorConfig, password: string = 'admin') {
+        const panel = createMockPanel({ twoFactorCode: '123456' });
+        let failNextLogin = false;
+        const xui = createClient({
+            baseUrl: panel.baseUrl,
+            username: 'admin',
+            password,
+            twoFactor,
+            retryAttempts: 0,
+            transport: async (url, init) => {
+                if (failNextLogin && String(url).endsWith('/login')) {
+                    failNextLogin = false;
+                    throw new TypeError('fetch failed');
+                }
+                return panel.transport(url, init);
+            }
+        });
+
+        return { panel, xui, failLogin: () => { failNextLogin = true; } };
+    }
+
+    test('rejected code raises TwoFactorError', async () => {
+        const { xui } = setupTwoFactor({ code: '000000' });
+
+        await expect(xui.login()).rejects.toBeInstanceOf(TwoFactorError);
+    });
+
+    test('wrong password with 2FA configured stays an authentication error', async () => {
+        const { xui } = setupTwoFactor({ code: '123456' }, 'wrong');
+        const error = await xui.login().catch(error => error);
+
+        expect(error).toBeInstanceOf(AuthenticationError);
+        expect(error).not.toBeInstanceOf(TwoFactorError);
+    });
+
+    test('static code survives a failed login and is rejected after a successful one', async () => {
+        const { panel, xui, failLogin } = setupTwoFactor({ code: '123456' });
+
+        failLogin();
+        await expect(xui.login()).rejects.toThrow();
+
+        await xui.login();
+        expect(panel.loginCount).toBe(1);
+
+        xui.logout();
+        await expect(xui.login()).rejects.toThrow(/already used/);
+    });
+});
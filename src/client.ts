@@ -3,9 +3,19 @@ import {
     type LoginRequest,
     type LoginResponse,
     type ApiResponse,
+    type TwoFactorConfig,
+    type SessionStore,
+    type HttpTransport,
+    type HttpInterceptor,
+    type HttpRequestContext,
+    type Logger,
+    type SchemaValidationMode,
+    type MutationResultMode,
     AuthenticationError,
+    TwoFactorError,
     NetworkError,
-    ValidationError
+    ValidationError,
+    WriteConflictError
 } from './types';
 
 import {
@@ -13,26 +23,46 @@ import {
     CircuitBreaker,
     handleHttpError,
     createErrorWithContext,
-    safeJsonParse
+    safeJsonParse,
+    generateTOTP
 } from './utils';
+import { silentLogger } from './logger';
+
+/** Panel login messages that blame the two-factor code (English and Russian panel locales) */
+const TWO_FACTOR_REJECTION = /two[- ]?factor|\b2fa\b|\bt?otp\b|authenticator|verification code|двухфактор|одноразов/i;
+
+/** Tail of the write queue per panel resource (inbound, Xray template), shared by all clients in the process */
+const writeQueues = new Map<string, Promise<void>>();
 
 /**
  * Main 3x-ui API client with authentication and session management
  */
 export class XUIClient {
     private readonly baseUrl: string;
-    private readonly username: string;
-    private readonly password: string;
+    private username: string;
+    private password: string;
     private readonly timeout: number;
     private readonly retryAttempts: number;
     private readonly retryDelay: number;
+    private readonly twoFactor?: TwoFactorConfig;
+    private readonly sessionStore?: SessionStore;
+    private readonly sessionTtl: number;
+    private readonly transport: HttpTransport;
+    private readonly interceptors: HttpInterceptor[];
+    private readonly userAgent: string;
+    private readonly logger: Logger;
+    private readonly schemaValidation: SchemaValidationMode;
+    private readonly mutationResult: MutationResultMode;
+    private readonly lostUpdateRetries: number;
 
     private sessionCookie: string | null = null;
     private isAuthenticated = false;
     private lastLoginTime: number = 0;
+    private loginPromise: Promise<void> | null = null;
+    private staticTwoFactorCodeUsed = false;
     private circuitBreaker: CircuitBreaker;
 
-    constructor(config: ClientConfig) {
+    constructor(config: ClientConfig<MutationResultMode>) {
         if (!config.baseUrl || !config.username || !config.password) {
             throw new ValidationError('baseUrl, username, and password are required');
         }
@@ -43,29 +73,66 @@ export class XUIClient {
         this.timeout = config.timeout ?? 30000; // 30 seconds default
         this.retryAttempts = config.retryAttempts ?? 3;
         this.retryDelay = config.retryDelay ?? 1000;
+        this.twoFactor = config.twoFactor;
+        this.sessionStore = config.sessionStore;
+        this.sessionTtl = config.sessionTtl ?? 60 * 60 * 1000; // 1 hour default
+        this.transport = config.transport ?? ((url, init) => fetch(url, init));
+        this.interceptors = [...(config.interceptors ?? [])];
+        this.userAgent = config.userAgent ?? '3xui-api-client/1.0.0';
+        this.logger = config.logger ?? silentLogger;
+        this.schemaValidation = config.schemaValidation ?? 'warn';
+        this.mutationResult = config.mutationResult ?? 'entity';
+        this.lostUpdateRetries = config.lostUpdateRetries ?? 2;
 
         this.circuitBreaker = new CircuitBreaker(
             this.makeHttpRequest.bind(this),
             5, // threshold
             60000, // timeout
-            '3x-ui-api'
+            '3x-ui-api',
+            this.logger
         );
 
-        console.log(`Initialized 3x-ui client for ${this.baseUrl}`);
+        this.logger.debug(`Initialized 3x-ui client for ${this.baseUrl}`, { operation: 'init' });
     }
 
     /**
-     * Authenticate with the 3x-ui panel
+     * Authenticate with the 3x-ui panel.
+     * Concurrent calls share one in-flight login.
      */
     async login(): Promise<void> {
+        return this.runSingleFlightLogin(() => this.performLogin());
+    }
+
+    /**
+     * Run login flow unless one is already in flight, in which case join it
+     */
+    private runSingleFlightLogin(flow: () => Promise<void>): Promise<void> {
+        if (!this.loginPromise) {
+            this.loginPromise = flow().finally(() => {
+                this.loginPromise = null;
+            });
+        }
+
+        return this.loginPromise;
+    }
+
+    /**
+     * Post credentials to /login and store the session cookie
+     */
+    private async performLogin(): Promise<void> {
         try {
-            console.log('Attempting to login...');
+            this.logger.debug('Attempting to login', { operation: 'login' });
 
             const loginData: LoginRequest = {
                 username: this.username,
                 password: this.password
             };
 
+            const twoFactorCode = await this.getTwoFactorCode();
+            if (twoFactorCode) {
+                loginData.twoFactorCode = twoFactorCode;
+            }
+
             const response = await this.makeRawRequest('/login', {
                 method: 'POST',
                 headers: {
@@ -74,6 +141,8 @@ export class XUIClient {
                 body: new URLSearchParams(loginData as any).toString()
             });
 
+            this.checkLoginResponse(await response.clone().text());
+
             const setCookieHeaders = response.headers.getSetCookie?.() ||
                 response.headers.get('set-cookie')?.split(',') ||
                 [];
@@ -95,11 +164,23 @@ export class XUIClient {
             this.isAuthenticated = true;
             this.lastLoginTime = Date.now();
 
-            console.log('Login successful');
+            // Only a login the panel accepted uses up a static code
+            if (this.twoFactor && 'code' in this.twoFactor) {
+                this.staticTwoFactorCodeUsed = true;
+            }
+
+            await this.persistSession();
+
+            this.logger.info('Login successful', { operation: 'login' });
         } catch (error) {
             this.isAuthenticated = false;
             this.sessionCookie = null;
 
+            this.logger.error('Login failed', {
+                operation: 'login',
+                error: error instanceof Error ? error.message : String(error)
+            });
+
             throw createErrorWithContext(error, {
                 username: this.username,
                 baseUrl: this.baseUrl
@@ -107,15 +188,176 @@ export class XUIClient {
         }
     }
 
+    /**
+     * Resolve two-factor code from static code, TOTP secret or callback
+     */
+    private async getTwoFactorCode(): Promise<string | undefined> {
+        if (!this.twoFactor) {
+            return undefined;
+        }
+
+        if ('code' in this.twoFactor) {
+            // A one-time code cannot pass the re-login after session expiry
+            if (this.staticTwoFactorCodeUsed) {
+                throw new TwoFactorError('Static two-factor code was already used, configure twoFactor.secret or twoFactor.getCode for re-login');
+            }
+
+            return this.twoFactor.code;
+        }
+
+        if ('secret' in this.twoFactor) {
+            const { secret, ...totpOptions } = this.twoFactor;
+            return generateTOTP(secret, totpOptions);
+        }
+
+        const code = await this.twoFactor.getCode();
+        if (!code?.trim()) {
+            throw new TwoFactorError('Two-factor code callback returned an empty code');
+        }
+
+        return code.trim();
+    }
+
+    /**
+     * Inspect login response body, the panel answers 200 with success=false on rejected logins
+     */
+    private checkLoginResponse(body: string): void {
+        const data = body ? safeJsonParse<{ success?: boolean; msg?: string; message?: string }>(body, {}) : {};
+
+        if (data.success !== false) {
+            return;
+        }
+
+        const message = data.msg || data.message || 'Login rejected by panel';
+
+        if (!TWO_FACTOR_REJECTION.test(message)) {
+            throw new AuthenticationError(message);
+        }
+
+        if (this.twoFactor) {
+            throw new TwoFactorError(`Two-factor code rejected: ${message}`);
+        }
+
+        throw new AuthenticationError(`${message} (panel requires two-factor code, set twoFactor in config)`);
+    }
+
     /**
      * Check if current session is valid and re-authenticate if needed
      */
     private async ensureAuthenticated(): Promise<void> {
-        const sessionAge = Date.now() - this.lastLoginTime;
-        const oneHour = 60 * 60 * 1000;
+        if (this.isAuthenticated && this.sessionCookie && !this.isSessionExpired(this.lastLoginTime)) {
+            return;
+        }
+
+        await this.runSingleFlightLogin(async () => {
+            if (await this.restoreSession()) {
+                return;
+            }
 
-        if (!this.isAuthenticated || !this.sessionCookie || sessionAge > oneHour) {
-            await this.login();
+            await this.performLogin();
+        });
+    }
+
+    /**
+     * Re-login after the panel rejected a session cookie.
+     * Requests rejected with an already replaced cookie just reuse the new session.
+     */
+    private async handleUnauthorized(rejectedCookie: string | null): Promise<void> {
+        if (this.loginPromise) {
+            return this.loginPromise;
+        }
+
+        if (this.isAuthenticated && this.sessionCookie && this.sessionCookie !== rejectedCookie) {
+            return;
+        }
+
+        this.logger.warn('Session rejected by panel, attempting re-login', { operation: 'relogin' });
+        this.isAuthenticated = false;
+        this.sessionCookie = null;
+
+        await this.runSingleFlightLogin(async () => {
+            await this.clearStoredSession();
+            await this.performLogin();
+        });
+    }
+
+    private isSessionExpired(lastLoginTime: number): boolean {
+        return Date.now() - lastLoginTime > this.sessionTtl;
+    }
+
+    /**
+     * Key identifying this panel account in the session store
+     */
+    private getSessionKey(): string {
+        return `${this.baseUrl}|${this.username}`;
+    }
+
+    /**
+     * Reuse a non-expired session from the session store
+     */
+    private async restoreSession(): Promise<boolean> {
+        if (!this.sessionStore) {
+            return false;
+        }
+
+        try {
+            const stored = await this.sessionStore.get(this.getSessionKey());
+
+            if (!stored?.sessionCookie || this.isSessionExpired(stored.lastLoginTime)) {
+                return false;
+            }
+
+            this.sessionCookie = stored.sessionCookie;
+            this.lastLoginTime = stored.lastLoginTime;
+            this.isAuthenticated = true;
+
+            this.logger.debug('Restored session from session store', { operation: 'restoreSession' });
+            return true;
+        } catch (error) {
+            this.logger.warn('Failed to read session store', {
+                operation: 'restoreSession',
+                error: error instanceof Error ? error.message : String(error)
+            });
+            return false;
+        }
+    }
+
+    /**
+     * Save current session to the session store
+     */
+    private async persistSession(): Promise<void> {
+        if (!this.sessionStore || !this.sessionCookie) {
+            return;
+        }
+
+        try {
+            await this.sessionStore.set(this.getSessionKey(), {
+                sessionCookie: this.sessionCookie,
+                lastLoginTime: this.lastLoginTime
+            });
+        } catch (error) {
+            this.logger.warn('Failed to write session store', {
+                operation: 'persistSession',
+                error: error instanceof Error ? error.message : String(error)
+            });
+        }
+    }
+
+    /**
+     * Remove session from the session store
+     */
+    private async clearStoredSession(): Promise<void> {
+        if (!this.sessionStore) {
+            return;
+        }
+
+        try {
+            await this.sessionStore.delete(this.getSessionKey());
+        } catch (error) {
+            this.logger.warn('Failed to clear session store', {
+                operation: 'clearSession',
+                error: error instanceof Error ? error.message : String(error)
+            });
         }
     }
 
@@ -123,36 +365,56 @@ export class XUIClient {
      * Make a raw HTTP request without authentication
      */
     private async makeRawRequest(path: string, init: RequestInit = {}): Promise<Response> {
-        const url = `${this.baseUrl}${path}`;
-
-        const requestInit: RequestInit = {
-            ...init,
-            headers: {
-                'User-Agent': '3xui-api-client/1.0.0',
-                ...init.headers
+        let context: HttpRequestContext = {
+            url: `${this.baseUrl}${path}`,
+            path,
+            init: {
+                ...init,
+                headers: {
+                    'User-Agent': this.userAgent,
+                    ...init.headers
+                }
             }
         };
 
+        for (const interceptor of this.interceptors) {
+            context = (await interceptor.onRequest?.(context)) ?? context;
+        }
+
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), this.timeout);
 
+        let response: Response;
+
         try {
-            const response = await fetch(url, {
-                ...requestInit,
+            response = await this.transport(context.url, {
+                ...context.init,
                 signal: controller.signal
             });
 
             clearTimeout(timeoutId);
-            return response;
         } catch (error) {
             clearTimeout(timeoutId);
 
-            if ((error as Error).name === 'AbortError') {
-                throw new NetworkError(`Request timeout after ${this.timeout}ms`);
+            const networkError = (error as Error).name === 'AbortError'
+                ? new NetworkError(`Request timeout after ${this.timeout}ms`)
+                : new NetworkError(`Network request failed: ${(error as Error).message}`);
+
+            for (const interceptor of this.interceptors) {
+                const recovered = await interceptor.onError?.(networkError, context);
+                if (recovered) {
+                    return recovered;
+                }
             }
 
-            throw new NetworkError(`Network request failed: ${(error as Error).message}`);
+            throw networkError;
+        }
+
+        for (const interceptor of this.interceptors) {
+            response = (await interceptor.onResponse?.(response, context)) ?? response;
         }
+
+        return response;
     }
 
     /**
@@ -161,11 +423,13 @@ export class XUIClient {
     private async makeHttpRequest(path: string, init: RequestInit = {}): Promise<Response> {
         await this.ensureAuthenticated();
 
+        const usedCookie = this.sessionCookie;
         const requestInit: RequestInit = {
             ...init,
             headers: {
-                'Cookie': this.sessionCookie || '',
-                'Content-Type': 'application/json',
+                'Cookie': usedCookie || '',
+                // Multipart bodies need the boundary fetch generates
+                ...(init.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
                 ...init.headers
             }
         };
@@ -173,11 +437,7 @@ export class XUIClient {
         const response = await this.makeRawRequest(path, requestInit);
 
         if (response.status === 401) {
-            console.warn('Authentication failed, attempting re-login...');
-            this.isAuthenticated = false;
-            this.sessionCookie = null;
-
-            await this.login();
+            await this.handleUnauthorized(usedCookie);
 
             return this.makeRawRequest(path, {
                 ...requestInit,
@@ -202,9 +462,9 @@ export class XUIClient {
 
             try {
                 const textResponse = await response.text();
-                responseData = textResponse ? safeJsonParse(textResponse, {}) : {};
+                responseData = textResponse ? safeJsonParse(textResponse, {}, this.logger) : {};
             } catch (error) {
-                console.warn('Failed to parse response as JSON, using empty object');
+                this.logger.warn('Failed to read response body, using empty object', { operation: 'request', path });
                 responseData = {};
             }
 
@@ -215,7 +475,31 @@ export class XUIClient {
             return responseData as T;
         }, {
             maxRetries: this.retryAttempts,
-            backoffMs: this.retryDelay
+            backoffMs: this.retryDelay,
+            logger: this.logger,
+            operation: `${init.method ?? 'GET'} ${path}`
+        });
+    }
+
+    /**
+     * Make an API request and return the raw response (binary downloads).
+     * Error statuses are handled like in request().
+     */
+    async requestRaw(path: string, init: RequestInit = {}): Promise<Response> {
+        return resilientApiCall(async () => {
+            const response: Response = await this.circuitBreaker.call(path, init);
+
+            if (!response.ok) {
+                const textResponse = await response.text().catch(() => '');
+                handleHttpError(response, textResponse ? safeJsonParse(textResponse, {}, this.logger) : {});
+            }
+
+            return response;
+        }, {
+            maxRetries: this.retryAttempts,
+            backoffMs: this.retryDelay,
+            logger: this.logger,
+            operation: `${init.method ?? 'GET'} ${path}`
         });
     }
 
@@ -235,7 +519,12 @@ export class XUIClient {
         };
 
         if (data) {
-            if (data instanceof FormData || data instanceof URLSearchParams) {
+            if (data instanceof URLSearchParams) {
+                init.body = data;
+                init.headers = {
+                    'Content-Type': 'application/x-www-form-urlencoded'
+                };
+            } else if (data instanceof FormData) {
                 init.body = data;
             } else {
                 init.body = JSON.stringify(data);
@@ -278,11 +567,28 @@ export class XUIClient {
             await this.makeRawRequest('/', { method: 'GET' });
             return true;
         } catch (error) {
-            console.warn('Connection check failed:', error);
+            this.logger.warn('Connection check failed', {
+                operation: 'checkConnection',
+                error: error instanceof Error ? error.message : String(error)
+            });
             return false;
         }
     }
 
+    /**
+     * Register interceptor, returns function that removes it
+     */
+    addInterceptor(interceptor: HttpInterceptor): () => void {
+        this.interceptors.push(interceptor);
+
+        return () => {
+            const index = this.interceptors.indexOf(interceptor);
+            if (index !== -1) {
+                this.interceptors.splice(index, 1);
+            }
+        };
+    }
+
     /**
      * Get circuit breaker status
      */
@@ -305,6 +611,108 @@ export class XUIClient {
         };
     }
 
+    /**
+     * Get panel base URL
+     */
+    getBaseUrl(): string {
+        return this.baseUrl;
+    }
+
+    /**
+     * Get configured logger
+     */
+    getLogger(): Logger {
+        return this.logger;
+    }
+
+    /**
+     * Get how schema drift in panel responses is handled
+     */
+    getSchemaValidation(): SchemaValidationMode {
+        return this.schemaValidation;
+    }
+
+    /**
+     * Get whether mutations return entities or booleans
+     */
+    getMutationResultMode(): MutationResultMode {
+        return this.mutationResult;
+    }
+
+    /**
+     * Run read-modify-write on an inbound. Writes to the same inbound are serialized within the process,
+     * and a write that reading back shows as lost to another writer (other process, panel UI) is repeated.
+     * `verify` returns the stored result, or null when the write is missing.
+     */
+    async writeInbound<T>(
+        inboundId: number,
+        operation: string,
+        write: () => Promise<void>,
+        verify: () => Promise<T | null>
+    ): Promise<T> {
+        return this.withInboundLock(inboundId, async () => {
+            for (let attempt = 0; attempt <= this.lostUpdateRetries; attempt++) {
+                if (attempt > 0) {
+                    this.logger.warn(`Write to inbound ${inboundId} was lost to a concurrent update, retrying`, { operation, inboundId, attempt });
+                }
+
+                await write();
+
+                const stored = await verify();
+                if (stored !== null) {
+                    return stored;
+                }
+            }
+
+            throw new WriteConflictError(`Write to inbound ${inboundId} kept being overwritten by concurrent updates`, inboundId);
+        });
+    }
+
+    /**
+     * Run task after all earlier writes to the inbound have settled.
+     * Not reentrant: the task must not start another write to the same inbound.
+     */
+    withInboundLock<T>(inboundId: number, task: () => Promise<T>): Promise<T> {
+        return this.withWriteLock(`inbound#${inboundId}`, task);
+    }
+
+    /**
+     * Run task after all earlier Xray template edits have settled. Not reentrant.
+     */
+    withXrayTemplateLock<T>(task: () => Promise<T>): Promise<T> {
+        return this.withWriteLock('xray-template', task);
+    }
+
+    private withWriteLock<T>(resource: string, task: () => Promise<T>): Promise<T> {
+        const key = `${this.baseUrl}#${resource}`;
+        const result = (writeQueues.get(key) ?? Promise.resolve()).then(task);
+        const tail = result.then(() => undefined, () => undefined);
+
+        writeQueues.set(key, tail);
+        void tail.then(() => {
+            if (writeQueues.get(key) === tail) {
+                writeQueues.delete(key);
+            }
+        });
+
+        return result;
+    }
+
+    /**
+     * Use new credentials for future logins (after the admin account was changed)
+     */
+    async updateCredentials(username: string, password: string): Promise<void> {
+        if (!username || !password) {
+            throw new ValidationError('username and password are required');
+        }
+
+        // The store is keyed by username: drop the old entry before saving under the new one
+        await this.clearStoredSession();
+        this.username = username;
+        this.password = password;
+        await this.persistSession();
+    }
+
     /**
      * Manually logout and clear session
      */
@@ -312,7 +720,8 @@ export class XUIClient {
         this.isAuthenticated = false;
         this.sessionCookie = null;
         this.lastLoginTime = 0;
-        console.log('Logged out successfully');
+        void this.clearStoredSession();
+        this.logger.info('Logged out', { operation: 'logout' });
     }
 
     /**
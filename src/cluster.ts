@@ -0,0 +1,460 @@
+import { XUI } from './xui';
+import { ValidationError } from './types';
+import type {
+    ClientConfig,
+    ClusterConfig,
+    ClusterListResult,
+    ClusterNodeHealth,
+    ClusterResult,
+    ClusterSubscriptionFeed,
+    ClusterSubscriptionFeedOptions,
+    ClusterSubscriptionNodeResult,
+    ClusterSubscriptionOptions,
+    ClusterSubscriptionResult,
+    Inbound,
+    Logger,
+    MassClientRequest,
+    SubscriptionInfo,
+    SubscriptionUserInfo
+} from './types';
+
+import { silentLogger } from './logger';
+import { encodeBase64, generateUUID, protocolSupportsClients } from './utils';
+import { buildSubscriptionFeed, formatSubscriptionUserInfo } from './subscription-feed';
+
+interface NodeOperationOutcome {
+    success: number;
+    failed: number;
+    errors: string[];
+}
+
+interface ClusterNode {
+    xui: XUI;
+    baseUrl: string;
+    consecutiveFailures: number;
+    lastSuccessAt?: number;
+    lastFailureAt?: number;
+    lastError?: string;
+    latencyMs?: number;
+}
+
+/**
+ * Several named 3x-ui panels managed together.
+ * Reads fan out to every node and merge with a node label, writes target named nodes.
+ */
+export class XUICluster {
+    private readonly nodes = new Map<string, ClusterNode>();
+    private readonly logger: Logger;
+
+    constructor(config: ClusterConfig) {
+        this.logger = config.logger ?? silentLogger;
+
+        if (Object.keys(config.panels ?? {}).length === 0) {
+            throw new ValidationError('At least one panel is required', 'panels');
+        }
+
+        for (const [name, panel] of Object.entries(config.panels)) {
+            this.addNode(name, panel);
+        }
+    }
+
+    /**
+     * Add panel to the cluster
+     */
+    addNode(name: string, config: ClientConfig): void {
+        if (!name?.trim()) {
+            throw new ValidationError('Node name is required', 'name');
+        }
+
+        if (this.nodes.has(name)) {
+            throw new ValidationError(`Node ${name} already exists`, 'name');
+        }
+
+        this.nodes.set(name, {
+            xui: new XUI({ logger: this.logger, ...config }),
+            baseUrl: config.baseUrl.replace(/\/$/, ''),
+            consecutiveFailures: 0
+        });
+    }
+
+    /**
+     * Remove panel from the cluster and drop its session
+     */
+    removeNode(name: string): boolean {
+        const node = this.nodes.get(name);
+        if (!node) {
+            return false;
+        }
+
+        node.xui.logout();
+        return this.nodes.delete(name);
+    }
+
+    /**
+     * Names of all nodes
+     */
+    getNodeNames(): string[] {
+        return [...this.nodes.keys()];
+    }
+
+    /**
+     * Get panel client of one node (calls made through it are not tracked in health)
+     */
+    node(name: string): XUI {
+        return this.getNode(name).xui;
+    }
+
+    /**
+     * Run operation on one node, tracking its health. Errors are rethrown.
+     */
+    async run<T>(name: string, operation: (xui: XUI, node: string) => Promise<T>): Promise<T> {
+        const node = this.getNode(name);
+        const startedAt = Date.now();
+
+        try {
+            const value = await operation(node.xui, name);
+
+            node.consecutiveFailures = 0;
+            node.lastSuccessAt = Date.now();
+            node.latencyMs = node.lastSuccessAt - startedAt;
+
+            return value;
+        } catch (error) {
+            node.consecutiveFailures++;
+            node.lastFailureAt = Date.now();
+            node.lastError = error instanceof Error ? error.message : String(error);
+            node.latencyMs = node.lastFailureAt - startedAt;
+
+            this.logger.warn(`Cluster node ${name} failed`, {
+                operation: 'cluster',
+                node: name,
+                attempt: node.consecutiveFailures,
+                error: node.lastError
+            });
+
+            throw error;
+        }
+    }
+
+    /**
+     * Run operation on several nodes in parallel (all by default).
+     * Failed nodes are reported in `errors` instead of failing the call.
+     */
+    async runOn<T>(
+        operation: (xui: XUI, node: string) => Promise<T>,
+        nodes: string[] = this.getNodeNames()
+    ): Promise<ClusterResult<T>> {
+        for (const name of nodes) {
+            this.getNode(name);
+        }
+
+        const settled = await Promise.allSettled(nodes.map(name => this.run(name, operation)));
+        const result: ClusterResult<T> = { results: [], errors: [] };
+
+        settled.forEach((outcome, index) => {
+            const node = nodes[index]!;
+
+            if (outcome.status === 'fulfilled') {
+                result.results.push({ node, value: outcome.value });
+            } else {
+                result.errors.push({
+                    node,
+                    error: outcome.reason instanceof Error ? outcome.reason : new Error(String(outcome.reason))
+                });
+            }
+        });
+
+        return result;
+    }
+
+    /**
+     * Log in to every node
+     */
+    async login(): Promise<ClusterResult<void>> {
+        return this.runOn(xui => xui.login());
+    }
+
+    /**
+     * Log out of every node
+     */
+    logout(): void {
+        for (const node of this.nodes.values()) {
+            node.xui.logout();
+        }
+    }
+
+    /**
+     * Inbounds of all nodes
+     */
+    async getInboundList(): Promise<ClusterListResult<Inbound>> {
+        return this.mergeItems(await this.runOn(xui => xui.inbounds.getList()));
+    }
+
+    /**
+     * Online users of all nodes
+     */
+    async getOnlineUsers(): Promise<ClusterListResult<{ email: string }>> {
+        const result = await this.runOn(async xui => {
+            const emails = await xui.inbounds.getOnlineUsers();
+            return emails.map(email => ({ email }));
+        });
+
+        return this.mergeItems(result);
+    }
+
+    /**
+     * Subscriptions of all nodes (one entry per node a subId exists on)
+     */
+    async getAllSubscriptions(): Promise<ClusterListResult<SubscriptionInfo>> {
+        return this.mergeItems(await this.runOn(xui => xui.clients.getAllSubscriptions()));
+    }
+
+    /**
+     * Create client with the same subId on every inbound of every node.
+     * Inbounds already holding the subId are skipped, so failed nodes are retried without duplicates.
+     */
+    async createSubscription(
+        request: MassClientRequest,
+        options: ClusterSubscriptionOptions = {}
+    ): Promise<ClusterSubscriptionResult> {
+        const subId = request.subId || generateUUID();
+        const nodeRequest: MassClientRequest = { ...request, subId };
+
+        return this.runSubscriptionOperation('createSubscription', subId, options, async xui => {
+            const [inbounds, existing] = await Promise.all([
+                xui.inbounds.getList(),
+                xui.clients.getSubscriptionById(subId)
+            ]);
+
+            const provisioned = new Set(existing?.clients.map(clientInfo => clientInfo.inboundId));
+            const missing = inbounds
+                .filter(inbound => protocolSupportsClients(inbound.protocol) && !provisioned.has(inbound.id))
+                .map(inbound => inbound.id);
+
+            if (missing.length === 0) {
+                return { success: provisioned.size, failed: 0, errors: [] };
+            }
+
+            const result = await xui.clients.createClientOnInbounds(nodeRequest, missing);
+
+            return {
+                success: provisioned.size + result.success,
+                failed: result.failed,
+                errors: result.results
+                    .filter(entry => !entry.success)
+                    .map(entry => `inbound ${entry.inboundId}: ${entry.error}`)
+            };
+        });
+    }
+
+    /**
+     * Delete all clients with subId on every node
+     */
+    async deleteSubscription(subId: string, options: ClusterSubscriptionOptions = {}): Promise<ClusterSubscriptionResult> {
+        if (!subId?.trim()) {
+            throw new ValidationError('SubId is required', 'subId');
+        }
+
+        return this.runSubscriptionOperation('deleteSubscription', subId, options, async xui =>
+            toNodeOutcome(await xui.clients.deleteClientsBySubId(subId))
+        );
+    }
+
+    /**
+     * Enable/disable all clients with subId on every node
+     */
+    async setSubscriptionEnabled(
+        subId: string,
+        enabled: boolean,
+        options: ClusterSubscriptionOptions = {}
+    ): Promise<ClusterSubscriptionResult> {
+        if (!subId?.trim()) {
+            throw new ValidationError('SubId is required', 'subId');
+        }
+
+        return this.runSubscriptionOperation('setSubscriptionEnabled', subId, options, async xui =>
+            toNodeOutcome(await xui.clients.setSubscriptionEnabled(subId, enabled))
+        );
+    }
+
+    /**
+     * Base64 link feed with links from every node the subscription exists on.
+     * Link remarks are prefixed with the node name.
+     */
+    async getSubscriptionFeed(
+        subId: string,
+        options: ClusterSubscriptionFeedOptions = {}
+    ): Promise<ClusterSubscriptionFeed> {
+        if (!subId?.trim()) {
+            throw new ValidationError('SubId is required', 'subId');
+        }
+
+        const { results, errors } = await this.runOn(async (xui, node) => {
+            const [subscription, inbounds] = await Promise.all([
+                xui.clients.getSubscriptionById(subId),
+                xui.inbounds.getList()
+            ]);
+
+            if (!subscription) {
+                return null;
+            }
+
+            return buildSubscriptionFeed(
+                subscription,
+                inbounds.map(inbound => ({ ...inbound, remark: `${node}-${inbound.remark}` })),
+                undefined,
+                {
+                    address: options.addresses?.[node] ?? new URL(this.getNode(node).baseUrl).hostname,
+                    includeDisabled: options.includeDisabled
+                }
+            );
+        });
+
+        const feeds = results.filter(result => result.value !== null);
+
+        if (feeds.length === 0) {
+            const details = errors.map(({ node, error }) => `${node}: ${error.message}`).join('; ');
+            throw new Error(`Subscription ${subId} not found on any node${details ? ` (${details})` : ''}`);
+        }
+
+        const links = feeds.flatMap(feed => feed.value!.links);
+        const userInfo = mergeUserInfo(feeds.map(feed => feed.value!.userInfo));
+
+        return {
+            subId,
+            links,
+            content: encodeBase64(links.join('\n')),
+            userInfo,
+            headers: {
+                'subscription-userinfo': formatSubscriptionUserInfo(userInfo)
+            },
+            nodes: feeds.map(feed => feed.node),
+            errors
+        };
+    }
+
+    /**
+     * Health of every node based on the last calls made through the cluster
+     */
+    getHealth(): ClusterNodeHealth[] {
+        return [...this.nodes.entries()].map(([name, node]) => ({
+            node: name,
+            baseUrl: node.baseUrl,
+            status: node.lastSuccessAt === undefined && node.lastFailureAt === undefined
+                ? 'unknown'
+                : node.consecutiveFailures === 0 ? 'healthy' : 'unhealthy',
+            consecutiveFailures: node.consecutiveFailures,
+            lastSuccessAt: node.lastSuccessAt !== undefined ? new Date(node.lastSuccessAt) : undefined,
+            lastFailureAt: node.lastFailureAt !== undefined ? new Date(node.lastFailureAt) : undefined,
+            lastError: node.lastError,
+            latencyMs: node.latencyMs,
+            circuitBreakerOpen: node.xui.getCircuitBreakerStatus().isOpen
+        }));
+    }
+
+    /**
+     * Probe every node with an inbound list request and return fresh health
+     */
+    async checkHealth(): Promise<ClusterNodeHealth[]> {
+        await this.runOn(xui => xui.inbounds.getList());
+        return this.getHealth();
+    }
+
+    /**
+     * Run subscription operation on nodes, retrying nodes that failed or partially failed
+     */
+    private async runSubscriptionOperation(
+        operationName: string,
+        subId: string,
+        options: ClusterSubscriptionOptions,
+        operation: (xui: XUI, node: string) => Promise<NodeOperationOutcome>
+    ): Promise<ClusterSubscriptionResult> {
+        const { nodes = this.getNodeNames(), retries = 2, retryDelay = 1000 } = options;
+        const outcomes = new Map<string, ClusterSubscriptionNodeResult>();
+        const permanent = new Set<string>();
+        let pending = [...nodes];
+
+        for (let attempt = 1; attempt <= retries + 1 && pending.length > 0; attempt++) {
+            if (attempt > 1) {
+                this.logger.info(`Retrying ${operationName} on ${pending.join(', ')}`, {
+                    operation: operationName,
+                    subId,
+                    attempt
+                });
+                await new Promise(resolve => setTimeout(resolve, retryDelay));
+            }
+
+            const { results, errors } = await this.runOn(operation, pending);
+
+            for (const { node, value } of results) {
+                outcomes.set(node, { node, ...value, attempts: attempt });
+            }
+
+            for (const { node, error } of errors) {
+                outcomes.set(node, { node, success: 0, failed: 0, attempts: attempt, errors: [error.message] });
+
+                if (error instanceof ValidationError) {
+                    permanent.add(node);
+                }
+            }
+
+            pending = pending.filter(node => outcomes.get(node)!.errors.length > 0 && !permanent.has(node));
+        }
+
+        const nodeResults = nodes.map(node => outcomes.get(node)!);
+        const failedNodes = nodeResults.filter(result => result.errors.length > 0).map(result => result.node);
+
+        this.logger.info(`Cluster ${operationName} completed: ${nodes.length - failedNodes.length} nodes ok, ${failedNodes.length} failed`, {
+            operation: operationName,
+            subId,
+            failedNodes
+        });
+
+        return { subId, nodes: nodeResults, failedNodes };
+    }
+
+    private getNode(name: string): ClusterNode {
+        const node = this.nodes.get(name);
+
+        if (!node) {
+            throw new ValidationError(`Unknown cluster node: ${name}`, 'node');
+        }
+
+        return node;
+    }
+
+    private mergeItems<T extends object>(result: ClusterResult<T[]>): ClusterListResult<T> {
+        return {
+            items: result.results.flatMap(({ node, value }) => value.map(item => ({ ...item, node }))),
+            errors: result.errors
+        };
+    }
+}
+
+function toNodeOutcome(result: {
+    success: number;
+    failed: number;
+    results: Array<{ inboundId: number; clientEmail: string; success: boolean; error?: string }>;
+}): NodeOperationOutcome {
+    return {
+        success: result.success,
+        failed: result.failed,
+        errors: result.results
+            .filter(entry => !entry.success)
+            .map(entry => `${entry.clientEmail} on inbound ${entry.inboundId}: ${entry.error}`)
+    };
+}
+
+/**
+ * Combine usage of several nodes: traffic and limits add up, the earliest expiry wins
+ */
+function mergeUserInfo(infos: SubscriptionUserInfo[]): SubscriptionUserInfo {
+    const expiries = infos.map(info => info.expire).filter(expire => expire > 0);
+
+    return {
+        upload: infos.reduce((sum, info) => sum + info.upload, 0),
+        download: infos.reduce((sum, info) => sum + info.download, 0),
+        total: infos.some(info => info.total === 0) ? 0 : infos.reduce((sum, info) => sum + info.total, 0),
+        expire: expiries.length > 0 ? Math.min(...expiries) : 0
+    };
+}
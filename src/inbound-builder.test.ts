@@ -0,0 +1,114 @@
+import { describe, expect, test } from 'bun:test';
+
+import { InboundBuilder, ValidationError, createClient, createMockPanel, getRealityPublicKey } from './index';
+import type { ShadowsocksClient, TrojanClient, VlessClient } from './types';
+
+const tls = { serverName: 'vpn.example.com', certificateFile: '/etc/ssl/cert.pem', keyFile: '/etc/ssl/key.pem' };
+
+describe('presets', () => {
+    test('vlessReality generates keys and applies Vision to clients', () => {
+        const inbound = InboundBuilder.vlessReality({ port: 443, dest: 'www.microsoft.com:443' })
+            .client({ email: 'alice' })
+            .build();
+
+        const reality = inbound.streamSettings.realitySettings!;
+        expect(inbound.remark).toBe('vless-reality-443');
+        expect(inbound.tag).toBe('inbound-443');
+        expect(inbound.streamSettings.network).toBe('tcp');
+        expect(reality.serverNames).toEqual(['www.microsoft.com']);
+        expect(reality.settings?.publicKey).toBe(getRealityPublicKey(reality.privateKey!));
+        expect(reality.shortIds.length).toBeGreaterThan(0);
+        expect((inbound.settings.clients?.[0] as VlessClient).flow).toBe('xtls-rprx-vision');
+    });
+
+    test('vmessWs and trojanGrpc use TLS with their transports', () => {
+        const vmess = InboundBuilder.vmessWs({ port: 8443, path: '/ws', host: 'cdn.example.com', ...tls }).build();
+        const trojan = InboundBuilder.trojanGrpc({ port: 2053, serviceName: 'api', ...tls }).client().build();
+
+        expect(vmess.streamSettings.wsSettings).toMatchObject({ path: '/ws' });
+        expect(vmess.streamSettings.tlsSettings?.serverName).toBe('vpn.example.com');
+        expect(trojan.streamSettings.grpcSettings?.serviceName).toBe('api');
+        expect(trojan.streamSettings.tlsSettings?.alpn).toEqual(['h2']);
+        expect((trojan.settings.clients?.[0] as TrojanClient).password).toBeTruthy();
+    });
+
+    test('shadowsocks2022 generates a key of the method size', () => {
+        const inbound = InboundBuilder.shadowsocks2022({ port: 8388, method: '2022-blake3-aes-128-gcm' })
+            .client({ email: 'alice' })
+            .build();
+
+        expect(inbound.settings.method).toBe('2022-blake3-aes-128-gcm');
+        expect(Buffer.from(inbound.settings.password!, 'base64')).toHaveLength(16);
+        expect(Buffer.from((inbound.settings.clients?.[0] as ShadowsocksClient).password, 'base64')).toHaveLength(16);
+    });
+
+    test('built preset is accepted by the panel', async () => {
+        const panel = createMockPanel();
+        const xui = createClient({
+            baseUrl: panel.baseUrl,
+            username: 'admin',
+            password: 'admin',
+            transport: panel.transport,
+            retryAttempts: 0
+        });
+
+        await xui.inbounds.add(InboundBuilder.vlessReality({ port: 443 }).client({ email: 'alice' }).build());
+
+        const [inbound] = panel.getInbounds();
+        expect(inbound?.streamSettings.security).toBe('reality');
+        expect(inbound?.settings.clients?.map(client => client.email)).toEqual(['alice']);
+    });
+});
+
+describe('validation', () => {
+    function fieldOf(build: () => unknown): string | undefined {
+        try {
+            build();
+        } catch (error) {
+            expect(error).toBeInstanceOf(ValidationError);
+            return (error as ValidationError).field;
+        }
+        throw new Error('Expected build to fail');
+    }
+
+    test('invalid port', () => {
+        expect(fieldOf(() => new InboundBuilder('vless', 70000).build())).toBe('port');
+    });
+
+    test('TLS without certificate', () => {
+        expect(fieldOf(() => InboundBuilder.vmessWs({ ...tls, port: 8443, keyFile: '' }).build()))
+            .toBe('streamSettings.tlsSettings.certificates');
+    });
+
+    test('Vision outside VLESS over TCP', () => {
+        expect(fieldOf(() => new InboundBuilder('vless', 443).grpc('api').tls(tls).vision().build())).toBe('flow');
+        expect(fieldOf(() => new InboundBuilder('vless', 443).vision().build())).toBe('flow');
+    });
+
+    test('Reality checks', () => {
+        expect(fieldOf(() => new InboundBuilder('vmess', 443).reality().build())).toBe('streamSettings.security');
+        expect(fieldOf(() => InboundBuilder.vlessReality({ port: 443 }).ws('/ws').build())).toBe('streamSettings.network');
+        expect(fieldOf(() => InboundBuilder.vlessReality({ port: 443, dest: 'example.com' }).build()))
+            .toBe('streamSettings.realitySettings.dest');
+        expect(fieldOf(() => InboundBuilder.vlessReality({ port: 443, shortIds: ['abc'] }).build()))
+            .toBe('streamSettings.realitySettings.shortIds');
+    });
+
+    test('transport settings', () => {
+        expect(fieldOf(() => new InboundBuilder('vless', 443).ws('ws').build())).toBe('streamSettings.wsSettings.path');
+        expect(fieldOf(() => new InboundBuilder('trojan', 443).grpc('').build())).toBe('streamSettings.grpcSettings.serviceName');
+    });
+
+    test('Shadowsocks 2022 server key size', () => {
+        expect(fieldOf(() => InboundBuilder.shadowsocks2022({ port: 8388, password: 'short' }).build())).toBe('settings.password');
+    });
+
+    test('duplicate client email', () => {
+        expect(fieldOf(() => InboundBuilder.vlessReality({ port: 443 }).client({ email: 'a' }).client({ email: 'a' }).build()))
+            .toBe('settings.clients');
+    });
+
+    test('clients on a protocol without clients', () => {
+        expect(fieldOf(() => new InboundBuilder('wireguard', 51820).client())).toBe('protocol');
+    });
+});
@@ -0,0 +1,432 @@
+import { ValidationError } from './types';
+import type {
+    AddInboundRequest,
+    Client,
+    Inbound,
+    InboundRealityOptions,
+    InboundSettings,
+    InboundStreamSettings,
+    InboundTlsOptions,
+    Shadowsocks2022PresetOptions,
+    TrojanGrpcPresetOptions,
+    VlessRealityPresetOptions,
+    VmessWsPresetOptions
+} from './types';
+
+import {
+    generateRandomEmail,
+    generateRealityKeyPair,
+    generateShadowsocksPassword,
+    generateShortIds,
+    generateUUID,
+    generateWireguardKeyPair,
+    getRealityPublicKey,
+    protocolSupportsClients,
+    SHADOWSOCKS_2022_KEY_SIZES,
+    validatePort,
+    validateShadowsocksPassword
+} from './utils';
+
+const VISION_FLOW = 'xtls-rprx-vision';
+const DEFAULT_REALITY_DEST = 'google.com:443';
+const DEFAULT_SNIFFING = ['http', 'tls', 'quic'];
+
+/** Transports Reality can run over */
+const REALITY_NETWORKS = ['tcp', 'grpc', 'h2', 'http'];
+
+/**
+ * Fluent builder for AddInboundRequest with defaults, key generation and consistency checks.
+ *
+ * @example
+ * const inbound = InboundBuilder.vlessReality({ port: 443, dest: 'www.microsoft.com:443' }).build();
+ * await xui.inbounds.add(inbound);
+ */
+export class InboundBuilder {
+    private data: AddInboundRequest;
+    private flow = '';
+
+    constructor(protocol: Inbound['protocol'], port: number) {
+        this.data = {
+            remark: '',
+            enable: true,
+            expiryTime: 0,
+            listen: '',
+            port,
+            protocol,
+            settings: defaultSettings(protocol),
+            streamSettings: { network: 'tcp', security: 'none' },
+            tag: '',
+            sniffing: { enabled: true, destOverride: [...DEFAULT_SNIFFING] }
+        };
+    }
+
+    /**
+     * VLESS + Reality + XTLS Vision over TCP
+     */
+    static vlessReality(options: VlessRealityPresetOptions): InboundBuilder {
+        return new InboundBuilder('vless', options.port)
+            .remark(options.remark ?? `vless-reality-${options.port}`)
+            .listen(options.listen ?? '')
+            .tcp()
+            .reality(options)
+            .vision();
+    }
+
+    /**
+     * VMess over WebSocket with TLS
+     */
+    static vmessWs(options: VmessWsPresetOptions): InboundBuilder {
+        return new InboundBuilder('vmess', options.port)
+            .remark(options.remark ?? `vmess-ws-${options.port}`)
+            .listen(options.listen ?? '')
+            .ws(options.path ?? '/', options.host)
+            .tls(options);
+    }
+
+    /**
+     * Trojan over gRPC with TLS
+     */
+    static trojanGrpc(options: TrojanGrpcPresetOptions): InboundBuilder {
+        return new InboundBuilder('trojan', options.port)
+            .remark(options.remark ?? `trojan-grpc-${options.port}`)
+            .listen(options.listen ?? '')
+            .grpc(options.serviceName ?? 'grpc')
+            .tls({ ...options, alpn: options.alpn ?? ['h2'] });
+    }
+
+    /**
+     * Shadowsocks 2022 (multi-user) over TCP and UDP
+     */
+    static shadowsocks2022(options: Shadowsocks2022PresetOptions): InboundBuilder {
+        return new InboundBuilder('shadowsocks', options.port)
+            .remark(options.remark ?? `ss2022-${options.port}`)
+            .listen(options.listen ?? '')
+            .shadowsocks(options.method ?? '2022-blake3-aes-256-gcm', options.password);
+    }
+
+    remark(remark: string): this {
+        this.data.remark = remark;
+        return this;
+    }
+
+    port(port: number): this {
+        this.data.port = port;
+        return this;
+    }
+
+    /** Listen address (default: all interfaces) */
+    listen(address: string): this {
+        this.data.listen = address;
+        return this;
+    }
+
+    /** Xray inbound tag (default: inbound-<port> like the panel) */
+    tag(tag: string): this {
+        this.data.tag = tag;
+        return this;
+    }
+
+    enable(enabled: boolean = true): this {
+        this.data.enable = enabled;
+        return this;
+    }
+
+    /** Inbound expiry as a timestamp in ms, 0 for none */
+    expiryTime(timestamp: number): this {
+        this.data.expiryTime = timestamp;
+        return this;
+    }
+
+    sniffing(enabled: boolean, destOverride: string[] = DEFAULT_SNIFFING): this {
+        this.data.sniffing = { enabled, destOverride: [...destOverride] };
+        return this;
+    }
+
+    /**
+     * Raw TCP transport
+     */
+    tcp(): this {
+        this.setNetwork('tcp');
+        this.data.streamSettings.tcpSettings = { header: { type: 'none' } };
+        return this;
+    }
+
+    /**
+     * WebSocket transport
+     */
+    ws(path: string = '/', host?: string): this {
+        this.setNetwork('ws');
+        this.data.streamSettings.wsSettings = { path, ...(host && { host }) };
+        return this;
+    }
+
+    /**
+     * gRPC transport
+     */
+    grpc(serviceName: string, multiMode: boolean = false): this {
+        this.setNetwork('grpc');
+        this.data.streamSettings.grpcSettings = { serviceName, multiMode };
+        return this;
+    }
+
+    /**
+     * HTTPUpgrade transport
+     */
+    httpUpgrade(path: string = '/', host?: string): this {
+        this.setNetwork('httpupgrade');
+        this.data.streamSettings.httpupgradeSettings = { path, ...(host && { host }) };
+        return this;
+    }
+
+    /**
+     * TLS with certificate files on the panel host
+     */
+    tls(options: InboundTlsOptions): this {
+        const stream = this.data.streamSettings;
+        delete stream.realitySettings;
+
+        stream.security = 'tls';
+        stream.tlsSettings = {
+            serverName: options.serverName,
+            certificates: [{ certificateFile: options.certificateFile, keyFile: options.keyFile }],
+            alpn: options.alpn ?? ['h2', 'http/1.1'],
+            settings: { allowInsecure: false, fingerprint: options.fingerprint ?? 'chrome' }
+        };
+        return this;
+    }
+
+    /**
+     * Reality security. Keypair and shortIds are generated unless given.
+     */
+    reality(options: InboundRealityOptions = {}): this {
+        const stream = this.data.streamSettings;
+        delete stream.tlsSettings;
+
+        const dest = options.dest ?? DEFAULT_REALITY_DEST;
+        const serverNames = options.serverNames ?? [dest.replace(/:\d+$/, '')];
+        const keyPair = options.privateKey
+            ? { privateKey: options.privateKey, publicKey: getRealityPublicKey(options.privateKey) }
+            : generateRealityKeyPair();
+
+        stream.security = 'reality';
+        stream.realitySettings = {
+            show: false,
+            dest,
+            serverNames,
+            privateKey: keyPair.privateKey,
+            shortIds: options.shortIds ?? generateShortIds(),
+            settings: {
+                publicKey: keyPair.publicKey,
+                fingerprint: options.fingerprint ?? 'chrome',
+                serverName: '',
+                spiderX: options.spiderX ?? '/'
+            }
+        };
+        return this;
+    }
+
+    /**
+     * Use XTLS Vision flow for clients added through the builder (VLESS over TCP with TLS or Reality)
+     */
+    vision(): this {
+        this.flow = VISION_FLOW;
+        return this;
+    }
+
+    /**
+     * Shadowsocks method and server password (generated for 2022 methods unless given)
+     */
+    shadowsocks(method: string, password?: string): this {
+        this.data.settings.method = method;
+        this.data.settings.password = password ?? (SHADOWSOCKS_2022_KEY_SIZES[method] ? generateShadowsocksPassword(method) : '');
+        this.data.settings.network = 'tcp,udp';
+        return this;
+    }
+
+    /**
+     * Add a client with generated credentials, overridable per field
+     */
+    client(overrides: Partial<Client> = {}): this {
+        if (!protocolSupportsClients(this.data.protocol)) {
+            throw new ValidationError(`Inbound protocol ${this.data.protocol} does not support clients`, 'protocol');
+        }
+
+        const base = {
+            id: generateUUID(),
+            email: generateRandomEmail(),
+            enable: true,
+            limitIp: 0,
+            totalGB: 0,
+            expiryTime: 0,
+            subId: '',
+            reset: 0
+        };
+
+        const protocolFields: Record<string, Record<string, unknown>> = {
+            vmess: { alterId: 0, security: 'auto' },
+            vless: {},
+            trojan: { password: generateUUID() },
+            shadowsocks: {
+                method: this.data.settings.method ?? '',
+                password: generateShadowsocksPassword(this.data.settings.method)
+            }
+        };
+
+        const client = { ...base, ...protocolFields[this.data.protocol], ...overrides } as Client;
+        this.data.settings.clients = [...(this.data.settings.clients ?? []), client];
+        return this;
+    }
+
+    /**
+     * Validate and return the request for InboundManager.add
+     */
+    build(): AddInboundRequest {
+        const data = structuredClone(this.data);
+
+        if (!data.remark?.trim()) {
+            data.remark = `${data.protocol}-${data.port}`;
+        }
+
+        if (!data.tag) {
+            data.tag = data.listen ? `inbound-${data.listen}:${data.port}` : `inbound-${data.port}`;
+        }
+
+        if (data.protocol === 'vless') {
+            data.settings.clients = data.settings.clients?.map(client => 'flow' in client ? client : { ...client, flow: this.flow });
+        }
+
+        validateInbound(data, this.flow);
+        return data;
+    }
+
+    /**
+     * Switch transport, dropping settings of the previous one
+     */
+    private setNetwork(network: string): void {
+        const { security, tlsSettings, realitySettings } = this.data.streamSettings;
+        this.data.streamSettings = {
+            network,
+            security,
+            ...(tlsSettings && { tlsSettings }),
+            ...(realitySettings && { realitySettings })
+        };
+    }
+}
+
+function defaultSettings(protocol: Inbound['protocol']): InboundSettings {
+    switch (protocol) {
+        case 'vless':
+            return { clients: [], decryption: 'none', fallbacks: [] };
+        case 'trojan':
+            return { clients: [], fallbacks: [] };
+        case 'shadowsocks':
+            return {
+                clients: [],
+                method: '2022-blake3-aes-256-gcm',
+                password: generateShadowsocksPassword('2022-blake3-aes-256-gcm'),
+                network: 'tcp,udp'
+            };
+        case 'wireguard':
+            return { mtu: 1420, secretKey: generateWireguardKeyPair().privateKey, peers: [] };
+        default:
+            return { clients: [] };
+    }
+}
+
+/**
+ * Cross-field checks the panel and Xray would otherwise reject at runtime
+ */
+function validateInbound(data: AddInboundRequest, flow: string): void {
+    const stream: InboundStreamSettings = data.streamSettings;
+
+    if (!validatePort(data.port)) {
+        throw new ValidationError('Invalid port number', 'port');
+    }
+
+    if (stream.security === 'reality') {
+        validateReality(data);
+    }
+
+    if (stream.security === 'tls') {
+        const tls = stream.tlsSettings;
+        const certificate = tls?.certificates[0];
+
+        if (!tls?.serverName) {
+            throw new ValidationError('TLS requires serverName', 'streamSettings.tlsSettings.serverName');
+        }
+
+        if (!certificate?.certificateFile || !certificate.keyFile) {
+            throw new ValidationError('TLS requires certificateFile and keyFile', 'streamSettings.tlsSettings.certificates');
+        }
+    }
+
+    if (stream.network === 'ws' && !stream.wsSettings?.path.startsWith('/')) {
+        throw new ValidationError('WebSocket path must start with "/"', 'streamSettings.wsSettings.path');
+    }
+
+    if (stream.network === 'httpupgrade' && !stream.httpupgradeSettings?.path.startsWith('/')) {
+        throw new ValidationError('HTTPUpgrade path must start with "/"', 'streamSettings.httpupgradeSettings.path');
+    }
+
+    if (stream.network === 'grpc' && !stream.grpcSettings?.serviceName) {
+        throw new ValidationError('gRPC requires serviceName', 'streamSettings.grpcSettings.serviceName');
+    }
+
+    if (flow === VISION_FLOW) {
+        if (data.protocol !== 'vless' || stream.network !== 'tcp') {
+            throw new ValidationError('XTLS Vision requires VLESS over TCP', 'flow');
+        }
+
+        if (stream.security !== 'tls' && stream.security !== 'reality') {
+            throw new ValidationError('XTLS Vision requires TLS or Reality', 'flow');
+        }
+    }
+
+    if (data.protocol === 'shadowsocks') {
+        const { method, password } = data.settings;
+
+        if (!method) {
+            throw new ValidationError('Shadowsocks method is required', 'settings.method');
+        }
+
+        if (SHADOWSOCKS_2022_KEY_SIZES[method] && !validateShadowsocksPassword(password ?? '', method)) {
+            throw new ValidationError(
+                `Server password must be a ${SHADOWSOCKS_2022_KEY_SIZES[method]}-byte base64 key for ${method}`,
+                'settings.password'
+            );
+        }
+    }
+
+    const emails = new Set<string>();
+    for (const client of data.settings.clients ?? []) {
+        if (emails.has(client.email)) {
+            throw new ValidationError(`Duplicate client email: ${client.email}`, 'settings.clients');
+        }
+        emails.add(client.email);
+    }
+}
+
+function validateReality(data: AddInboundRequest): void {
+    const stream = data.streamSettings;
+    const reality = stream.realitySettings!;
+
+    if (data.protocol !== 'vless' && data.protocol !== 'trojan') {
+        throw new ValidationError('Reality is supported only for VLESS and Trojan', 'streamSettings.security');
+    }
+
+    if (!REALITY_NETWORKS.includes(stream.network)) {
+        throw new ValidationError(`Reality does not support ${stream.network} transport`, 'streamSettings.network');
+    }
+
+    if (!reality.dest || !/:\d+$/.test(reality.dest)) {
+        throw new ValidationError('Reality dest must be host:port', 'streamSettings.realitySettings.dest');
+    }
+
+    if (!reality.serverNames.length) {
+        throw new ValidationError('Reality requires at least one server name', 'streamSettings.realitySettings.serverNames');
+    }
+
+    if (!reality.shortIds.length || reality.shortIds.some(id => !/^([0-9a-f]{2}){0,8}$/i.test(id))) {
+        throw new ValidationError('Reality shortIds must be hex strings of even length up to 16', 'streamSettings.realitySettings.shortIds');
+    }
+}
@@ -1,24 +1,36 @@
 import { XUIClient } from './client';
 import {
     type Inbound,
+    type TypedInbound,
+    type WireguardPeer,
+    type WireguardPeerOptions,
     type AddInboundRequest,
     type UpdateInboundRequest,
     type InboundListResponse,
     type InboundGetResponse,
+    type MutationResult,
+    type MutationResultMode,
     type ApiResponse,
+    SchemaValidationError,
     ValidationError
 } from './types';
 
 import {
     validateInboundId,
     validatePort,
-    createErrorWithContext
+    createErrorWithContext,
+    generateWireguardKeyPair,
+    generateWireguardPresharedKey,
+    getWireguardPublicKey,
+    protocolSupportsClients,
+    toMutationResult
 } from './utils';
+import { formatSchemaIssues, isInboundProtocol, parseInbound } from './inbound-schema';
 
 /**
  * Inbound manager for CRUD operations on inbound connections
  */
-export class InboundManager {
+export class InboundManager<M extends MutationResultMode = 'entity'> {
     constructor(private client: XUIClient) { }
 
     /**
@@ -34,7 +46,7 @@ export class InboundManager {
                 throw new Error(response.message || 'Failed to get inbound list');
             }
 
-            return response.obj;
+            return response.obj.map(inbound => this.normalizeInbound(inbound, 'getInboundList'));
         } catch (error) {
             throw createErrorWithContext(error, {
                 operation: 'getInboundList'
@@ -59,7 +71,7 @@ export class InboundManager {
                 throw new Error(response.message || 'Inbound not found');
             }
 
-            return response.obj;
+            return this.normalizeInbound(response.obj, 'getInboundById');
         } catch (error) {
             throw createErrorWithContext(error, {
                 operation: 'getInboundById',
@@ -69,13 +81,13 @@ export class InboundManager {
     }
 
     /**
-     * Add new inbound
+     * Add new inbound, returns it as stored by the panel (with id)
      */
-    async add(inboundData: AddInboundRequest): Promise<boolean> {
+    async add(inboundData: AddInboundRequest): Promise<MutationResult<M, Inbound>> {
         this.validateInboundData(inboundData);
 
         try {
-            const response = await this.client.post<ApiResponse>(
+            const response = await this.client.post<InboundGetResponse>(
                 this.getPath('/add'),
                 inboundData
             );
@@ -84,8 +96,20 @@ export class InboundManager {
                 throw new Error(response.message || 'Failed to add inbound');
             }
 
-            console.log(`Successfully added inbound: ${inboundData.remark}`);
-            return true;
+            this.client.getLogger().info(`Added inbound ${inboundData.remark}`, { operation: 'addInbound', remark: inboundData.remark });
+
+            return await toMutationResult<M, Inbound>(this.client.getMutationResultMode(), async () => {
+                if (response.obj) {
+                    return this.normalizeInbound(response.obj, 'addInbound');
+                }
+
+                // Older panels do not return the created inbound
+                const created = await this.findByPort(inboundData.port);
+                if (!created) {
+                    throw new Error('Inbound was added but could not be read back');
+                }
+                return created;
+            });
         } catch (error) {
             throw createErrorWithContext(error, {
                 operation: 'addInbound',
@@ -97,9 +121,9 @@ export class InboundManager {
     }
 
     /**
-     * Update existing inbound
+     * Update existing inbound, returns the updated inbound
      */
-    async update(id: number, inboundData: Partial<UpdateInboundRequest>): Promise<boolean> {
+    async update(id: number, inboundData: Partial<UpdateInboundRequest>): Promise<MutationResult<M, Inbound>> {
         if (!validateInboundId(id)) {
             throw new ValidationError('Invalid inbound ID', 'id');
         }
@@ -111,17 +135,21 @@ export class InboundManager {
         try {
             const updateData = { ...inboundData, id };
 
-            const response = await this.client.post<ApiResponse>(
+            // Queued with client writes, so a whole-settings update cannot erase a client added meanwhile
+            const response = await this.client.withInboundLock(id, () => this.client.post<InboundGetResponse>(
                 this.getPath(`/update/${id}`),
                 updateData
-            );
+            ));
 
             if (!response.success) {
                 throw new Error(response.message || 'Failed to update inbound');
             }
 
-            console.log(`Successfully updated inbound ID ${id}`);
-            return true;
+            this.client.getLogger().info(`Updated inbound ${id}`, { operation: 'updateInbound', inboundId: id });
+
+            return await toMutationResult<M, Inbound>(this.client.getMutationResultMode(), () =>
+                response.obj ? this.normalizeInbound(response.obj, 'updateInbound') : this.getById(id)
+            );
         } catch (error) {
             throw createErrorWithContext(error, {
                 operation: 'updateInbound',
@@ -148,7 +176,7 @@ export class InboundManager {
                 throw new Error(response.message || 'Failed to delete inbound');
             }
 
-            console.log(`Successfully deleted inbound ID ${id}`);
+            this.client.getLogger().info(`Deleted inbound ${id}`, { operation: 'deleteInbound', inboundId: id });
             return true;
         } catch (error) {
             throw createErrorWithContext(error, {
@@ -161,7 +189,7 @@ export class InboundManager {
     /**
      * Enable/disable inbound
      */
-    async toggleEnabled(id: number, enabled: boolean): Promise<boolean> {
+    async toggleEnabled(id: number, enabled: boolean): Promise<MutationResult<M, Inbound>> {
         const inbound = await this.getById(id);
 
         return this.update(id, {
@@ -182,7 +210,7 @@ export class InboundManager {
                 throw new Error(response.message || 'Failed to reset all traffics');
             }
 
-            console.log('Successfully reset all traffics');
+            this.client.getLogger().info('Reset all traffics', { operation: 'resetAllTraffics' });
             return true;
         } catch (error) {
             throw createErrorWithContext(error, {
@@ -208,7 +236,7 @@ export class InboundManager {
                 throw new Error(response.message || 'Failed to reset client traffics');
             }
 
-            console.log(`Successfully reset all client traffics for inbound ${id}`);
+            this.client.getLogger().info(`Reset all client traffics for inbound ${id}`, { operation: 'resetAllClientTraffics', inboundId: id });
             return true;
         } catch (error) {
             throw createErrorWithContext(error, {
@@ -237,7 +265,7 @@ export class InboundManager {
             }
 
             const target = id === -1 ? 'all inbounds' : `inbound ${id}`;
-            console.log(`Successfully deleted depleted clients for ${target}`);
+            this.client.getLogger().info(`Deleted depleted clients for ${target}`, { operation: 'deleteDepletedClients', inboundId: id });
             return true;
         } catch (error) {
             throw createErrorWithContext(error, {
@@ -268,11 +296,14 @@ export class InboundManager {
                 }
             }
 
-            console.warn('Unexpected response format for online users:', response);
+            this.client.getLogger().warn('Unexpected response format for online users', { operation: 'getOnlineUsers', response });
             return [];
 
         } catch (error) {
-            console.warn('Failed to get online users:', error instanceof Error ? error.message : 'Unknown error');
+            this.client.getLogger().warn('Failed to get online users', {
+                operation: 'getOnlineUsers',
+                error: error instanceof Error ? error.message : String(error)
+            });
             return [];
         }
     }
@@ -290,7 +321,7 @@ export class InboundManager {
                 throw new Error(response.message || 'Failed to create backup');
             }
 
-            console.log('Backup creation request sent');
+            this.client.getLogger().info('Backup creation request sent', { operation: 'createBackup' });
             return true;
         } catch (error) {
             throw createErrorWithContext(error, {
@@ -358,6 +389,133 @@ export class InboundManager {
         return summary;
     }
 
+    /**
+     * Get peers of a WireGuard inbound
+     */
+    async getWireguardPeers(id: number): Promise<WireguardPeer[]> {
+        const inbound = await this.getWireguardInbound(id);
+        return inbound.settings.peers ?? [];
+    }
+
+    /**
+     * Add peer to a WireGuard inbound. Keys and the next free address are generated unless given.
+     * The returned peer includes its private key for building the client config.
+     */
+    async addWireguardPeer(id: number, options: WireguardPeerOptions = {}): Promise<WireguardPeer> {
+        const privateKey = options.privateKey ?? generateWireguardKeyPair().privateKey;
+        const peer: WireguardPeer = {
+            privateKey,
+            publicKey: getWireguardPublicKey(privateKey),
+            allowedIPs: options.allowedIPs ?? [],
+            keepAlive: options.keepAlive ?? 0
+        };
+
+        if (options.psk) {
+            peer.psk = options.psk === true ? generateWireguardPresharedKey() : options.psk;
+        }
+
+        // The panel stores peers as part of the whole inbound, so a concurrent update can drop the new peer
+        const stored = await this.client.writeInbound(id, 'addWireguardPeer', async () => {
+            const inbound = await this.getWireguardInbound(id);
+            const settings = inbound.settings;
+            const peers = settings.peers ?? [];
+
+            if (!options.allowedIPs) {
+                peer.allowedIPs = [nextWireguardAddress(peers)];
+            }
+
+            if (peers.some(existing => existing.publicKey === peer.publicKey)) {
+                throw new ValidationError('Peer with this key already exists', 'privateKey');
+            }
+
+            const usedAddresses = new Set(peers.flatMap(existing => existing.allowedIPs));
+            const taken = peer.allowedIPs.find(address => usedAddresses.has(address));
+            if (taken) {
+                throw new ValidationError(`Address ${taken} is already used by another peer`, 'allowedIPs');
+            }
+
+            await this.saveInbound({ ...inbound, settings: { ...settings, peers: [...peers, peer] } });
+        }, async () => {
+            const peers = await this.getWireguardPeers(id);
+            return peers.some(existing => existing.publicKey === peer.publicKey) ? peer : null;
+        });
+
+        this.client.getLogger().info(`Added WireGuard peer ${stored.allowedIPs.join(', ')} to inbound ${id}`, {
+            operation: 'addWireguardPeer',
+            inboundId: id
+        });
+
+        return stored;
+    }
+
+    /**
+     * Remove peer from a WireGuard inbound by public key. Returns false if there is no such peer.
+     */
+    async removeWireguardPeer(id: number, publicKey: string): Promise<boolean> {
+        let removed = false;
+
+        await this.client.writeInbound(id, 'removeWireguardPeer', async () => {
+            const inbound = await this.getWireguardInbound(id);
+            const settings = inbound.settings;
+            const peers = settings.peers ?? [];
+            const remaining = peers.filter(peer => peer.publicKey !== publicKey);
+
+            if (remaining.length === peers.length) {
+                return;
+            }
+
+            removed = true;
+            await this.saveInbound({ ...inbound, settings: { ...settings, peers: remaining } });
+        }, async () => {
+            const peers = await this.getWireguardPeers(id);
+            return peers.some(peer => peer.publicKey === publicKey) ? null : true;
+        });
+
+        if (!removed) {
+            return false;
+        }
+
+        this.client.getLogger().info(`Removed WireGuard peer from inbound ${id}`, { operation: 'removeWireguardPeer', inboundId: id });
+        return true;
+    }
+
+    /**
+     * Write inbound read from the panel back to /update. Only the fields the panel
+     * updates are sent, settings/streamSettings/sniffing as JSON strings like the panel stores them.
+     */
+    private async saveInbound(inbound: Inbound): Promise<void> {
+        const response = await this.client.post<ApiResponse>(
+            this.getPath(`/update/${inbound.id}`),
+            {
+                remark: inbound.remark,
+                enable: inbound.enable,
+                expiryTime: inbound.expiryTime,
+                listen: inbound.listen,
+                port: inbound.port,
+                protocol: inbound.protocol,
+                tag: inbound.tag,
+                total: inbound.total,
+                settings: JSON.stringify(inbound.settings),
+                streamSettings: JSON.stringify(inbound.streamSettings),
+                sniffing: JSON.stringify(inbound.sniffing)
+            }
+        );
+
+        if (!response.success) {
+            throw new Error(response.message || 'Failed to update inbound');
+        }
+    }
+
+    private async getWireguardInbound(id: number): Promise<Inbound & TypedInbound<'wireguard'>> {
+        const inbound = await this.getById(id);
+
+        if (!isInboundProtocol(inbound, 'wireguard')) {
+            throw new ValidationError(`Inbound ${id} is ${inbound.protocol}, not wireguard`, 'id');
+        }
+
+        return inbound;
+    }
+
     /**
      * Validate inbound data before creating/updating
      */
@@ -374,20 +532,68 @@ export class InboundManager {
             throw new ValidationError('Protocol is required', 'protocol');
         }
 
-        const validProtocols = ['vmess', 'vless', 'trojan', 'shadowsocks', 'dokodemo-door', 'socks', 'http'];
+        const validProtocols = [
+            'vmess', 'vless', 'trojan', 'shadowsocks', 'dokodemo-door', 'socks', 'http', 'mixed', 'tunnel', 'wireguard'
+        ];
         if (!validProtocols.includes(data.protocol)) {
             throw new ValidationError(`Invalid protocol. Supported: ${validProtocols.join(', ')}`, 'protocol');
         }
 
-        if (!data.streamSettings?.network) {
+        // Only client protocols run over Xray stream transports
+        if (protocolSupportsClients(data.protocol) && !data.streamSettings?.network) {
             throw new ValidationError('Stream network settings are required', 'streamSettings.network');
         }
     }
 
+    /**
+     * Parse JSON string fields and report schema drift according to the schemaValidation option
+     */
+    private normalizeInbound(raw: unknown, operation: string): Inbound {
+        const mode = this.client.getSchemaValidation();
+        const { inbound, issues } = parseInbound(raw);
+
+        if (issues.length === 0 || mode === 'off') {
+            return inbound;
+        }
+
+        const message = `Inbound ${inbound?.id ?? '?'} does not match the expected schema: ${formatSchemaIssues(issues)}`;
+
+        if (mode === 'strict') {
+            throw new SchemaValidationError(message, issues);
+        }
+
+        this.client.getLogger().warn(message, { operation, inboundId: inbound?.id, issues });
+        return inbound;
+    }
+
     /**
      * Get API path for inbound operations
      */
     private getPath(subPath: string): string {
         return `/panel/api/inbounds${subPath}`;
     }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Next free IPv4 /32 in the subnet of existing peers (10.0.0.2/32 for the first peer)
+ */
+function nextWireguardAddress(peers: WireguardPeer[]): string {
+    const used = new Set<number>();
+    let prefix = '10.0.0';
+
+    for (const address of peers.flatMap(peer => peer.allowedIPs)) {
+        const match = /^(\d+\.\d+\.\d+)\.(\d+)\/32$/.exec(address);
+        if (match) {
+            prefix = match[1]!;
+            used.add(Number(match[2]));
+        }
+    }
+
+    for (let host = 2; host < 255; host++) {
+        if (!used.has(host)) {
+            return `${prefix}.${host}/32`;
+        }
+    }
+
+    throw new ValidationError(`No free addresses left in ${prefix}.0/24, pass allowedIPs explicitly`, 'allowedIPs');
+}
@@ -0,0 +1,108 @@
+import { describe, expect, test } from 'bun:test';
+
+import { createClient, createMockPanel, formatSchemaIssues, parseInbound } from './index';
+
+function panelInbound(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+    return {
+        id: 1,
+        port: 443,
+        protocol: 'vless',
+        remark: 'main',
+        enable: true,
+        tag: 'inbound-443',
+        clientStats: [],
+        settings: JSON.stringify({ clients: [{ id: 'a1b2', email: 'alice' }], decryption: 'none' }),
+        streamSettings: JSON.stringify({ network: 'tcp', security: 'none' }),
+        sniffing: JSON.stringify({ enabled: true, destOverride: ['http', 'tls'] }),
+        ...overrides
+    };
+}
+
+describe('parseInbound', () => {
+    test('parses JSON string fields', () => {
+        const { inbound, issues } = parseInbound(panelInbound());
+
+        expect(issues).toEqual([]);
+        expect(inbound.settings.clients?.[0]?.email).toBe('alice');
+        expect(inbound.streamSettings.network).toBe('tcp');
+        expect(inbound.sniffing.enabled).toBe(true);
+    });
+
+    test('accepts raw and xhttp transports', () => {
+        const raw = parseInbound(panelInbound({
+            streamSettings: { network: 'raw', security: 'none', rawSettings: { header: { type: 'none' } } }
+        }));
+        const xhttp = parseInbound(panelInbound({
+            streamSettings: { network: 'xhttp', security: 'none', xhttpSettings: { path: '/x', host: '', mode: 'auto' } }
+        }));
+
+        expect(raw.issues).toEqual([]);
+        expect(xhttp.issues).toEqual([]);
+    });
+
+    test('reports transport settings of the wrong shape', () => {
+        const { issues } = parseInbound(panelInbound({
+            streamSettings: { network: 'xhttp', security: 'none', xhttpSettings: { path: 1 } }
+        }));
+
+        expect(issues).toEqual([{ path: 'streamSettings.xhttpSettings.path', expected: 'string', received: 'number' }]);
+    });
+
+    test('reports unknown network and invalid JSON', () => {
+        const { issues } = parseInbound(panelInbound({
+            settings: '{broken',
+            streamSettings: { network: 'meek', security: 'none' }
+        }));
+
+        expect(issues.map(issue => issue.path)).toEqual(['settings', 'settings.clients', 'settings.decryption', 'streamSettings.network']);
+        expect(issues[3]?.received).toBe('"meek"');
+    });
+
+    test('non-object response', () => {
+        expect(parseInbound(null).issues).toEqual([{ path: '', expected: 'object', received: 'null' }]);
+    });
+});
+
+describe('formatSchemaIssues', () => {
+    test('groups repeats across clients', () => {
+        const { issues } = parseInbound(panelInbound({
+            settings: { clients: [{ id: 'a', email: 1 }, { id: 'b', email: 2 }], decryption: 'none' }
+        }));
+
+        expect(formatSchemaIssues(issues)).toBe('settings.clients[].email: expected string, received number (2 times)');
+    });
+});
+
+describe('schema validation of panel responses', () => {
+    test('strict mode accepts raw and xhttp inbounds', async () => {
+        const panel = createMockPanel({
+            serializeFields: true,
+            inbounds: [
+                {
+                    protocol: 'vless',
+                    port: 443,
+                    settings: { clients: [], decryption: 'none' },
+                    streamSettings: { network: 'raw', security: 'none', rawSettings: { header: { type: 'none' } } }
+                },
+                {
+                    protocol: 'vless',
+                    port: 8443,
+                    settings: { clients: [], decryption: 'none' },
+                    streamSettings: { network: 'xhttp', security: 'none', xhttpSettings: { path: '/x', mode: 'auto' } }
+                }
+            ]
+        });
+        const xui = createClient({
+            baseUrl: panel.baseUrl,
+            username: 'admin',
+            password: 'admin',
+            transport: panel.transport,
+            retryAttempts: 0,
+            schemaValidation: 'strict'
+        });
+
+        const inbounds = await xui.inbounds.getList();
+
+        expect(inbounds.map(inbound => inbound.streamSettings.network)).toEqual(['raw', 'xhttp']);
+    });
+});
@@ -0,0 +1,306 @@
+import type {
+    Inbound,
+    InboundParseResult,
+    InboundProtocol,
+    SchemaIssue,
+    StreamNetwork,
+    StreamSecurity,
+    TypedInbound
+} from './types';
+
+interface Schema {
+    type: 'string' | 'number' | 'boolean' | 'array' | 'object' | 'any';
+    optional?: boolean;
+    /** Allowed string values */
+    values?: readonly string[];
+    items?: Schema;
+    fields?: Record<string, Schema>;
+}
+
+const str = (values?: readonly string[]): Schema => ({ type: 'string', values });
+const num: Schema = { type: 'number' };
+const bool: Schema = { type: 'boolean' };
+const any: Schema = { type: 'any' };
+const arr = (items?: Schema): Schema => ({ type: 'array', items });
+const obj = (fields?: Record<string, Schema>): Schema => ({ type: 'object', fields });
+const opt = (schema: Schema): Schema => ({ ...schema, optional: true });
+
+const BASE_CLIENT = {
+    email: str(),
+    enable: opt(bool),
+    limitIp: opt(num),
+    totalGB: opt(num),
+    expiryTime: opt(num),
+    subId: opt(str()),
+    reset: opt(num)
+};
+
+const PROXY_ACCOUNTS = opt(arr(obj({ user: str(), pass: str() })));
+const FALLBACKS = opt(arr(obj({ dest: any })));
+
+const TUNNEL_SETTINGS = obj({
+    address: str(),
+    port: num,
+    network: opt(str()),
+    followRedirect: opt(bool),
+    portMap: opt(obj())
+});
+const SOCKS_SETTINGS = obj({
+    auth: str(['noauth', 'password']),
+    accounts: PROXY_ACCOUNTS,
+    udp: opt(bool),
+    ip: opt(str())
+});
+
+const SETTINGS_SCHEMAS: Record<InboundProtocol, Schema> = {
+    vmess: obj({
+        clients: arr(obj({ ...BASE_CLIENT, id: str(), security: opt(str()), alterId: opt(num) }))
+    }),
+    vless: obj({
+        clients: arr(obj({ ...BASE_CLIENT, id: str(), flow: opt(str()) })),
+        decryption: str(),
+        fallbacks: FALLBACKS
+    }),
+    trojan: obj({
+        clients: arr(obj({ ...BASE_CLIENT, password: str() })),
+        fallbacks: FALLBACKS
+    }),
+    shadowsocks: obj({
+        method: str(),
+        password: str(),
+        network: opt(str()),
+        clients: arr(obj({ ...BASE_CLIENT, password: str(), method: opt(str()) }))
+    }),
+    'dokodemo-door': TUNNEL_SETTINGS,
+    tunnel: TUNNEL_SETTINGS,
+    socks: SOCKS_SETTINGS,
+    mixed: SOCKS_SETTINGS,
+    http: obj({
+        accounts: PROXY_ACCOUNTS,
+        allowTransparent: opt(bool)
+    }),
+    wireguard: obj({
+        mtu: num,
+        secretKey: str(),
+        peers: arr(obj({
+            privateKey: opt(str()),
+            publicKey: str(),
+            psk: opt(str()),
+            allowedIPs: arr(str()),
+            keepAlive: opt(num)
+        })),
+        noKernelTun: opt(bool)
+    })
+};
+
+const HTTP_TRANSPORT = obj({ path: str(), host: opt(arr(str())) });
+const XHTTP_TRANSPORT = obj({ path: str(), host: opt(str()), mode: opt(str()) });
+
+/** Network → [settings key, schema] */
+const TRANSPORT_SCHEMAS: Record<StreamNetwork, [string, Schema]> = {
+    tcp: ['tcpSettings', obj({ header: opt(obj({ type: str() })) })],
+    raw: ['rawSettings', obj({ header: opt(obj({ type: str() })) })],
+    kcp: ['kcpSettings', obj({ mtu: opt(num), tti: opt(num), seed: opt(str()) })],
+    ws: ['wsSettings', obj({ path: str(), host: opt(str()), headers: opt(obj()) })],
+    http: ['httpSettings', HTTP_TRANSPORT],
+    h2: ['httpSettings', HTTP_TRANSPORT],
+    quic: ['quicSettings', obj({ security: str(), key: str() })],
+    grpc: ['grpcSettings', obj({ serviceName: str(), multiMode: opt(bool) })],
+    httpupgrade: ['httpupgradeSettings', obj({ path: str(), host: opt(str()) })],
+    xhttp: ['xhttpSettings', XHTTP_TRANSPORT],
+    splithttp: ['splithttpSettings', XHTTP_TRANSPORT]
+};
+
+/** Security → [settings key, schema], security without settings maps to null */
+const SECURITY_SCHEMAS: Record<StreamSecurity, [string, Schema] | null> = {
+    none: null,
+    xtls: null,
+    tls: ['tlsSettings', obj({ serverName: opt(str()), certificates: arr(obj()), alpn: opt(arr(str())) })],
+    reality: ['realitySettings', obj({ serverNames: arr(str()), shortIds: arr(str()), privateKey: str() })]
+};
+
+const INBOUND_SCHEMA = obj({
+    id: num,
+    port: num,
+    protocol: str(Object.keys(SETTINGS_SCHEMAS)),
+    remark: str(),
+    enable: bool,
+    up: opt(num),
+    down: opt(num),
+    total: opt(num),
+    expiryTime: opt(num),
+    listen: opt(str()),
+    tag: opt(str()),
+    clientStats: arr(obj({ email: str(), up: num, down: num })),
+    sniffing: obj({ enabled: bool, destOverride: opt(arr(str())) })
+});
+
+/** Protocols whose stream settings Xray uses */
+const STREAM_PROTOCOLS: readonly string[] = ['vmess', 'vless', 'trojan', 'shadowsocks'];
+
+/**
+ * Normalize inbound from a panel response (JSON string fields parsed, missing lists filled)
+ * and check it against the expected schema. Unknown fields are kept.
+ */
+export function parseInbound(raw: unknown): InboundParseResult {
+    const issues: SchemaIssue[] = [];
+
+    if (!isObject(raw)) {
+        issues.push({ path: '', expected: 'object', received: describe(raw) });
+        return { inbound: raw as Inbound, issues };
+    }
+
+    const inbound = {
+        ...raw,
+        settings: parseJsonField(raw.settings, 'settings', issues),
+        streamSettings: parseJsonField(raw.streamSettings, 'streamSettings', issues),
+        sniffing: parseJsonField(raw.sniffing, 'sniffing', issues),
+        clientStats: raw.clientStats ?? []
+    } as unknown as Inbound;
+
+    check(inbound, INBOUND_SCHEMA, '', issues);
+
+    const settingsSchema = lookup(SETTINGS_SCHEMAS, inbound.protocol);
+    if (settingsSchema) {
+        check(inbound.settings, settingsSchema, 'settings', issues);
+    }
+
+    if (STREAM_PROTOCOLS.includes(inbound.protocol) || Object.keys(inbound.streamSettings).length > 0) {
+        checkStreamSettings(inbound.streamSettings as unknown as Record<string, unknown>, issues);
+    }
+
+    return { inbound, issues };
+}
+
+/**
+ * Narrow inbound to protocol-specific settings
+ */
+export function isInboundProtocol<P extends InboundProtocol>(
+    inbound: Inbound,
+    protocol: P
+): inbound is Inbound & TypedInbound<P> {
+    return inbound.protocol === protocol;
+}
+
+/**
+ * Summarize schema issues, grouping repeats across list items (e.g. every client)
+ */
+export function formatSchemaIssues(issues: SchemaIssue[], limit: number = 10): string {
+    const groups = new Map<string, { issue: SchemaIssue; count: number }>();
+
+    for (const issue of issues) {
+        const path = issue.path.replace(/\[\d+\]/g, '[]');
+        const key = `${path}|${issue.expected}|${issue.received}`;
+        const group = groups.get(key);
+
+        if (group) {
+            group.count++;
+        } else {
+            groups.set(key, { issue: { ...issue, path }, count: 1 });
+        }
+    }
+
+    const lines = [...groups.values()].map(({ issue, count }) =>
+        `${issue.path || '(root)'}: expected ${issue.expected}, received ${issue.received}${count > 1 ? ` (${count} times)` : ''}`
+    );
+
+    const shown = lines.slice(0, limit).join('; ');
+    return lines.length > limit ? `${shown}; and ${lines.length - limit} more` : shown;
+}
+
+function checkStreamSettings(stream: Record<string, unknown>, issues: SchemaIssue[]): void {
+    const network = stream.network as StreamNetwork;
+    const security = (stream.security ?? 'none') as StreamSecurity;
+    const transport = lookup(TRANSPORT_SCHEMAS, network);
+    const securitySchema = lookup(SECURITY_SCHEMAS, security);
+
+    if (!transport) {
+        issues.push({ path: 'streamSettings.network', expected: `one of ${Object.keys(TRANSPORT_SCHEMAS).join(', ')}`, received: describe(network, true) });
+    } else if (stream[transport[0]] !== undefined) {
+        check(stream[transport[0]], transport[1], `streamSettings.${transport[0]}`, issues);
+    }
+
+    if (securitySchema === undefined) {
+        issues.push({ path: 'streamSettings.security', expected: `one of ${Object.keys(SECURITY_SCHEMAS).join(', ')}`, received: describe(security, true) });
+    } else if (securitySchema) {
+        check(stream[securitySchema[0]], securitySchema[1], `streamSettings.${securitySchema[0]}`, issues);
+    }
+}
+
+function check(value: unknown, schema: Schema, path: string, issues: SchemaIssue[]): void {
+    if (schema.type === 'any') {
+        return;
+    }
+
+    if (value === undefined) {
+        if (!schema.optional) {
+            issues.push({ path, expected: schema.type, received: 'undefined' });
+        }
+        return;
+    }
+
+    const actual = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+
+    if (actual !== schema.type) {
+        issues.push({ path, expected: schema.type, received: describe(value) });
+        return;
+    }
+
+    if (schema.values && !schema.values.includes(value as string)) {
+        issues.push({ path, expected: `one of ${schema.values.join(', ')}`, received: describe(value, true) });
+        return;
+    }
+
+    if (schema.items && Array.isArray(value)) {
+        value.forEach((item, index) => check(item, schema.items!, `${path}[${index}]`, issues));
+    }
+
+    if (schema.fields) {
+        for (const [key, fieldSchema] of Object.entries(schema.fields)) {
+            check((value as Record<string, unknown>)[key], fieldSchema, path ? `${path}.${key}` : key, issues);
+        }
+    }
+}
+
+/**
+ * Parse field the panel stores as a JSON string
+ */
+function parseJsonField(value: unknown, path: string, issues: SchemaIssue[]): Record<string, unknown> {
+    if (value === null || value === undefined || value === '') {
+        return {};
+    }
+
+    if (typeof value !== 'string') {
+        return value as Record<string, unknown>;
+    }
+
+    try {
+        return JSON.parse(value);
+    } catch {
+        issues.push({ path, expected: 'JSON object', received: 'invalid JSON string' });
+        return {};
+    }
+}
+
+/**
+ * Type of a value, or the value itself for strings checked against allowed values
+ */
+function describe(value: unknown, withValue: boolean = false): string {
+    if (withValue && typeof value === 'string') {
+        return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}...` : value);
+    }
+
+    if (value === null || value === undefined) {
+        return String(value);
+    }
+
+    return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function lookup<T>(table: Record<string, T>, key: unknown): T | undefined {
+    return typeof key === 'string' && Object.hasOwn(table, key) ? table[key] : undefined;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
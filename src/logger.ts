@@ -0,0 +1,64 @@
+import type { LogFields, Logger, LogLevel } from './types';
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+    debug: 10,
+    info: 20,
+    warn: 30,
+    error: 40
+};
+
+/**
+ * Logger that discards everything (library default)
+ */
+export const silentLogger: Logger = {
+    debug: () => { },
+    info: () => { },
+    warn: () => { },
+    error: () => { }
+};
+
+/**
+ * Console logger options
+ */
+export interface ConsoleLoggerOptions {
+    /** Minimum level to output (default: info) */
+    level?: LogLevel;
+    /** Print one JSON object per line instead of text (default: false) */
+    json?: boolean;
+}
+
+/**
+ * Create logger writing to console
+ */
+export function createConsoleLogger(options: ConsoleLoggerOptions = {}): Logger {
+    const { level = 'info', json = false } = options;
+
+    const write = (entryLevel: LogLevel, message: string, fields?: LogFields) => {
+        if (LEVEL_ORDER[entryLevel] < LEVEL_ORDER[level]) {
+            return;
+        }
+
+        if (json) {
+            console[entryLevel](JSON.stringify({
+                time: new Date().toISOString(),
+                level: entryLevel,
+                message,
+                ...fields
+            }));
+            return;
+        }
+
+        if (fields && Object.keys(fields).length > 0) {
+            console[entryLevel](message, fields);
+        } else {
+            console[entryLevel](message);
+        }
+    };
+
+    return {
+        debug: (message, fields) => write('debug', message, fields),
+        info: (message, fields) => write('info', message, fields),
+        warn: (message, fields) => write('warn', message, fields),
+        error: (message, fields) => write('error', message, fields)
+    };
+}
@@ -0,0 +1,158 @@
+import { describe, expect, test } from 'bun:test';
+
+import { createClient, createMockPanel, generateUUID } from './index';
+import type { Client, MockPanelOptions } from './types';
+
+function vlessClient(email: string, overrides: Partial<Client> = {}): Client {
+    return {
+        id: generateUUID(),
+        email,
+        enable: true,
+        limitIp: 0,
+        totalGB: 0,
+        expiryTime: 0,
+        subId: '',
+        reset: 0,
+        flow: '',
+        ...overrides
+    };
+}
+
+function setup(options: MockPanelOptions = {}, retryAttempts = 0) {
+    const panel = createMockPanel({
+        inbounds: [{
+            protocol: 'vless',
+            port: 443,
+            remark: 'main',
+            settings: { clients: [vlessClient('alice')], decryption: 'none' },
+            streamSettings: { network: 'tcp', security: 'none' }
+        }],
+        ...options
+    });
+    const xui = createClient({
+        baseUrl: panel.baseUrl,
+        username: 'admin',
+        password: 'admin',
+        transport: panel.transport,
+        retryAttempts,
+        retryDelay: 1
+    });
+
+    return { panel, xui };
+}
+
+describe('MockPanel', () => {
+    test('API routes need the session cookie from /login', async () => {
+        const { panel } = setup();
+
+        const anonymous = await panel.handle(new Request(`${panel.baseUrl}/panel/api/inbounds/list`));
+        expect(anonymous.status).toBe(401);
+
+        const login = await panel.handle(new Request(`${panel.baseUrl}/login`, {
+            method: 'POST',
+            body: new URLSearchParams({ username: 'admin', password: 'admin' })
+        }));
+        const cookie = login.headers.get('set-cookie')!.split(';')[0]!;
+
+        const list = await panel.handle(new Request(`${panel.baseUrl}/panel/api/inbounds/list`, { headers: { cookie } }));
+        expect(list.status).toBe(200);
+        expect(((await list.json()) as { obj: unknown[] }).obj).toHaveLength(1);
+        expect(panel.loginCount).toBe(1);
+        expect(panel.requests.map(request => request.status)).toEqual([401, 200, 200]);
+    });
+
+    test('wrong credentials are refused', async () => {
+        const { panel } = setup();
+
+        const response = await panel.handle(new Request(`${panel.baseUrl}/login`, {
+            method: 'POST',
+            body: new URLSearchParams({ username: 'admin', password: 'nope' })
+        }));
+
+        expect(await response.json()).toMatchObject({ success: false, msg: 'Invalid username or password' });
+        expect(panel.loginCount).toBe(0);
+    });
+
+    test('client logs in again after the sessions expire', async () => {
+        const { panel, xui } = setup();
+
+        await xui.inbounds.getList();
+        panel.expireSessions();
+        await xui.inbounds.getList();
+
+        expect(panel.loginCount).toBe(2);
+    });
+
+    test('failNext answers the next API requests with the given status', async () => {
+        const { panel, xui } = setup({}, 1);
+
+        panel.failNext(1, 503);
+        expect(await xui.inbounds.getList()).toHaveLength(1);
+        expect(panel.requests.filter(request => request.status === 503)).toHaveLength(1);
+
+        const { panel: strictPanel, xui: strictXui } = setup();
+        strictPanel.failNext(1);
+        await expect(strictXui.inbounds.getList()).rejects.toThrow();
+    });
+
+    test('clients, traffic and depleted clients', async () => {
+        const { panel, xui } = setup();
+
+        await xui.clients.addClient(1, vlessClient('bob', { totalGB: 100 }));
+        await expect(xui.clients.addClient(1, vlessClient('alice'))).rejects.toThrow('Failed to add client');
+
+        panel.addTraffic('bob', 60, 40);
+        expect(await xui.clients.getClientTraffic('bob')).toMatchObject({ email: 'bob', up: 60, down: 40, total: 100 });
+
+        await xui.inbounds.deleteDepletedClients(1);
+        expect(panel.getInbounds()[0]!.settings.clients!.map(client => client.email)).toEqual(['alice']);
+    });
+
+    test('inbounds can be added, updated and deleted', async () => {
+        const { panel, xui } = setup();
+
+        const added = await xui.inbounds.add({
+            protocol: 'trojan',
+            port: 8443,
+            remark: 'second',
+            enable: true,
+            expiryTime: 0,
+            listen: '',
+            tag: '',
+            settings: { clients: [] },
+            streamSettings: { network: 'tcp', security: 'none' },
+            sniffing: { enabled: false, destOverride: [] }
+        });
+        await xui.inbounds.update(added.id, { remark: 'renamed' });
+
+        expect(panel.getInbounds().map(inbound => inbound.remark)).toEqual(['main', 'renamed']);
+        // Port is taken by the first inbound
+        await expect(xui.inbounds.update(added.id, { port: 443 })).rejects.toThrow('Failed to update inbound');
+
+        await xui.inbounds.delete(added.id);
+        expect(panel.getInbounds()).toHaveLength(1);
+    });
+
+    test('serializeFields returns JSON fields as strings', async () => {
+        const { panel } = setup({ serializeFields: true });
+
+        const login = await panel.handle(new Request(`${panel.baseUrl}/login`, {
+            method: 'POST',
+            body: new URLSearchParams({ username: 'admin', password: 'admin' })
+        }));
+        const cookie = login.headers.get('set-cookie')!.split(';')[0]!;
+        const response = await panel.handle(new Request(`${panel.baseUrl}/panel/api/inbounds/get/1`, { headers: { cookie } }));
+        const { obj } = (await response.json()) as { obj: { settings: unknown } };
+
+        expect(typeof obj.settings).toBe('string');
+        expect(JSON.parse(obj.settings as string).clients[0].email).toBe('alice');
+    });
+
+    test('base URL path prefix is served', async () => {
+        const { panel, xui } = setup({ baseUrl: 'http://mock.local/secret-path/' });
+
+        expect(panel.baseUrl).toBe('http://mock.local/secret-path');
+        expect(await xui.inbounds.getList()).toHaveLength(1);
+        expect(panel.requests.map(request => request.path)).toEqual(['/login', '/panel/api/inbounds/list']);
+    });
+});
@@ -0,0 +1,1028 @@
+import type {
+    Client,
+    ClientTraffic,
+    HttpTransport,
+    Inbound,
+    InboundSettings,
+    InboundStreamSettings,
+    MockPanelFaults,
+    MockPanelOptions,
+    MockPanelRequest,
+    PanelSettings,
+    XrayConfig,
+    ServerStatus,
+    TrojanClient,
+    XrayState
+} from './types';
+
+import { generateUUID, parseInboundField } from './utils';
+
+const SESSION_COOKIE = '3x-ui';
+const API_PREFIX = '/panel/api/inbounds';
+const SERVER_PREFIX = '/server';
+const SETTING_PREFIX = '/panel/setting';
+const XRAY_PREFIX = '/panel/xray';
+const XRAY_VERSIONS = ['v25.1.30', 'v24.12.31', 'v1.8.24'];
+const SQLITE_HEADER = 'SQLite format 3\u0000';
+/** Plain inbound fields /update copies from the payload */
+const UPDATABLE_FIELDS = ['remark', 'enable', 'expiryTime', 'listen', 'total', 'tag'] as const satisfies readonly (keyof Inbound)[];
+
+interface RouteResult {
+    success: boolean;
+    msg?: string;
+    obj?: unknown;
+}
+
+/** Settings of a freshly installed panel */
+const DEFAULT_SETTINGS: PanelSettings = {
+    webListen: '',
+    webDomain: '',
+    webPort: 2053,
+    webCertFile: '',
+    webKeyFile: '',
+    webBasePath: '/',
+    sessionMaxAge: 60,
+    pageSize: 50,
+    expireDiff: 0,
+    trafficDiff: 0,
+    remarkModel: '-ieo',
+    tgBotEnable: false,
+    tgBotToken: '',
+    tgBotProxy: '',
+    tgBotAPIServer: '',
+    tgBotChatId: '',
+    tgRunTime: '@daily',
+    tgBotBackup: false,
+    tgBotLoginNotify: true,
+    tgCpu: 80,
+    tgLang: 'en-US',
+    timeLocation: 'Local',
+    twoFactorEnable: false,
+    twoFactorToken: '',
+    subEnable: false,
+    subJsonEnable: false,
+    subTitle: '',
+    subListen: '',
+    subPort: 2096,
+    subPath: '/sub/',
+    subDomain: '',
+    subCertFile: '',
+    subKeyFile: '',
+    subUpdates: 12,
+    externalTrafficInformEnable: false,
+    externalTrafficInformURI: '',
+    subEncrypt: true,
+    subShowInfo: true,
+    subURI: '',
+    subJsonPath: '/json/',
+    subJsonURI: '',
+    subJsonFragment: '',
+    subJsonNoises: '',
+    subJsonMux: '',
+    subJsonRules: '',
+    datepicker: 'gregorian'
+};
+
+/** Xray template of a freshly installed panel */
+const DEFAULT_XRAY_TEMPLATE: XrayConfig = {
+    log: { access: 'none', dnsLog: false, error: '', loglevel: 'warning' },
+    api: { tag: 'api', services: ['HandlerService', 'LoggerService', 'StatsService'] },
+    inbounds: [
+        { tag: 'api', listen: '127.0.0.1', port: 62789, protocol: 'dokodemo-door', settings: { address: '127.0.0.1' } }
+    ],
+    outbounds: [
+        { tag: 'direct', protocol: 'freedom', settings: { domainStrategy: 'AsIs' } },
+        { tag: 'blocked', protocol: 'blackhole', settings: {} }
+    ],
+    policy: {
+        levels: { '0': { statsUserDownlink: true, statsUserUplink: true } },
+        system: { statsInboundDownlink: true, statsInboundUplink: true }
+    },
+    routing: {
+        domainStrategy: 'AsIs',
+        rules: [
+            { type: 'field', inboundTag: ['api'], outboundTag: 'api' },
+            { type: 'field', ip: ['geoip:private'], outboundTag: 'blocked' },
+            { type: 'field', protocol: ['bittorrent'], outboundTag: 'blocked' }
+        ]
+    },
+    stats: {}
+};
+
+/**
+ * In-process fake 3x-ui panel for tests.
+ * Implements /login, the inbound API, server, settings and Xray template routes with in-memory state and fault injection.
+ */
+export class MockPanel {
+    readonly baseUrl: string;
+    /** Requests served so far, in order */
+    readonly requests: MockPanelRequest[] = [];
+    /** Transport to pass as `transport` in client config */
+    readonly transport: HttpTransport;
+    /** Number of successful logins */
+    loginCount = 0;
+    /** Number of /restartPanel requests */
+    panelRestarts = 0;
+
+    private readonly basePath: string;
+    private username: string;
+    private password: string;
+    private readonly twoFactorCode?: string;
+    private readonly serializeFields: boolean;
+    private faults: MockPanelFaults;
+
+    private readonly inbounds = new Map<number, Inbound>();
+    private readonly traffics = new Map<string, ClientTraffic>();
+    private readonly clientIps = new Map<string, string[]>();
+    private readonly sessions = new Map<string, number>();
+    private readonly pendingFailures: number[] = [];
+    private onlineUsers: string[] = [];
+    private xrayState: XrayState = 'running';
+    private xrayVersion: string;
+    private readonly panelLogs: string[] = [];
+    private readonly xrayLogs: string[] = [];
+    private database: Uint8Array;
+    private settings: PanelSettings;
+    private xrayTemplate: XrayConfig;
+    private nextInboundId = 1;
+    private nextTrafficId = 1;
+
+    constructor(options: MockPanelOptions = {}) {
+        this.baseUrl = (options.baseUrl ?? 'http://mock-panel.local').replace(/\/$/, '');
+        this.basePath = new URL(this.baseUrl).pathname.replace(/\/$/, '');
+        this.username = options.username ?? 'admin';
+        this.password = options.password ?? 'admin';
+        this.twoFactorCode = options.twoFactorCode;
+        this.serializeFields = options.serializeFields ?? false;
+        this.xrayVersion = options.xrayVersion ?? XRAY_VERSIONS[0]!;
+        this.database = options.database ? options.database.slice() : emptyDatabase();
+        this.settings = { ...DEFAULT_SETTINGS, ...options.settings };
+        this.xrayTemplate = structuredClone(options.xrayTemplate ?? DEFAULT_XRAY_TEMPLATE);
+        this.faults = { ...options.faults };
+        this.transport = (url, init) => this.handle(new Request(url, init));
+
+        for (const seed of options.inbounds ?? []) {
+            const result = this.addInbound(seed);
+            if (!result.success) {
+                throw new Error(`Invalid mock inbound on port ${seed.port}: ${result.msg}`);
+            }
+        }
+    }
+
+    /**
+     * Handle request (usable with any fetch-compatible HTTP server)
+     */
+    async handle(request: Request): Promise<Response> {
+        const url = new URL(request.url);
+        const path = url.pathname.startsWith(this.basePath)
+            ? url.pathname.slice(this.basePath.length) || '/'
+            : url.pathname;
+
+        const response = await this.respond(request, path);
+        this.requests.push({ method: request.method, path, status: response.status });
+
+        return response;
+    }
+
+    /**
+     * Replace fault injection settings
+     */
+    setFaults(faults: MockPanelFaults): void {
+        this.faults = { ...faults };
+    }
+
+    /**
+     * Answer the next `count` API requests with the given HTTP status
+     */
+    failNext(count: number = 1, status: number = 500): void {
+        for (let i = 0; i < count; i++) {
+            this.pendingFailures.push(status);
+        }
+    }
+
+    /**
+     * Invalidate all session cookies, next API request gets HTTP 401
+     */
+    expireSessions(): void {
+        this.sessions.clear();
+    }
+
+    /**
+     * Set emails reported by /onlines
+     */
+    setOnlineUsers(emails: string[]): void {
+        this.onlineUsers = [...emails];
+    }
+
+    /**
+     * Set IPs reported by /clientIps for a client
+     */
+    setClientIps(email: string, ips: string[]): void {
+        this.clientIps.set(email, [...ips]);
+    }
+
+    /**
+     * Append lines to the panel log (/server/logs) or the Xray access log (/server/xraylogs)
+     */
+    addLogs(source: 'panel' | 'xray', lines: string[]): void {
+        (source === 'panel' ? this.panelLogs : this.xrayLogs).push(...lines);
+    }
+
+    /**
+     * Copy of the database file served by /server/getDb and replaced by /server/importDB
+     */
+    getDatabase(): Uint8Array {
+        return this.database.slice();
+    }
+
+    /**
+     * Copy of the Xray template served by /panel/xray/ and replaced by /panel/xray/update
+     */
+    getXrayTemplate(): XrayConfig {
+        return structuredClone(this.xrayTemplate);
+    }
+
+    /**
+     * Add traffic to a client and its inbound
+     */
+    addTraffic(email: string, up: number, down: number): void {
+        const traffic = this.traffics.get(email);
+        if (!traffic) {
+            throw new Error(`Unknown client ${email}`);
+        }
+
+        traffic.up += up;
+        traffic.down += down;
+
+        const inbound = this.inbounds.get(traffic.inboundId);
+        if (inbound) {
+            inbound.up += up;
+            inbound.down += down;
+        }
+    }
+
+    /**
+     * Snapshot of stored inbounds (settings as objects)
+     */
+    getInbounds(): Inbound[] {
+        return [...this.inbounds.values()].map(inbound => structuredClone(this.withStats(inbound)));
+    }
+
+    private async respond(request: Request, path: string): Promise<Response> {
+        await this.delay(request.signal);
+
+        if (path === '/login') {
+            return request.method === 'POST'
+                ? this.login(await this.readBody(request))
+                : new Response('Not Found', { status: 404 });
+        }
+
+        const prefix = [API_PREFIX, SERVER_PREFIX, SETTING_PREFIX, XRAY_PREFIX].find(candidate => path.startsWith(`${candidate}/`));
+
+        if (!prefix) {
+            return new Response('Not Found', { status: 404 });
+        }
+
+        if (!this.isAuthorized(request.headers.get('cookie'))) {
+            return new Response('Unauthorized', { status: 401 });
+        }
+
+        const injectedStatus = this.pendingFailures.shift()
+            ?? (Math.random() < (this.faults.errorRate ?? 0) ? 500 : undefined);
+
+        if (injectedStatus !== undefined) {
+            return json({ success: false, msg: 'Injected failure' }, injectedStatus);
+        }
+
+        if (request.method === 'GET' && path === `${SERVER_PREFIX}/getDb`) {
+            return new Response(this.database.slice(), {
+                headers: {
+                    'Content-Type': 'application/octet-stream',
+                    'Content-Length': String(this.database.byteLength),
+                    'Content-Disposition': 'attachment; filename=x-ui.db'
+                }
+            });
+        }
+
+        const result = this.dispatch(prefix, request.method, path.slice(prefix.length), await this.readBody(request));
+
+        return result
+            ? json({ msg: '', obj: null, ...result })
+            : new Response('Not Found', { status: 404 });
+    }
+
+    private login(body: Record<string, any>): Response {
+        if (body.username !== this.username || body.password !== this.password) {
+            return json({ success: false, msg: 'Invalid username or password', obj: null });
+        }
+
+        if (this.twoFactorCode && body.twoFactorCode !== this.twoFactorCode) {
+            return json({ success: false, msg: 'Invalid two-factor code', obj: null });
+        }
+
+        const token = generateUUID();
+        this.sessions.set(token, Date.now());
+        this.loginCount++;
+
+        return json({ success: true, msg: 'Login Successfully', obj: null }, 200, {
+            'Set-Cookie': `${SESSION_COOKIE}=${token}; Path=/; HttpOnly`
+        });
+    }
+
+    private isAuthorized(cookieHeader: string | null): boolean {
+        const token = cookieHeader
+            ?.split(';')
+            .map(part => part.trim())
+            .find(part => part.startsWith(`${SESSION_COOKIE}=`))
+            ?.slice(SESSION_COOKIE.length + 1);
+
+        const createdAt = token ? this.sessions.get(token) : undefined;
+        if (createdAt === undefined) {
+            return false;
+        }
+
+        if (this.faults.sessionTtl !== undefined && Date.now() - createdAt > this.faults.sessionTtl) {
+            this.sessions.delete(token!);
+            return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Dispatch server route (status, Xray service, logs, database import), returns null for unknown routes
+     */
+    private routeServer(method: string, route: string, body: Record<string, any>): RouteResult | null {
+        if (method !== 'POST') {
+            return null;
+        }
+
+        const [first, second] = route.split('/').filter(Boolean);
+
+        switch (first) {
+            case 'status':
+                return { success: true, obj: this.buildStatus() };
+            case 'getXrayVersion':
+                return { success: true, obj: [...XRAY_VERSIONS] };
+            case 'installXray':
+                if (!second || !XRAY_VERSIONS.includes(second)) {
+                    return { success: false, msg: `Xray version ${second} not found` };
+                }
+                this.xrayVersion = second;
+                this.xrayState = 'running';
+                this.panelLogs.push(`INFO - Xray ${second} installed`);
+                return { success: true };
+            case 'restartXrayService':
+                this.xrayState = 'running';
+                this.panelLogs.push('INFO - Xray restarted');
+                return { success: true };
+            case 'stopXrayService':
+                this.xrayState = 'stop';
+                this.panelLogs.push('INFO - Xray stopped');
+                return { success: true };
+            case 'logs':
+                // Log level and syslog source are not simulated
+                return { success: true, obj: this.panelLogs.slice(-Number(second)) };
+            case 'xraylogs': {
+                const filter = String(body.filter ?? '');
+                const lines = filter ? this.xrayLogs.filter(line => line.includes(filter)) : this.xrayLogs;
+                return { success: true, obj: lines.slice(-Number(second)) };
+            }
+            case 'importDB': {
+                const data = body.db;
+                if (!(data instanceof Uint8Array) || new TextDecoder().decode(data.subarray(0, SQLITE_HEADER.length)) !== SQLITE_HEADER) {
+                    return { success: false, msg: 'Invalid db file format' };
+                }
+                this.database = data;
+                this.xrayState = 'running';
+                return { success: true, msg: 'Import DB successfully' };
+            }
+            default:
+                return null;
+        }
+    }
+
+    private dispatch(prefix: string, method: string, route: string, body: Record<string, any>): RouteResult | null {
+        switch (prefix) {
+            case API_PREFIX:
+                return this.route(method, route, body);
+            case SERVER_PREFIX:
+                return this.routeServer(method, route, body);
+            case SETTING_PREFIX:
+                return this.routeSettings(method, route, body);
+            default:
+                return this.routeXray(method, route, body);
+        }
+    }
+
+    /**
+     * Dispatch Xray template route, returns null for unknown routes
+     */
+    private routeXray(method: string, route: string, body: Record<string, any>): RouteResult | null {
+        if (method === 'GET' && route === '/getDefaultJsonConfig') {
+            return { success: true, obj: structuredClone(DEFAULT_XRAY_TEMPLATE) };
+        }
+
+        if (method !== 'POST') {
+            return null;
+        }
+
+        switch (route) {
+            case '/': {
+                const inboundTags = [...this.inbounds.values()].map(inbound => inbound.tag);
+                // The panel sends the payload as a JSON string
+                return { success: true, obj: JSON.stringify({ xraySetting: this.xrayTemplate, inboundTags }) };
+            }
+            case '/update': {
+                let template: unknown;
+                try {
+                    template = JSON.parse(body.xraySetting ?? '');
+                } catch {
+                    return { success: false, msg: 'xraySetting is not valid JSON' };
+                }
+                if (!template || typeof template !== 'object' || !Array.isArray((template as XrayConfig).outbounds)) {
+                    return { success: false, msg: 'xraySetting must contain outbounds' };
+                }
+                this.xrayTemplate = template as XrayConfig;
+                return { success: true, msg: 'Xray template updated' };
+            }
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Dispatch settings route, returns null for unknown routes
+     */
+    private routeSettings(method: string, route: string, body: Record<string, any>): RouteResult | null {
+        if (method !== 'POST') {
+            return null;
+        }
+
+        switch (route) {
+            case '/all':
+                return { success: true, obj: { ...this.settings } };
+            case '/defaultSettings':
+                return {
+                    success: true,
+                    obj: {
+                        expireDiff: this.settings.expireDiff,
+                        trafficDiff: this.settings.trafficDiff,
+                        pageSize: this.settings.pageSize,
+                        remarkModel: this.settings.remarkModel,
+                        datepicker: this.settings.datepicker,
+                        tgBotEnable: this.settings.tgBotEnable,
+                        subEnable: this.settings.subEnable,
+                        subURI: this.settings.subURI,
+                        subJsonURI: this.settings.subJsonURI
+                    }
+                };
+            case '/update': {
+                const unknown = Object.keys(body).find(key => !(key in DEFAULT_SETTINGS));
+                if (unknown) {
+                    return { success: false, msg: `Unknown setting: ${unknown}` };
+                }
+                this.settings = { ...this.settings, ...body };
+                return { success: true, msg: 'Settings modified successfully' };
+            }
+            case '/updateUser':
+                if (body.oldUsername !== this.username || body.oldPassword !== this.password) {
+                    return { success: false, msg: 'Original username or password is wrong' };
+                }
+                if (!body.newUsername || !body.newPassword) {
+                    return { success: false, msg: 'New username and password cannot be empty' };
+                }
+                this.username = body.newUsername;
+                this.password = body.newPassword;
+                return { success: true, msg: 'User modified successfully' };
+            case '/restartPanel':
+                this.panelRestarts++;
+                return { success: true, msg: 'Panel restart scheduled' };
+            default:
+                return null;
+        }
+    }
+
+    private buildStatus(): ServerStatus {
+        const gb = 1024 ** 3;
+
+        return {
+            cpu: 3.5,
+            cpuCores: 2,
+            logicalPro: 2,
+            cpuSpeedMhz: 2400,
+            mem: { current: 0.5 * gb, total: 2 * gb },
+            swap: { current: 0, total: 0 },
+            disk: { current: 5 * gb, total: 20 * gb },
+            xray: { state: this.xrayState, errorMsg: '', version: this.xrayVersion.replace(/^v/, '') },
+            uptime: 3600,
+            loads: [0.1, 0.05, 0.01],
+            tcpCount: 10,
+            udpCount: 2,
+            netIO: { up: 0, down: 0 },
+            netTraffic: { sent: 0, recv: 0 },
+            publicIP: { ipv4: '203.0.113.1', ipv6: 'N/A' },
+            appStats: { threads: 8, mem: 30 * 1024 * 1024, uptime: 3600 }
+        };
+    }
+
+    /**
+     * Dispatch inbound API route, returns null for unknown routes
+     */
+    private route(method: string, route: string, body: Record<string, any>): RouteResult | null {
+        let segments: string[];
+        try {
+            segments = route.split('/').filter(Boolean).map(segment => decodeURIComponent(segment));
+        } catch {
+            return null;
+        }
+
+        const [first, second, third] = segments;
+
+        if (method === 'GET') {
+            if (route === '/list') {
+                return { success: true, obj: [...this.inbounds.values()].map(inbound => this.serialize(inbound)) };
+            }
+
+            if (first === 'get' && segments.length === 2) {
+                const inbound = this.inbounds.get(Number(second));
+                return inbound
+                    ? { success: true, obj: this.serialize(inbound) }
+                    : { success: false, msg: 'Inbound not found' };
+            }
+
+            if (first === 'getClientTraffics' && segments.length === 2) {
+                return { success: true, obj: this.traffics.get(second!) ?? null };
+            }
+
+            if (first === 'getClientTrafficsById' && segments.length === 2) {
+                const traffic = [...this.traffics.values()].find(entry => entry.id === Number(second));
+                return { success: true, obj: traffic ?? null };
+            }
+
+            if (route === '/createbackup') {
+                return { success: true };
+            }
+
+            return null;
+        }
+
+        if (method !== 'POST') {
+            return null;
+        }
+
+        switch (segments.length === 1 ? first : `${first}/`) {
+            case 'add':
+                return this.addInbound(body);
+            case 'addClient':
+                return this.addClients(Number(body.id), body.settings);
+            case 'onlines':
+                return { success: true, obj: [...this.onlineUsers] };
+            case 'resetAllTraffics':
+                for (const inbound of this.inbounds.values()) {
+                    inbound.up = 0;
+                    inbound.down = 0;
+                }
+                return { success: true };
+            case 'update/':
+                return this.updateInbound(Number(second), body);
+            case 'del/':
+                return this.deleteInbound(Number(second));
+            case 'updateClient/':
+                return this.updateClient(second!, body);
+            case 'clientIps/':
+                return { success: true, obj: { ips: [...(this.clientIps.get(second!) ?? [])] } };
+            case 'clearClientIps/':
+                this.clientIps.delete(second!);
+                return { success: true };
+            case 'resetAllClientTraffics/':
+                return this.resetTraffics(Number(second));
+            case 'delDepletedClients/':
+                return this.deleteDepletedClients(Number(second));
+        }
+
+        if (segments.length === 3 && second === 'delClient') {
+            return this.deleteClient(Number(first), third!);
+        }
+
+        if (segments.length === 3 && second === 'resetClientTraffic') {
+            return this.resetTraffics(Number(first), third);
+        }
+
+        return null;
+    }
+
+    private addInbound(data: Record<string, any>): RouteResult {
+        const port = Number(data.port);
+
+        if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+            return { success: false, msg: 'Invalid port' };
+        }
+
+        if ([...this.inbounds.values()].some(inbound => inbound.port === port)) {
+            return { success: false, msg: `Port ${port} already exists` };
+        }
+
+        const settings = parseInboundField<InboundSettings>(data.settings, { clients: [] });
+        const duplicate = this.findDuplicateEmail(settings.clients ?? [], null);
+        if (duplicate) {
+            return { success: false, msg: `Duplicate email: ${duplicate}` };
+        }
+
+        const inbound: Inbound = {
+            id: this.nextInboundId++,
+            userId: 1,
+            up: 0,
+            down: 0,
+            total: Number(data.total ?? 0),
+            remark: data.remark ?? '',
+            enable: data.enable ?? true,
+            expiryTime: Number(data.expiryTime ?? 0),
+            clientStats: [],
+            listen: data.listen ?? '',
+            port,
+            protocol: data.protocol,
+            settings,
+            streamSettings: parseInboundField<InboundStreamSettings>(data.streamSettings, { network: 'tcp', security: 'none' }),
+            tag: data.tag || `inbound-${port}`,
+            sniffing: parseInboundField(data.sniffing, { enabled: false, destOverride: [] })
+        };
+
+        this.inbounds.set(inbound.id, inbound);
+        this.syncTraffics(inbound);
+
+        return { success: true, msg: 'Create Successfully', obj: this.serialize(inbound) };
+    }
+
+    private updateInbound(id: number, data: Record<string, any>): RouteResult {
+        const inbound = this.inbounds.get(id);
+        if (!inbound) {
+            return { success: false, msg: 'Inbound not found' };
+        }
+
+        if (data.port !== undefined && [...this.inbounds.values()].some(other => other.id !== id && other.port === Number(data.port))) {
+            return { success: false, msg: `Port ${data.port} already exists` };
+        }
+
+        const settings = data.settings !== undefined
+            ? parseInboundField<InboundSettings>(data.settings, { clients: [] })
+            : inbound.settings;
+
+        const duplicate = this.findDuplicateEmail(settings.clients ?? [], id);
+        if (duplicate) {
+            return { success: false, msg: `Duplicate email: ${duplicate}` };
+        }
+
+        const fields: Partial<Pick<Inbound, typeof UPDATABLE_FIELDS[number]>> = {};
+        for (const key of UPDATABLE_FIELDS) {
+            if (data[key] !== undefined) {
+                fields[key] = data[key];
+            }
+        }
+        Object.assign(inbound, fields);
+
+        if (data.port !== undefined) {
+            inbound.port = Number(data.port);
+        }
+
+        inbound.settings = settings;
+
+        if (data.streamSettings !== undefined) {
+            inbound.streamSettings = parseInboundField(data.streamSettings, inbound.streamSettings);
+        }
+
+        if (data.sniffing !== undefined) {
+            inbound.sniffing = parseInboundField(data.sniffing, inbound.sniffing);
+        }
+
+        this.syncTraffics(inbound);
+
+        return { success: true, msg: 'Update Successfully', obj: this.serialize(inbound) };
+    }
+
+    private deleteInbound(id: number): RouteResult {
+        const inbound = this.inbounds.get(id);
+        if (!inbound) {
+            return { success: false, msg: 'Inbound not found' };
+        }
+
+        this.inbounds.delete(id);
+        this.syncTraffics({ ...inbound, settings: { clients: [] } });
+
+        return { success: true, msg: 'Delete Successfully', obj: id };
+    }
+
+    /**
+     * Append clients from settings payload. Like 3x-ui, any email that already exists is rejected.
+     */
+    private addClients(id: number, rawSettings: unknown): RouteResult {
+        const inbound = this.inbounds.get(id);
+        if (!inbound) {
+            return { success: false, msg: 'Inbound not found' };
+        }
+
+        const incoming = parseInboundField<InboundSettings>(rawSettings as string, {}).clients ?? [];
+        if (incoming.length === 0) {
+            return { success: false, msg: 'No clients in settings' };
+        }
+
+        const clients = [...(inbound.settings.clients ?? [])];
+
+        for (const client of incoming) {
+            if (clients.some(stored => stored.email === client.email) || this.findDuplicateEmail([client], id)) {
+                return { success: false, msg: `Duplicate email: ${client.email}` };
+            }
+
+            clients.push(client);
+        }
+
+        inbound.settings = { ...inbound.settings, clients };
+        this.syncTraffics(inbound);
+
+        return { success: true, msg: 'Client(s) added Successfully' };
+    }
+
+    /**
+     * Replace client matched by clientId with the payload client at the same position
+     * (or the only payload client)
+     */
+    private updateClient(clientId: string, body: Record<string, any>): RouteResult {
+        const inbound = this.inbounds.get(Number(body.id));
+        if (!inbound) {
+            return { success: false, msg: 'Inbound not found' };
+        }
+
+        const clients = [...(inbound.settings.clients ?? [])];
+        const index = clients.findIndex(client => clientKey(client, inbound.protocol) === clientId);
+        if (index === -1) {
+            return { success: false, msg: 'Client not found' };
+        }
+
+        const incoming = parseInboundField<InboundSettings>(body.settings, {}).clients ?? [];
+        const updated = incoming.length === 1 ? incoming[0] : incoming[index];
+        if (!updated) {
+            return { success: false, msg: 'No clients in settings' };
+        }
+
+        const emailTaken = clients.some((client, position) => position !== index && client.email === updated.email)
+            || this.findDuplicateEmail([updated], inbound.id);
+        if (emailTaken) {
+            return { success: false, msg: `Duplicate email: ${updated.email}` };
+        }
+
+        const previousEmail = clients[index]!.email;
+        clients[index] = updated;
+        inbound.settings = { ...inbound.settings, clients };
+
+        const traffic = this.traffics.get(previousEmail);
+        if (traffic && previousEmail !== updated.email) {
+            this.traffics.delete(previousEmail);
+            this.traffics.set(updated.email, { ...traffic, email: updated.email });
+        }
+
+        this.syncTraffics(inbound);
+
+        return { success: true, msg: 'Client updated Successfully' };
+    }
+
+    private deleteClient(id: number, clientId: string): RouteResult {
+        const inbound = this.inbounds.get(id);
+        if (!inbound) {
+            return { success: false, msg: 'Inbound not found' };
+        }
+
+        const clients = inbound.settings.clients ?? [];
+        const remaining = clients.filter(client => clientKey(client, inbound.protocol) !== clientId);
+        if (remaining.length === clients.length) {
+            return { success: false, msg: 'Client not found' };
+        }
+
+        inbound.settings = { ...inbound.settings, clients: remaining };
+        this.syncTraffics(inbound);
+
+        return { success: true, msg: 'Client deleted Successfully' };
+    }
+
+    /**
+     * Reset client traffic of one inbound (or all with -1), optionally of one email only
+     */
+    private resetTraffics(id: number, email?: string): RouteResult {
+        if (id !== -1 && !this.inbounds.has(id)) {
+            return { success: false, msg: 'Inbound not found' };
+        }
+
+        for (const traffic of this.traffics.values()) {
+            if ((id === -1 || traffic.inboundId === id) && (email === undefined || traffic.email === email)) {
+                traffic.up = 0;
+                traffic.down = 0;
+            }
+        }
+
+        return { success: true };
+    }
+
+    private deleteDepletedClients(id: number): RouteResult {
+        const now = Date.now();
+
+        for (const inbound of this.inbounds.values()) {
+            if (id !== -1 && inbound.id !== id) {
+                continue;
+            }
+
+            const clients = (inbound.settings.clients ?? []).filter(client => {
+                const traffic = this.traffics.get(client.email);
+                const exhausted = traffic !== undefined && traffic.total > 0 && traffic.up + traffic.down >= traffic.total;
+                const expired = client.expiryTime > 0 && client.expiryTime <= now;
+                return !exhausted && !expired;
+            });
+
+            inbound.settings = { ...inbound.settings, clients };
+            this.syncTraffics(inbound);
+        }
+
+        return { success: true };
+    }
+
+    /**
+     * Find email of a client already used by another inbound
+     * @param inboundId Inbound the clients belong to (excluded from the check)
+     */
+    private findDuplicateEmail(clients: Client[], inboundId: number | null): string | null {
+        const seen = new Set<string>();
+
+        for (const client of clients) {
+            if (seen.has(client.email)) {
+                return client.email;
+            }
+            seen.add(client.email);
+
+            const traffic = this.traffics.get(client.email);
+            if (traffic && traffic.inboundId !== inboundId) {
+                return client.email;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Keep client traffic records in line with inbound clients
+     */
+    private syncTraffics(inbound: Inbound): void {
+        const clients = inbound.settings.clients ?? [];
+        const emails = new Set(clients.map(client => client.email));
+
+        for (const [email, traffic] of this.traffics) {
+            if (traffic.inboundId === inbound.id && !emails.has(email)) {
+                this.traffics.delete(email);
+                this.clientIps.delete(email);
+            }
+        }
+
+        for (const client of clients) {
+            const traffic = this.traffics.get(client.email) ?? {
+                id: this.nextTrafficId++,
+                inboundId: inbound.id,
+                email: client.email,
+                up: 0,
+                down: 0,
+                enable: true,
+                expiryTime: 0,
+                total: 0,
+                reset: 0
+            };
+
+            traffic.enable = client.enable;
+            traffic.expiryTime = client.expiryTime ?? 0;
+            traffic.total = client.totalGB ?? 0;
+            traffic.reset = client.reset ?? 0;
+
+            this.traffics.set(client.email, traffic);
+        }
+    }
+
+    private withStats(inbound: Inbound): Inbound {
+        return {
+            ...inbound,
+            clientStats: [...this.traffics.values()].filter(traffic => traffic.inboundId === inbound.id)
+        };
+    }
+
+    /**
+     * Copy inbound for a response, JSON fields as strings when serializeFields is set
+     */
+    private serialize(inbound: Inbound): Inbound {
+        const copy = structuredClone(this.withStats(inbound));
+
+        if (!this.serializeFields) {
+            return copy;
+        }
+
+        return {
+            ...copy,
+            settings: JSON.stringify(copy.settings, null, 2) as unknown as InboundSettings,
+            streamSettings: JSON.stringify(copy.streamSettings, null, 2) as unknown as InboundStreamSettings,
+            sniffing: JSON.stringify(copy.sniffing, null, 2) as unknown as Inbound['sniffing']
+        };
+    }
+
+    private async readBody(request: Request): Promise<Record<string, any>> {
+        const contentType = request.headers.get('content-type') ?? '';
+
+        // Uploaded files are read into bytes
+        if (contentType.includes('multipart/form-data')) {
+            const fields: Record<string, any> = {};
+            for (const [key, value] of await request.formData()) {
+                fields[key] = typeof value === 'string' ? value : new Uint8Array(await value.arrayBuffer());
+            }
+            return fields;
+        }
+
+        const text = await request.text();
+        if (!text) {
+            return {};
+        }
+
+        if (contentType.includes('application/json')) {
+            try {
+                return JSON.parse(text);
+            } catch {
+                return {};
+            }
+        }
+
+        return Object.fromEntries(new URLSearchParams(text));
+    }
+
+    /**
+     * Wait configured latency, rejecting like fetch when the request is aborted
+     */
+    private delay(signal: AbortSignal): Promise<void> {
+        const { latency = 0 } = this.faults;
+        const ms = Array.isArray(latency)
+            ? latency[0] + Math.random() * (latency[1] - latency[0])
+            : latency;
+
+        if (ms <= 0) {
+            return Promise.resolve();
+        }
+
+        return new Promise((resolve, reject) => {
+            const onAbort = () => {
+                clearTimeout(timer);
+                reject(new DOMException('The operation was aborted.', 'AbortError'));
+            };
+
+            const timer = setTimeout(() => {
+                signal.removeEventListener('abort', onAbort);
+                resolve();
+            }, ms);
+
+            if (signal.aborted) {
+                onAbort();
+            } else {
+                signal.addEventListener('abort', onAbort, { once: true });
+            }
+        });
+    }
+}
+
+/**
+ * Create in-process fake panel. Pass `panel.transport` and `panel.baseUrl` to the client config.
+ */
+export function createMockPanel(options: MockPanelOptions = {}): MockPanel {
+    return new MockPanel(options);
+}
+
+/**
+ * Client identifier used in panel routes: id for vmess/vless, password for trojan, email for shadowsocks
+ */
+function clientKey(client: Client, protocol: string): string {
+    switch (protocol) {
+        case 'trojan':
+            return (client as TrojanClient).password;
+        case 'shadowsocks':
+            return client.email;
+        default:
+            return client.id;
+    }
+}
+
+/**
+ * Smallest valid SQLite file: the database header on one 4096-byte page
+ */
+function emptyDatabase(): Uint8Array {
+    const data = new Uint8Array(4096);
+    data.set(new TextEncoder().encode(SQLITE_HEADER));
+    // Page size, big-endian
+    data[16] = 0x10;
+    data[17] = 0x00;
+    return data;
+}
+
+function json(body: unknown, status: number = 200, headers: Record<string, string> = {}): Response {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json; charset=utf-8', ...headers }
+    });
+}
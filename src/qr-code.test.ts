@@ -0,0 +1,148 @@
+import { describe, expect, test } from 'bun:test';
+import { inflateSync } from 'node:zlib';
+
+import { ValidationError, createClient, createMockPanel, encodeQrCode, generateUUID, renderQrCode, renderQrPng, renderQrTerminal } from './index';
+import type { QrCode } from './types';
+
+const LINK = 'vless://4f9b3b6e-3c0a-4e47-9a55-6f0b6c4d2a11@vpn.example.com:443?type=tcp&security=none#main-alice';
+
+/** Format information (level and mask) read from the copy around the top-left finder pattern */
+function readFormatBits(qr: QrCode): number {
+    const module = (x: number, y: number): number => (qr.modules[y]![x] ? 1 : 0);
+    let bits = 0;
+
+    for (let i = 0; i <= 5; i++) bits |= module(8, i) << i;
+    bits |= module(8, 7) << 6;
+    bits |= module(8, 8) << 7;
+    bits |= module(7, 8) << 8;
+    for (let i = 9; i < 15; i++) bits |= module(14 - i, 8) << i;
+
+    return bits ^ 0x5412;
+}
+
+/** Same format information from the copy split between the other two finder patterns */
+function readSecondFormatBits(qr: QrCode): number {
+    const module = (x: number, y: number): number => (qr.modules[y]![x] ? 1 : 0);
+    let bits = 0;
+
+    for (let i = 0; i < 8; i++) bits |= module(qr.size - 1 - i, 8) << i;
+    for (let i = 8; i < 15; i++) bits |= module(8, qr.size - 15 + i) << i;
+
+    return bits ^ 0x5412;
+}
+
+function isValidFormat(bits: number): boolean {
+    let remainder = bits;
+    for (let i = 14; i >= 10; i--) {
+        if (remainder & (1 << i)) {
+            remainder ^= 0x537 << (i - 10);
+        }
+    }
+    return remainder === 0;
+}
+
+describe('encodeQrCode', () => {
+    test('picks the smallest version that fits', () => {
+        expect(encodeQrCode('hello')).toMatchObject({ version: 1, size: 21 });
+        expect(encodeQrCode(LINK, 'L').version).toBe(5);
+        expect(encodeQrCode(LINK, 'H').version).toBeGreaterThan(encodeQrCode(LINK, 'L').version);
+    });
+
+    test('finder and timing patterns are in place', () => {
+        const qr = encodeQrCode(LINK);
+        const finder = [
+            [1, 1, 1, 1, 1, 1, 1],
+            [1, 0, 0, 0, 0, 0, 1],
+            [1, 0, 1, 1, 1, 0, 1],
+            [1, 0, 1, 1, 1, 0, 1],
+            [1, 0, 1, 1, 1, 0, 1],
+            [1, 0, 0, 0, 0, 0, 1],
+            [1, 1, 1, 1, 1, 1, 1]
+        ].map(row => row.map(Boolean));
+
+        for (const [left, top] of [[0, 0], [qr.size - 7, 0], [0, qr.size - 7]] as const) {
+            expect(qr.modules.slice(top, top + 7).map(row => row.slice(left, left + 7))).toEqual(finder);
+        }
+
+        for (let i = 8; i < qr.size - 8; i++) {
+            expect(qr.modules[6]![i]).toBe(i % 2 === 0);
+            expect(qr.modules[i]![6]).toBe(i % 2 === 0);
+        }
+    });
+
+    test('format information encodes the level and matches in both copies', () => {
+        const levels = { L: 1, M: 0, Q: 3, H: 2 } as const;
+
+        for (const [level, bits] of Object.entries(levels) as Array<[keyof typeof levels, number]>) {
+            const qr = encodeQrCode(LINK, level);
+            const format = readFormatBits(qr);
+
+            expect(isValidFormat(format)).toBe(true);
+            expect(format >>> 13).toBe(bits);
+            expect(readSecondFormatBits(qr)).toBe(format);
+        }
+    });
+
+    test('text too long for version 40 and unknown levels are rejected', () => {
+        expect(() => encodeQrCode('x'.repeat(3000))).toThrow(ValidationError);
+        expect(() => encodeQrCode('x', 'X' as 'L')).toThrow('Error correction level must be L, M, Q or H');
+    });
+});
+
+describe('QR rendering', () => {
+    test('PNG pixels follow the modules', () => {
+        const qr = encodeQrCode('hello');
+        const png = renderQrPng(qr, { margin: 1, scale: 1 });
+        const view = new DataView(png.buffer, png.byteOffset);
+
+        expect(Buffer.from(png.slice(1, 4)).toString()).toBe('PNG');
+        expect(view.getUint32(16)).toBe(23);
+
+        // IHDR (25 bytes) and PLTE (12 + 6 bytes) come before IDAT
+        const idatOffset = 8 + 25 + 18;
+        const idatLength = view.getUint32(idatOffset);
+        const pixels = inflateSync(png.slice(idatOffset + 8, idatOffset + 8 + idatLength));
+        const rowLength = Math.ceil(23 / 8) + 1;
+        const pixel = (x: number, y: number): boolean => ((pixels[y * rowLength + 1 + (x >>> 3)]! >> (7 - (x & 7))) & 1) === 1;
+
+        for (let y = 0; y < qr.size; y++) {
+            for (let x = 0; x < qr.size; x++) {
+                expect(pixel(x + 1, y + 1)).toBe(qr.modules[y]![x]!);
+            }
+        }
+        expect(pixel(0, 0)).toBe(false);
+    });
+
+    test('SVG, data URL and terminal output', () => {
+        expect(renderQrCode(LINK, 'svg', { dark: '#123' })).toStartWith('<svg');
+        expect(renderQrCode(LINK, 'png')).toStartWith('data:image/png;base64,iVBORw0KGgo');
+
+        const qr = encodeQrCode('hello');
+        const lines = renderQrTerminal(qr).split('\n');
+        // Two module rows per line, 2-module margin on each side
+        expect(lines).toHaveLength(Math.ceil((qr.size + 4) / 2));
+        expect(lines.every(line => [...line].length === qr.size + 4)).toBe(true);
+
+        expect(() => renderQrCode(LINK, 'gif' as 'svg')).toThrow('Unsupported QR code format: gif');
+    });
+
+    test('client QR code encodes the client share link', async () => {
+        const id = generateUUID();
+        const panel = createMockPanel({
+            inbounds: [{
+                protocol: 'vless',
+                port: 443,
+                remark: 'main',
+                settings: { clients: [{ id, email: 'alice', enable: true, limitIp: 0, totalGB: 0, expiryTime: 0, subId: 'sub', reset: 0, flow: '' }], decryption: 'none' },
+                streamSettings: { network: 'tcp', security: 'none' }
+            }]
+        });
+        const xui = createClient({ baseUrl: panel.baseUrl, username: 'admin', password: 'admin', transport: panel.transport });
+
+        const link = await xui.clients.getClientLink(1, id, { address: 'vpn.example.com' });
+        const terminal = await xui.clients.getClientQrCode(1, id, 'terminal', { address: 'vpn.example.com' });
+
+        expect(terminal).toBe(renderQrTerminal(link));
+        expect(await xui.clients.getSubscriptionQrCodes('sub', 'terminal', { address: 'vpn.example.com' })).toEqual([{ link, qrCode: terminal }]);
+    });
+});
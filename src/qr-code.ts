@@ -0,0 +1,739 @@
+import { ValidationError } from './types';
+import type {
+    QrCode,
+    QrCodeFormat,
+    QrCodeOptions,
+    QrErrorCorrectionLevel
+} from './types';
+
+/**
+ * Error correction codewords per block, indexed by [level][version]
+ */
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrectionLevel, number[]> = {
+    L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+    M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+    Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+    H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30]
+};
+
+/**
+ * Error correction blocks, indexed by [level][version]
+ */
+const ERROR_CORRECTION_BLOCKS: Record<QrErrorCorrectionLevel, number[]> = {
+    L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+    M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+    Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+    H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81]
+};
+
+const FORMAT_BITS: Record<QrErrorCorrectionLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+const PENALTY_N1 = 3;
+const PENALTY_N2 = 3;
+const PENALTY_N3 = 40;
+const PENALTY_N4 = 10;
+
+/**
+ * Encode text (UTF-8, byte mode) into QR code matrix
+ */
+export function encodeQrCode(text: string, errorCorrection: QrErrorCorrectionLevel = 'M'): QrCode {
+    if (!ECC_CODEWORDS_PER_BLOCK[errorCorrection]) {
+        throw new ValidationError('Error correction level must be L, M, Q or H', 'errorCorrection');
+    }
+
+    const data = Array.from(new TextEncoder().encode(text));
+    const version = selectVersion(data.length, errorCorrection);
+    const codewords = addErrorCorrection(encodeData(data, version, errorCorrection), version, errorCorrection);
+
+    return new QrMatrix(version, errorCorrection).build(codewords);
+}
+
+/**
+ * Render QR code as SVG document
+ */
+export function renderQrSvg(input: string | QrCode, options: QrCodeOptions = {}): string {
+    const qr = toQrCode(input, options);
+    const margin = options.margin ?? 4;
+    const scale = options.scale ?? 8;
+    const dimension = qr.size + margin * 2;
+    const dark = parseColor(options.dark ?? '#000000');
+    const light = parseColor(options.light ?? '#ffffff');
+
+    let path = '';
+    for (let y = 0; y < qr.size; y++) {
+        for (let x = 0; x < qr.size; x++) {
+            if (qr.modules[y]![x]) {
+                path += `M${x + margin},${y + margin}h1v1h-1z`;
+            }
+        }
+    }
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" version="1.1" viewBox="0 0 ${dimension} ${dimension}" ` +
+        `width="${dimension * scale}" height="${dimension * scale}" shape-rendering="crispEdges">` +
+        `<rect width="100%" height="100%" fill="${formatColor(light)}"/>` +
+        `<path d="${path}" fill="${formatColor(dark)}"/>` +
+        `</svg>`;
+}
+
+/**
+ * Render QR code as PNG data URL
+ */
+export function renderQrPngDataUrl(input: string | QrCode, options: QrCodeOptions = {}): string {
+    return `data:image/png;base64,${Buffer.from(renderQrPng(input, options)).toString('base64')}`;
+}
+
+/**
+ * Render QR code as PNG bytes (1-bit palette image)
+ */
+export function renderQrPng(input: string | QrCode, options: QrCodeOptions = {}): Uint8Array {
+    const qr = toQrCode(input, options);
+    const margin = options.margin ?? 4;
+    const scale = options.scale ?? 8;
+    const width = (qr.size + margin * 2) * scale;
+    const rowLength = Math.ceil(width / 8) + 1;
+    const pixels = new Uint8Array(rowLength * width);
+
+    for (let py = 0; py < width; py++) {
+        const y = Math.floor(py / scale) - margin;
+        const rowOffset = py * rowLength;
+
+        for (let px = 0; px < width; px++) {
+            const x = Math.floor(px / scale) - margin;
+            const isDark = y >= 0 && y < qr.size && x >= 0 && x < qr.size && qr.modules[y]![x];
+
+            if (isDark) {
+                pixels[rowOffset + 1 + (px >>> 3)]! |= 0x80 >>> (px & 7);
+            }
+        }
+    }
+
+    const header = new Uint8Array(13);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, width);
+    headerView.setUint32(4, width);
+    header[8] = 1; // bit depth
+    header[9] = 3; // palette color type
+
+    const palette = new Uint8Array([
+        ...parseColor(options.light ?? '#ffffff'),
+        ...parseColor(options.dark ?? '#000000')
+    ]);
+
+    return concatBytes([
+        new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        pngChunk('IHDR', header),
+        pngChunk('PLTE', palette),
+        pngChunk('IDAT', zlibStore(pixels)),
+        pngChunk('IEND', new Uint8Array(0))
+    ]);
+}
+
+/**
+ * Render QR code for terminal output using Unicode half blocks
+ */
+export function renderQrTerminal(input: string | QrCode, options: QrCodeOptions = {}): string {
+    const qr = toQrCode(input, options);
+    const margin = options.margin ?? 2;
+    const dimension = qr.size + margin * 2;
+
+    // Dark terminal themes draw light modules, light themes draw dark ones
+    const isDrawn = (x: number, y: number): boolean => {
+        const mx = x - margin;
+        const my = y - margin;
+        const isDark = my >= 0 && my < qr.size && mx >= 0 && mx < qr.size && qr.modules[my]![mx]!;
+        return options.invert ? isDark : !isDark;
+    };
+
+    const lines: string[] = [];
+    for (let y = 0; y < dimension; y += 2) {
+        let line = '';
+        for (let x = 0; x < dimension; x++) {
+            const top = isDrawn(x, y);
+            const bottom = y + 1 < dimension ? isDrawn(x, y + 1) : !options.invert;
+
+            if (top && bottom) {
+                line += '█';
+            } else if (top) {
+                line += '▀';
+            } else if (bottom) {
+                line += '▄';
+            } else {
+                line += ' ';
+            }
+        }
+        lines.push(line);
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Render QR code in requested format (SVG markup, PNG data URL or terminal text)
+ */
+export function renderQrCode(text: string, format: QrCodeFormat = 'svg', options: QrCodeOptions = {}): string {
+    switch (format) {
+        case 'svg':
+            return renderQrSvg(text, options);
+        case 'png':
+            return renderQrPngDataUrl(text, options);
+        case 'terminal':
+            return renderQrTerminal(text, options);
+        default:
+            throw new ValidationError(`Unsupported QR code format: ${format}`, 'format');
+    }
+}
+
+/**
+ * QR code matrix construction (function patterns, data placement, masking)
+ */
+class QrMatrix {
+    private readonly size: number;
+    private readonly modules: boolean[][];
+    private readonly isFunction: boolean[][];
+
+    constructor(private readonly version: number, private readonly errorCorrection: QrErrorCorrectionLevel) {
+        this.size = version * 4 + 17;
+        this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+        this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    }
+
+    build(codewords: number[]): QrCode {
+        this.drawFunctionPatterns();
+        this.drawCodewords(codewords);
+
+        let bestMask = 0;
+        let bestPenalty = Infinity;
+
+        for (let mask = 0; mask < 8; mask++) {
+            this.applyMask(mask);
+            this.drawFormatBits(mask);
+
+            const penalty = this.getPenaltyScore();
+            if (penalty < bestPenalty) {
+                bestMask = mask;
+                bestPenalty = penalty;
+            }
+
+            this.applyMask(mask); // XOR again to undo
+        }
+
+        this.applyMask(bestMask);
+        this.drawFormatBits(bestMask);
+
+        return {
+            version: this.version,
+            size: this.size,
+            errorCorrection: this.errorCorrection,
+            modules: this.modules.map(row => [...row])
+        };
+    }
+
+    private drawFunctionPatterns(): void {
+        for (let i = 0; i < this.size; i++) {
+            this.setFunctionModule(6, i, i % 2 === 0);
+            this.setFunctionModule(i, 6, i % 2 === 0);
+        }
+
+        this.drawFinderPattern(3, 3);
+        this.drawFinderPattern(this.size - 4, 3);
+        this.drawFinderPattern(3, this.size - 4);
+
+        const positions = this.getAlignmentPatternPositions();
+        const count = positions.length;
+
+        for (let i = 0; i < count; i++) {
+            for (let j = 0; j < count; j++) {
+                const overlapsFinder = (i === 0 && j === 0) || (i === 0 && j === count - 1) || (i === count - 1 && j === 0);
+                if (!overlapsFinder) {
+                    this.drawAlignmentPattern(positions[i]!, positions[j]!);
+                }
+            }
+        }
+
+        // Reserve format areas, real bits are drawn after masking
+        this.drawFormatBits(0);
+        this.drawVersion();
+    }
+
+    private drawFinderPattern(x: number, y: number): void {
+        for (let dy = -4; dy <= 4; dy++) {
+            for (let dx = -4; dx <= 4; dx++) {
+                const distance = Math.max(Math.abs(dx), Math.abs(dy));
+                const xx = x + dx;
+                const yy = y + dy;
+
+                if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+                    this.setFunctionModule(xx, yy, distance !== 2 && distance !== 4);
+                }
+            }
+        }
+    }
+
+    private drawAlignmentPattern(x: number, y: number): void {
+        for (let dy = -2; dy <= 2; dy++) {
+            for (let dx = -2; dx <= 2; dx++) {
+                this.setFunctionModule(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+            }
+        }
+    }
+
+    private getAlignmentPatternPositions(): number[] {
+        if (this.version === 1) {
+            return [];
+        }
+
+        const count = Math.floor(this.version / 7) + 2;
+        const step = this.version === 32
+            ? 26
+            : Math.ceil((this.version * 4 + 4) / (count * 2 - 2)) * 2;
+
+        const positions = [6];
+        for (let position = this.size - 7; positions.length < count; position -= step) {
+            positions.splice(1, 0, position);
+        }
+
+        return positions;
+    }
+
+    private drawFormatBits(mask: number): void {
+        const data = (FORMAT_BITS[this.errorCorrection] << 3) | mask;
+        let remainder = data;
+        for (let i = 0; i < 10; i++) {
+            remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+        }
+        const bits = ((data << 10) | remainder) ^ 0x5412;
+
+        for (let i = 0; i <= 5; i++) {
+            this.setFunctionModule(8, i, getBit(bits, i));
+        }
+        this.setFunctionModule(8, 7, getBit(bits, 6));
+        this.setFunctionModule(8, 8, getBit(bits, 7));
+        this.setFunctionModule(7, 8, getBit(bits, 8));
+        for (let i = 9; i < 15; i++) {
+            this.setFunctionModule(14 - i, 8, getBit(bits, i));
+        }
+
+        for (let i = 0; i < 8; i++) {
+            this.setFunctionModule(this.size - 1 - i, 8, getBit(bits, i));
+        }
+        for (let i = 8; i < 15; i++) {
+            this.setFunctionModule(8, this.size - 15 + i, getBit(bits, i));
+        }
+        this.setFunctionModule(8, this.size - 8, true);
+    }
+
+    private drawVersion(): void {
+        if (this.version < 7) {
+            return;
+        }
+
+        let remainder = this.version;
+        for (let i = 0; i < 12; i++) {
+            remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+        }
+        const bits = (this.version << 12) | remainder;
+
+        for (let i = 0; i < 18; i++) {
+            const bit = getBit(bits, i);
+            const a = this.size - 11 + (i % 3);
+            const b = Math.floor(i / 3);
+            this.setFunctionModule(a, b, bit);
+            this.setFunctionModule(b, a, bit);
+        }
+    }
+
+    private drawCodewords(codewords: number[]): void {
+        let bitIndex = 0;
+
+        for (let right = this.size - 1; right >= 1; right -= 2) {
+            if (right === 6) {
+                right = 5;
+            }
+
+            for (let vertical = 0; vertical < this.size; vertical++) {
+                for (let j = 0; j < 2; j++) {
+                    const x = right - j;
+                    const upward = ((right + 1) & 2) === 0;
+                    const y = upward ? this.size - 1 - vertical : vertical;
+
+                    if (!this.isFunction[y]![x] && bitIndex < codewords.length * 8) {
+                        this.modules[y]![x] = getBit(codewords[bitIndex >>> 3]!, 7 - (bitIndex & 7));
+                        bitIndex++;
+                    }
+                }
+            }
+        }
+    }
+
+    private applyMask(mask: number): void {
+        for (let y = 0; y < this.size; y++) {
+            for (let x = 0; x < this.size; x++) {
+                if (this.isFunction[y]![x]) {
+                    continue;
+                }
+
+                let invert: boolean;
+                switch (mask) {
+                    case 0: invert = (x + y) % 2 === 0; break;
+                    case 1: invert = y % 2 === 0; break;
+                    case 2: invert = x % 3 === 0; break;
+                    case 3: invert = (x + y) % 3 === 0; break;
+                    case 4: invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0; break;
+                    case 5: invert = (x * y) % 2 + (x * y) % 3 === 0; break;
+                    case 6: invert = ((x * y) % 2 + (x * y) % 3) % 2 === 0; break;
+                    default: invert = ((x + y) % 2 + (x * y) % 3) % 2 === 0; break;
+                }
+
+                if (invert) {
+                    this.modules[y]![x] = !this.modules[y]![x];
+                }
+            }
+        }
+    }
+
+    private getPenaltyScore(): number {
+        let result = 0;
+
+        for (let y = 0; y < this.size; y++) {
+            result += this.getLinePenalty(x => this.modules[y]![x]!);
+        }
+
+        for (let x = 0; x < this.size; x++) {
+            result += this.getLinePenalty(y => this.modules[y]![x]!);
+        }
+
+        for (let y = 0; y < this.size - 1; y++) {
+            for (let x = 0; x < this.size - 1; x++) {
+                const color = this.modules[y]![x];
+                if (color === this.modules[y]![x + 1] && color === this.modules[y + 1]![x] && color === this.modules[y + 1]![x + 1]) {
+                    result += PENALTY_N2;
+                }
+            }
+        }
+
+        const dark = this.modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+        const total = this.size * this.size;
+        const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+        result += k * PENALTY_N4;
+
+        return result;
+    }
+
+    /**
+     * Penalty for runs of same color and finder-like patterns in one row or column
+     */
+    private getLinePenalty(moduleAt: (index: number) => boolean): number {
+        let result = 0;
+        let runColor = false;
+        let runLength = 0;
+        const history = [0, 0, 0, 0, 0, 0, 0];
+
+        for (let i = 0; i < this.size; i++) {
+            if (moduleAt(i) === runColor) {
+                runLength++;
+                if (runLength === 5) {
+                    result += PENALTY_N1;
+                } else if (runLength > 5) {
+                    result++;
+                }
+            } else {
+                this.addRunToHistory(runLength, history);
+                if (!runColor) {
+                    result += this.countFinderPatterns(history) * PENALTY_N3;
+                }
+                runColor = moduleAt(i);
+                runLength = 1;
+            }
+        }
+
+        if (runColor) {
+            this.addRunToHistory(runLength, history);
+            runLength = 0;
+        }
+        runLength += this.size;
+        this.addRunToHistory(runLength, history);
+
+        return result + this.countFinderPatterns(history) * PENALTY_N3;
+    }
+
+    private addRunToHistory(runLength: number, history: number[]): void {
+        if (history[0] === 0) {
+            runLength += this.size; // light border before the first run
+        }
+        history.pop();
+        history.unshift(runLength);
+    }
+
+    private countFinderPatterns(history: number[]): number {
+        const n = history[1]!;
+        const core = n > 0 && history[2] === n && history[3] === n * 3 && history[4] === n && history[5] === n;
+
+        return (core && history[0]! >= n * 4 && history[6]! >= n ? 1 : 0)
+            + (core && history[6]! >= n * 4 && history[0]! >= n ? 1 : 0);
+    }
+
+    private setFunctionModule(x: number, y: number, isDark: boolean): void {
+        this.modules[y]![x] = isDark;
+        this.isFunction[y]![x] = true;
+    }
+}
+
+function toQrCode(input: string | QrCode, options: QrCodeOptions): QrCode {
+    return typeof input === 'string' ? encodeQrCode(input, options.errorCorrection) : input;
+}
+
+function getRawDataModules(version: number): number {
+    let result = (16 * version + 128) * version + 64;
+
+    if (version >= 2) {
+        const alignmentCount = Math.floor(version / 7) + 2;
+        result -= (25 * alignmentCount - 10) * alignmentCount - 55;
+        if (version >= 7) {
+            result -= 36;
+        }
+    }
+
+    return result;
+}
+
+function getDataCodewords(version: number, level: QrErrorCorrectionLevel): number {
+    return Math.floor(getRawDataModules(version) / 8)
+        - ECC_CODEWORDS_PER_BLOCK[level][version]! * ERROR_CORRECTION_BLOCKS[level][version]!;
+}
+
+function getCharCountBits(version: number): number {
+    return version <= 9 ? 8 : 16;
+}
+
+function selectVersion(byteLength: number, level: QrErrorCorrectionLevel): number {
+    for (let version = 1; version <= 40; version++) {
+        const usedBits = 4 + getCharCountBits(version) + byteLength * 8;
+        if (usedBits <= getDataCodewords(version, level) * 8) {
+            return version;
+        }
+    }
+
+    throw new ValidationError(`Text is too long for a QR code (${byteLength} bytes)`, 'text');
+}
+
+/**
+ * Encode bytes as byte-mode segment with terminator and padding
+ */
+function encodeData(data: number[], version: number, level: QrErrorCorrectionLevel): number[] {
+    const bits: number[] = [];
+    const appendBits = (value: number, length: number) => {
+        for (let i = length - 1; i >= 0; i--) {
+            bits.push((value >>> i) & 1);
+        }
+    };
+
+    appendBits(0x4, 4);
+    appendBits(data.length, getCharCountBits(version));
+    data.forEach(byte => appendBits(byte, 8));
+
+    const capacityBits = getDataCodewords(version, level) * 8;
+    appendBits(0, Math.min(4, capacityBits - bits.length));
+    appendBits(0, (8 - bits.length % 8) % 8);
+
+    for (let padByte = 0xec; bits.length < capacityBits; padByte ^= 0xec ^ 0x11) {
+        appendBits(padByte, 8);
+    }
+
+    const codewords: number[] = [];
+    for (let i = 0; i < bits.length; i += 8) {
+        codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+    }
+
+    return codewords;
+}
+
+/**
+ * Split data into blocks, append Reed-Solomon codewords and interleave
+ */
+function addErrorCorrection(data: number[], version: number, level: QrErrorCorrectionLevel): number[] {
+    const blockCount = ERROR_CORRECTION_BLOCKS[level][version]!;
+    const blockEccLength = ECC_CODEWORDS_PER_BLOCK[level][version]!;
+    const rawCodewords = Math.floor(getRawDataModules(version) / 8);
+    const shortBlockCount = blockCount - rawCodewords % blockCount;
+    const shortBlockLength = Math.floor(rawCodewords / blockCount);
+    const divisor = reedSolomonDivisor(blockEccLength);
+
+    const blocks: number[][] = [];
+    for (let i = 0, offset = 0; i < blockCount; i++) {
+        const length = shortBlockLength - blockEccLength + (i < shortBlockCount ? 0 : 1);
+        const block = data.slice(offset, offset + length);
+        offset += length;
+
+        const ecc = reedSolomonRemainder(block, divisor);
+        if (i < shortBlockCount) {
+            block.push(0);
+        }
+        blocks.push(block.concat(ecc));
+    }
+
+    const result: number[] = [];
+    for (let i = 0; i < blocks[0]!.length; i++) {
+        blocks.forEach((block, j) => {
+            if (i !== shortBlockLength - blockEccLength || j >= shortBlockCount) {
+                result.push(block[i]!);
+            }
+        });
+    }
+
+    return result;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+    const result = new Array<number>(degree).fill(0);
+    result[degree - 1] = 1;
+
+    let root = 1;
+    for (let i = 0; i < degree; i++) {
+        for (let j = 0; j < result.length; j++) {
+            result[j] = gfMultiply(result[j]!, root);
+            if (j + 1 < result.length) {
+                result[j]! ^= result[j + 1]!;
+            }
+        }
+        root = gfMultiply(root, 0x02);
+    }
+
+    return result;
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+    const result = new Array<number>(divisor.length).fill(0);
+
+    for (const byte of data) {
+        const factor = byte ^ result.shift()!;
+        result.push(0);
+        divisor.forEach((coefficient, i) => {
+            result[i]! ^= gfMultiply(coefficient, factor);
+        });
+    }
+
+    return result;
+}
+
+function gfMultiply(x: number, y: number): number {
+    let z = 0;
+    for (let i = 7; i >= 0; i--) {
+        z = (z << 1) ^ ((z >>> 7) * 0x11d);
+        z ^= ((y >>> i) & 1) * x;
+    }
+    return z;
+}
+
+function getBit(value: number, index: number): boolean {
+    return ((value >>> index) & 1) !== 0;
+}
+
+function parseColor(color: string): [number, number, number] {
+    const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+
+    if (!match) {
+        throw new ValidationError(`Invalid color: ${color}`, 'color');
+    }
+
+    const hex = match[1]!.length === 3
+        ? match[1]!.split('').map(c => c + c).join('')
+        : match[1]!;
+
+    return [
+        parseInt(hex.slice(0, 2), 16),
+        parseInt(hex.slice(2, 4), 16),
+        parseInt(hex.slice(4, 6), 16)
+    ];
+}
+
+function formatColor([r, g, b]: [number, number, number]): string {
+    return `#${[r, g, b].map(c => c.toString(16).padStart(2, '0')).join('')}`;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) {
+        chunk[4 + i] = type.charCodeAt(i);
+    }
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+
+    return chunk;
+}
+
+/**
+ * Wrap data into zlib stream of uncompressed deflate blocks
+ */
+function zlibStore(data: Uint8Array): Uint8Array {
+    const maxBlock = 0xffff;
+    const blockCount = Math.max(1, Math.ceil(data.length / maxBlock));
+    const output = new Uint8Array(2 + data.length + blockCount * 5 + 4);
+    let position = 0;
+
+    output[position++] = 0x78;
+    output[position++] = 0x01;
+
+    for (let i = 0; i < blockCount; i++) {
+        const block = data.subarray(i * maxBlock, (i + 1) * maxBlock);
+        output[position++] = i === blockCount - 1 ? 1 : 0;
+        output[position++] = block.length & 0xff;
+        output[position++] = block.length >>> 8;
+        output[position++] = ~block.length & 0xff;
+        output[position++] = (~block.length >>> 8) & 0xff;
+        output.set(block, position);
+        position += block.length;
+    }
+
+    new DataView(output.buffer).setUint32(position, adler32(data));
+
+    return output;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable[n] = c >>> 0;
+        }
+    }
+
+    let crc = 0xffffffff;
+    for (const byte of data) {
+        crc = crcTable[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+    }
+
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function adler32(data: Uint8Array): number {
+    let a = 1;
+    let b = 0;
+
+    for (const byte of data) {
+        a = (a + byte) % 65521;
+        b = (b + a) % 65521;
+    }
+
+    return ((b << 16) | a) >>> 0;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+
+    return result;
+}
@@ -0,0 +1,129 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import { mkdtemp, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { ValidationError, createClient, createMockPanel } from './index';
+import type { MockPanelOptions } from './types';
+
+function setup(options: MockPanelOptions = {}) {
+    const panel = createMockPanel(options);
+    const xui = createClient({
+        baseUrl: panel.baseUrl,
+        username: 'admin',
+        password: 'admin',
+        transport: panel.transport,
+        retryAttempts: 0
+    });
+
+    return { panel, xui };
+}
+
+describe('server status and Xray control', () => {
+    test('status reports Xray state and version', async () => {
+        const { xui } = setup({ xrayVersion: 'v1.8.24' });
+
+        const status = await xui.server.getStatus();
+
+        expect(status.xray).toEqual({ state: 'running', errorMsg: '', version: '1.8.24' });
+        expect(status.mem.total).toBeGreaterThan(status.mem.current);
+    });
+
+    test('stop, restart and install change the Xray state', async () => {
+        const { xui } = setup({ xrayVersion: 'v1.8.24' });
+
+        expect(await xui.server.stopXray()).toBe(true);
+        expect((await xui.server.getStatus()).xray.state).toBe('stop');
+
+        expect(await xui.server.restartXray()).toBe(true);
+        expect((await xui.server.getStatus()).xray.state).toBe('running');
+
+        const [latest] = await xui.server.getXrayVersions();
+        // Version without the "v" prefix is accepted
+        expect(await xui.server.installXray(latest!.slice(1))).toBe(true);
+        expect((await xui.server.getStatus()).xray.version).toBe(latest!.slice(1));
+    });
+
+    test('invalid and unknown Xray versions are rejected', async () => {
+        const { panel, xui } = setup();
+
+        await expect(xui.server.installXray('latest')).rejects.toBeInstanceOf(ValidationError);
+        expect(panel.requests).toHaveLength(0);
+
+        await expect(xui.server.installXray('v0.0.1')).rejects.toThrow('Failed to install Xray');
+    });
+
+    test('logs return the last lines', async () => {
+        const { panel, xui } = setup();
+        panel.addLogs('panel', ['one', 'two', 'three']);
+        panel.addLogs('xray', ['alice accepted tcp:example.com:443', 'bob accepted tcp:example.org:443']);
+
+        expect(await xui.server.getPanelLogs(2)).toEqual(['two', 'three']);
+        expect(await xui.server.getXrayLogs(10, { filter: 'alice' })).toEqual(['alice accepted tcp:example.com:443']);
+        await expect(xui.server.getPanelLogs(0)).rejects.toThrow('Log count must be an integer between 1 and 10000');
+    });
+});
+
+describe('database backup', () => {
+    const directories: string[] = [];
+
+    afterAll(async () => {
+        await Promise.all(directories.map(directory => rm(directory, { recursive: true, force: true })));
+    });
+
+    async function tempDirectory(): Promise<string> {
+        const directory = await mkdtemp(join(tmpdir(), 'xui-backup-'));
+        directories.push(directory);
+        return directory;
+    }
+
+    function database(marker: number, pages = 1): Uint8Array {
+        const data = new Uint8Array(4096 * pages);
+        data.set(new TextEncoder().encode('SQLite format 3\u0000'));
+        data[16] = 0x10;
+        data[100] = marker;
+        return data;
+    }
+
+    test('download returns the panel database', async () => {
+        const { xui } = setup({ database: database(7, 2) });
+
+        const data = await xui.server.downloadDatabase();
+
+        expect(data.byteLength).toBe(8192);
+        expect(data[100]).toBe(7);
+        await expect(xui.server.downloadDatabase({ maxSize: 4096 })).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    test('concurrent saves to one file all succeed and leave no temp files', async () => {
+        const { xui } = setup({ database: database(3) });
+        const directory = await tempDirectory();
+        const filePath = join(directory, 'nested', 'x-ui.db');
+
+        const results = await Promise.all(Array.from({ length: 4 }, () => xui.server.saveDatabase(filePath)));
+
+        expect(results).toEqual(Array.from({ length: 4 }, () => ({ path: filePath, size: 4096 })));
+        expect((await readFile(filePath))[100]).toBe(3);
+        expect(await readdir(join(directory, 'nested'))).toEqual(['x-ui.db']);
+    });
+
+    test('import needs confirmation and a SQLite file', async () => {
+        const { panel, xui } = setup();
+
+        await expect(xui.server.importDatabase(database(1), { confirm: false })).rejects.toThrow('pass { confirm: true }');
+        await expect(xui.server.importDatabase(new TextEncoder().encode('not a database'), { confirm: true }))
+            .rejects.toThrow('Data is not a SQLite database');
+        await expect(xui.server.importDatabase(database(1).subarray(0, 4000), { confirm: true }))
+            .rejects.toThrow('does not match page size');
+        expect(panel.requests).toHaveLength(0);
+    });
+
+    test('restore uploads a backup file', async () => {
+        const { panel, xui } = setup();
+        const filePath = join(await tempDirectory(), 'backup.db');
+        await writeFile(filePath, database(9));
+
+        expect(await xui.server.restoreDatabase(filePath, { confirm: true })).toBe(true);
+        expect(panel.getDatabase()[100]).toBe(9);
+    });
+});
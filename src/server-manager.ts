@@ -0,0 +1,369 @@
+import { readFile, writeFile, rename, mkdir, unlink } from 'node:fs/promises';
+import { basename, dirname } from 'node:path';
+import { randomUUID } from 'node:crypto';
+
+import { XUIClient } from './client';
+import {
+    type ApiResponse,
+    type DatabaseBackupFile,
+    type DatabaseDownloadOptions,
+    type DatabaseImportOptions,
+    type PanelLogOptions,
+    type ServerStatus,
+    type ServerStatusResponse,
+    type XrayLogOptions,
+    ValidationError
+} from './types';
+
+import { createErrorWithContext, safeJsonParse } from './utils';
+
+/** Every SQLite database starts with this header */
+const SQLITE_HEADER = 'SQLite format 3\u0000';
+const SQLITE_HEADER_SIZE = 100;
+const DEFAULT_MAX_DATABASE_SIZE = 100 * 1024 * 1024;
+
+/**
+ * Server manager for system status, Xray service control and logs
+ */
+export class ServerManager {
+    constructor(private client: XUIClient) { }
+
+    /**
+     * Get system status (CPU, memory, disk, uptime, Xray state and version)
+     */
+    async getStatus(): Promise<ServerStatus> {
+        try {
+            const response = await this.client.post<ServerStatusResponse>(
+                this.getPath('/status')
+            );
+
+            if (!response.success || !response.obj) {
+                throw new Error(response.message || 'Failed to get server status');
+            }
+
+            return response.obj;
+        } catch (error) {
+            throw createErrorWithContext(error, {
+                operation: 'getServerStatus'
+            }, 'Failed to get server status');
+        }
+    }
+
+    /**
+     * Get Xray versions available for installation
+     */
+    async getXrayVersions(): Promise<string[]> {
+        try {
+            const response = await this.client.post<ApiResponse<string[]>>(
+                this.getPath('/getXrayVersion')
+            );
+
+            if (!response.success || !Array.isArray(response.obj)) {
+                throw new Error(response.message || 'Failed to get Xray versions');
+            }
+
+            return response.obj;
+        } catch (error) {
+            throw createErrorWithContext(error, {
+                operation: 'getXrayVersions'
+            }, 'Failed to get Xray versions');
+        }
+    }
+
+    /**
+     * Install Xray version (e.g. "v1.8.24"), the panel restarts Xray afterwards
+     */
+    async installXray(version: string): Promise<boolean> {
+        if (!/^v?\d+\.\d+\.\d+$/.test(version ?? '')) {
+            throw new ValidationError('Invalid Xray version, expected format v1.2.3', 'version');
+        }
+
+        const normalizedVersion = version.startsWith('v') ? version : `v${version}`;
+
+        try {
+            const response = await this.client.post<ApiResponse>(
+                this.getPath(`/installXray/${normalizedVersion}`)
+            );
+
+            if (!response.success) {
+                throw new Error(response.message || 'Failed to install Xray');
+            }
+
+            this.client.getLogger().info(`Installed Xray ${normalizedVersion}`, { operation: 'installXray', version: normalizedVersion });
+            return true;
+        } catch (error) {
+            throw createErrorWithContext(error, {
+                operation: 'installXray',
+                version: normalizedVersion
+            }, `Failed to install Xray ${normalizedVersion}`);
+        }
+    }
+
+    /**
+     * Restart Xray service
+     */
+    async restartXray(): Promise<boolean> {
+        try {
+            const response = await this.client.post<ApiResponse>(
+                this.getPath('/restartXrayService')
+            );
+
+            if (!response.success) {
+                throw new Error(response.message || 'Failed to restart Xray');
+            }
+
+            this.client.getLogger().info('Restarted Xray', { operation: 'restartXray' });
+            return true;
+        } catch (error) {
+            throw createErrorWithContext(error, {
+                operation: 'restartXray'
+            }, 'Failed to restart Xray');
+        }
+    }
+
+    /**
+     * Stop Xray service
+     */
+    async stopXray(): Promise<boolean> {
+        try {
+            const response = await this.client.post<ApiResponse>(
+                this.getPath('/stopXrayService')
+            );
+
+            if (!response.success) {
+                throw new Error(response.message || 'Failed to stop Xray');
+            }
+
+            this.client.getLogger().info('Stopped Xray', { operation: 'stopXray' });
+            return true;
+        } catch (error) {
+            throw createErrorWithContext(error, {
+                operation: 'stopXray'
+            }, 'Failed to stop Xray');
+        }
+    }
+
+    /**
+     * Get last panel log lines
+     */
+    async getPanelLogs(count: number = 100, options: PanelLogOptions = {}): Promise<string[]> {
+        this.validateLogCount(count);
+
+        try {
+            const response = await this.client.post<ApiResponse<string[]>>(
+                this.getPath(`/logs/${count}`),
+                new URLSearchParams({
+                    level: options.level ?? 'info',
+                    syslog: String(options.syslog ?? false)
+                })
+            );
+
+            if (!response.success) {
+                throw new Error(response.message || 'Failed to get panel logs');
+            }
+
+            return response.obj ?? [];
+        } catch (error) {
+            throw createErrorWithContext(error, {
+                operation: 'getPanelLogs',
+                count
+            }, 'Failed to get panel logs');
+        }
+    }
+
+    /**
+     * Get last Xray access log lines
+     */
+    async getXrayLogs(count: number = 100, options: XrayLogOptions = {}): Promise<string[]> {
+        this.validateLogCount(count);
+
+        try {
+            const response = await this.client.post<ApiResponse<string[]>>(
+                this.getPath(`/xraylogs/${count}`),
+                new URLSearchParams({
+                    filter: options.filter ?? '',
+                    showDirect: String(options.showDirect ?? true),
+                    showBlocked: String(options.showBlocked ?? true),
+                    showProxy: String(options.showProxy ?? true)
+                })
+            );
+
+            if (!response.success) {
+                throw new Error(response.message || 'Failed to get Xray logs');
+            }
+
+            return response.obj ?? [];
+        } catch (error) {
+            throw createErrorWithContext(error, {
+                operation: 'getXrayLogs',
+                count
+            }, 'Failed to get Xray logs');
+        }
+    }
+
+    /**
+     * Download panel database (x-ui.db) as bytes
+     */
+    async downloadDatabase(options: DatabaseDownloadOptions = {}): Promise<Uint8Array> {
+        const maxSize = options.maxSize ?? DEFAULT_MAX_DATABASE_SIZE;
+
+        try {
+            const response = await this.client.requestRaw(this.getPath('/getDb'), { method: 'GET' });
+
+            const declaredSize = Number(response.headers.get('content-length'));
+            if (declaredSize > maxSize) {
+                throw new ValidationError(`Database is ${declaredSize} bytes, larger than the ${maxSize} bytes limit`, 'maxSize');
+            }
+
+            const data = new Uint8Array(await response.arrayBuffer());
+
+            if (declaredSize > 0 && data.byteLength !== declaredSize) {
+                throw new Error(`Database download truncated: got ${data.byteLength} of ${declaredSize} bytes`);
+            }
+
+            this.validateDatabase(data, maxSize);
+            return data;
+        } catch (error) {
+            throw createErrorWithContext(error, {
+                operation: 'downloadDatabase'
+            }, 'Failed to download database');
+        }
+    }
+
+    /**
+     * Download panel database into a local file.
+     * Written through a temp file, so an interrupted download never replaces a good backup.
+     */
+    async saveDatabase(filePath: string, options: DatabaseDownloadOptions = {}): Promise<DatabaseBackupFile> {
+        if (!filePath?.trim()) {
+            throw new ValidationError('File path is required', 'filePath');
+        }
+
+        const data = await this.downloadDatabase(options);
+        const tempPath = `${filePath}.${process.pid}.${randomUUID()}.tmp`;
+
+        try {
+            await mkdir(dirname(filePath), { recursive: true });
+            await writeFile(tempPath, data, { mode: 0o600 });
+            await rename(tempPath, filePath);
+        } catch (error) {
+            await unlink(tempPath).catch(() => undefined);
+
+            throw createErrorWithContext(error, {
+                operation: 'saveDatabase',
+                filePath
+            }, `Failed to save database to ${filePath}`);
+        }
+
+        this.client.getLogger().info(`Saved database backup to ${filePath}`, {
+            operation: 'saveDatabase',
+            filePath,
+            size: data.byteLength
+        });
+
+        return { path: filePath, size: data.byteLength };
+    }
+
+    /**
+     * Replace panel database with the given file contents.
+     * Overwrites all inbounds, clients and settings, so `confirm: true` is required.
+     */
+    async importDatabase(data: Uint8Array, options: DatabaseImportOptions): Promise<boolean> {
+        if (options?.confirm !== true) {
+            throw new ValidationError('Database import replaces all panel data, pass { confirm: true } to proceed', 'confirm');
+        }
+
+        this.validateDatabase(data, options.maxSize ?? DEFAULT_MAX_DATABASE_SIZE);
+
+        try {
+            const form = new FormData();
+            form.append('db', new Blob([data], { type: 'application/octet-stream' }), 'x-ui.db');
+
+            const response = await this.client.post<ApiResponse>(
+                this.getPath('/importDB'),
+                form
+            );
+
+            if (!response.success) {
+                throw new Error(response.message || 'Failed to import database');
+            }
+
+            this.client.getLogger().warn('Imported panel database', { operation: 'importDatabase', size: data.byteLength });
+            return true;
+        } catch (error) {
+            throw createErrorWithContext(error, {
+                operation: 'importDatabase',
+                size: data.byteLength
+            }, 'Failed to import database');
+        }
+    }
+
+    /**
+     * Replace panel database with a local backup file (see importDatabase)
+     */
+    async restoreDatabase(filePath: string, options: DatabaseImportOptions): Promise<boolean> {
+        if (options?.confirm !== true) {
+            throw new ValidationError('Database import replaces all panel data, pass { confirm: true } to proceed', 'confirm');
+        }
+
+        let data: Uint8Array;
+
+        try {
+            data = new Uint8Array(await readFile(filePath));
+        } catch (error) {
+            throw createErrorWithContext(error, {
+                operation: 'restoreDatabase',
+                filePath
+            }, `Failed to read database backup ${basename(filePath)}`);
+        }
+
+        return this.importDatabase(data, options);
+    }
+
+    /**
+     * Check that data looks like a complete SQLite database within the size limit
+     */
+    private validateDatabase(data: Uint8Array, maxSize: number): void {
+        if (data.byteLength > maxSize) {
+            throw new ValidationError(`Database is ${data.byteLength} bytes, larger than the ${maxSize} bytes limit`, 'maxSize');
+        }
+
+        const header = String.fromCharCode(...data.subarray(0, SQLITE_HEADER.length));
+
+        if (header !== SQLITE_HEADER) {
+            const panelError = safeJsonParse<{ msg?: string } | null>(new TextDecoder().decode(data.subarray(0, 4096)), null);
+            throw new ValidationError(
+                panelError?.msg ? `Panel returned an error instead of a database: ${panelError.msg}` : 'Data is not a SQLite database',
+                'data'
+            );
+        }
+
+        if (data.byteLength < SQLITE_HEADER_SIZE) {
+            throw new ValidationError(`Database is truncated (${data.byteLength} bytes)`, 'data');
+        }
+
+        // Page size is stored big-endian at offset 16, the value 1 means 65536
+        const rawPageSize = (data[16]! << 8) | data[17]!;
+        const pageSize = rawPageSize === 1 ? 65536 : rawPageSize;
+
+        if (pageSize < 512 || (pageSize & (pageSize - 1)) !== 0 || data.byteLength % pageSize !== 0) {
+            throw new ValidationError(`Database size ${data.byteLength} does not match page size ${pageSize}`, 'data');
+        }
+    }
+
+    /**
+     * Validate number of log lines to fetch
+     */
+    private validateLogCount(count: number): void {
+        if (!Number.isInteger(count) || count <= 0 || count > 10000) {
+            throw new ValidationError('Log count must be an integer between 1 and 10000', 'count');
+        }
+    }
+
+    /**
+     * Get API path for server operations
+     */
+    private getPath(subPath: string): string {
+        return `/server${subPath}`;
+    }
+}
@@ -0,0 +1,91 @@
+import { readFile, writeFile, rename, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { randomUUID } from 'node:crypto';
+
+import type { SessionStore, StoredSession } from './types';
+import { safeJsonParse } from './utils';
+
+/**
+ * In-memory session store, shared between client instances of one process
+ */
+export class MemorySessionStore implements SessionStore {
+    private readonly sessions = new Map<string, StoredSession>();
+
+    get(key: string): StoredSession | null {
+        return this.sessions.get(key) ?? null;
+    }
+
+    set(key: string, session: StoredSession): void {
+        this.sessions.set(key, { ...session });
+    }
+
+    delete(key: string): void {
+        this.sessions.delete(key);
+    }
+}
+
+/**
+ * JSON file session store, survives process restarts
+ */
+export class FileSessionStore implements SessionStore {
+    /** Tail of the read-modify-write queue, so concurrent set/delete never drop each other's keys */
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(private readonly filePath: string) { }
+
+    async get(key: string): Promise<StoredSession | null> {
+        const sessions = await this.read();
+        return sessions[key] ?? null;
+    }
+
+    async set(key: string, session: StoredSession): Promise<void> {
+        return this.modify(async () => {
+            const sessions = await this.read();
+            sessions[key] = session;
+            await this.write(sessions);
+        });
+    }
+
+    async delete(key: string): Promise<void> {
+        return this.modify(async () => {
+            const sessions = await this.read();
+
+            if (key in sessions) {
+                delete sessions[key];
+                await this.write(sessions);
+            }
+        });
+    }
+
+    /**
+     * Run change after all earlier changes of this store have settled
+     */
+    private modify(change: () => Promise<void>): Promise<void> {
+        const result = this.writeQueue.then(change);
+        this.writeQueue = result.catch(() => undefined);
+
+        return result;
+    }
+
+    private async read(): Promise<Record<string, StoredSession>> {
+        try {
+            return safeJsonParse<Record<string, StoredSession>>(await readFile(this.filePath, 'utf8'), {});
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return {};
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Write through temp file so concurrent readers never see partial JSON
+     */
+    private async write(sessions: Record<string, StoredSession>): Promise<void> {
+        const tempPath = `${this.filePath}.${process.pid}.${randomUUID()}.tmp`;
+
+        await mkdir(dirname(this.filePath), { recursive: true });
+        await writeFile(tempPath, JSON.stringify(sessions, null, 2), { encoding: 'utf8', mode: 0o600 });
+        await rename(tempPath, this.filePath);
+    }
+}
@@ -0,0 +1,156 @@
+import { describe, expect, test } from 'bun:test';
+
+import { ValidationError, createClient, createMockPanel } from './index';
+import type { MockPanelOptions } from './types';
+
+function setup(options: MockPanelOptions = {}) {
+    const panel = createMockPanel(options);
+    const xui = createClient({
+        baseUrl: panel.baseUrl,
+        username: 'admin',
+        password: 'admin',
+        transport: panel.transport,
+        retryAttempts: 0
+    });
+
+    return { panel, xui };
+}
+
+function countRequests(panel: ReturnType<typeof createMockPanel>, path: string): number {
+    return panel.requests.filter(request => request.path === path).length;
+}
+
+describe('panel settings', () => {
+    test('update reports changed settings and keeps the rest', async () => {
+        const { xui } = setup();
+
+        const result = await xui.settings.update({ pageSize: 25, subEnable: true, webPort: 2053 });
+
+        expect(result.changes).toEqual([
+            { key: 'pageSize', from: 50, to: 25 },
+            { key: 'subEnable', from: false, to: true }
+        ]);
+
+        const settings = await xui.settings.getAll();
+        expect(settings.pageSize).toBe(25);
+        expect(settings.subEnable).toBe(true);
+        expect(settings.subPort).toBe(2096);
+    });
+
+    test('update without changes does not write', async () => {
+        const { panel, xui } = setup({ settings: { pageSize: 25 } });
+
+        const result = await xui.settings.update({ pageSize: 25 });
+
+        expect(result.changes).toEqual([]);
+        expect(countRequests(panel, '/panel/setting/update')).toBe(0);
+    });
+
+    test('invalid settings are rejected before any request', async () => {
+        const { panel, xui } = setup();
+
+        await expect(xui.settings.update({ webPort: 70000 })).rejects.toBeInstanceOf(ValidationError);
+        await expect(xui.settings.update({ subPath: 'sub' })).rejects.toThrow('Path must start and end with "/"');
+        await expect(xui.settings.update({ pageSize: 2.5 })).rejects.toThrow('pageSize must be a non-negative integer');
+
+        expect(panel.requests).toEqual([]);
+    });
+
+    test('panel and subscription ports must differ when subscriptions are enabled', async () => {
+        const { panel, xui } = setup({ settings: { subEnable: true } });
+
+        await expect(xui.settings.update({ subPort: 2053 })).rejects.toThrow('Panel and subscription ports must differ');
+        expect(countRequests(panel, '/panel/setting/update')).toBe(0);
+
+        await xui.settings.update({ subEnable: false });
+        const result = await xui.settings.update({ subPort: 2053 });
+        expect(result.changes).toEqual([{ key: 'subPort', from: 2096, to: 2053 }]);
+    });
+
+    test('subscription settings map to panel keys', async () => {
+        const { xui } = setup();
+
+        const result = await xui.settings.updateSubscriptionSettings({ enable: true, path: '/feed/', encrypt: false });
+
+        expect(result.changes).toEqual([
+            { key: 'enable', from: false, to: true },
+            { key: 'path', from: '/sub/', to: '/feed/' },
+            { key: 'encrypt', from: true, to: false }
+        ]);
+        expect(result.settings.path).toBe('/feed/');
+
+        const settings = await xui.settings.getAll();
+        expect(settings.subEnable).toBe(true);
+        expect(settings.subPath).toBe('/feed/');
+        expect(settings.subEncrypt).toBe(false);
+    });
+
+    test('unknown subscription setting is rejected', async () => {
+        const { xui } = setup();
+
+        const changes = { refresh: 5 } as Record<string, unknown>;
+        await expect(xui.settings.updateSubscriptionSettings(changes)).rejects.toThrow('Unknown subscription setting: refresh');
+    });
+
+    test('restart panel', async () => {
+        const { panel, xui } = setup();
+
+        expect(await xui.settings.restartPanel()).toBe(true);
+        expect(panel.panelRestarts).toBe(1);
+    });
+});
+
+describe('admin credentials', () => {
+    test('client logs in with the new credentials after a change', async () => {
+        const { panel, xui } = setup();
+
+        await xui.settings.updateAdminCredentials({
+            oldUsername: 'admin',
+            oldPassword: 'admin',
+            newUsername: 'root',
+            newPassword: 's3cret'
+        });
+
+        panel.expireSessions();
+        const settings = await xui.settings.getAll();
+
+        expect(settings.webPort).toBe(2053);
+        expect(panel.loginCount).toBe(2);
+
+        const stale = createClient({
+            baseUrl: panel.baseUrl,
+            username: 'admin',
+            password: 'admin',
+            transport: panel.transport,
+            retryAttempts: 0
+        });
+        await expect(stale.settings.getAll()).rejects.toThrow();
+    });
+
+    test('wrong current password keeps the old credentials', async () => {
+        const { panel, xui } = setup();
+
+        await expect(xui.settings.updateAdminCredentials({
+            oldUsername: 'admin',
+            oldPassword: 'wrong',
+            newUsername: 'root',
+            newPassword: 's3cret'
+        })).rejects.toThrow('Failed to update admin credentials');
+
+        panel.expireSessions();
+        expect((await xui.settings.getAll()).webPort).toBe(2053);
+    });
+
+    test('empty new credentials are rejected', async () => {
+        const { panel, xui } = setup();
+
+        await expect(xui.settings.updateAdminCredentials({
+            oldUsername: 'admin',
+            oldPassword: 'admin',
+            newUsername: ' ',
+            newPassword: 's3cret'
+        })).rejects.toBeInstanceOf(ValidationError);
+
+        expect(panel.requests).toEqual([]);
+    });
+});
@@ -0,0 +1,279 @@
+import { XUIClient } from './client';
+import {
+    type AdminCredentialsUpdate,
+    type ApiResponse,
+    type PanelDefaultSettings,
+    type PanelSettings,
+    type PanelSettingsResponse,
+    type SettingChange,
+    type SettingsUpdateResult,
+    type SubscriptionSettings,
+    ValidationError
+} from './types';
+
+import { createErrorWithContext, validatePort } from './utils';
+
+/** SubscriptionSettings field → PanelSettings field */
+const SUBSCRIPTION_SETTING_KEYS = {
+    enable: 'subEnable',
+    jsonEnable: 'subJsonEnable',
+    title: 'subTitle',
+    listen: 'subListen',
+    port: 'subPort',
+    path: 'subPath',
+    domain: 'subDomain',
+    certFile: 'subCertFile',
+    keyFile: 'subKeyFile',
+    updates: 'subUpdates',
+    encrypt: 'subEncrypt',
+    showInfo: 'subShowInfo',
+    uri: 'subURI',
+    jsonPath: 'subJsonPath',
+    jsonUri: 'subJsonURI'
+} as const satisfies Record<keyof SubscriptionSettings, keyof PanelSettings>;
+
+/**
+ * Settings manager for panel, subscription and admin account settings
+ */
+export class SettingsManager {
+    constructor(private client: XUIClient) { }
+
+    /**
+     * Get all panel settings
+     */
+    async getAll(): Promise<PanelSettings> {
+        try {
+            const response = await this.client.post<PanelSettingsResponse>(
+                this.getPath('/all')
+            );
+
+            if (!response.success || !response.obj) {
+                throw new Error(response.message || 'Failed to get settings');
+            }
+
+            return response.obj;
+        } catch (error) {
+            throw createErrorWithContext(error, {
+                operation: 'getSettings'
+            }, 'Failed to get panel settings');
+        }
+    }
+
+    /**
+     * Update panel settings. Unspecified settings keep their current values.
+     * Some settings (web port, base path, certificates) apply after restartPanel().
+     */
+    async update(changes: Partial<PanelSettings>): Promise<SettingsUpdateResult<PanelSettings>> {
+        this.validateSettings(changes);
+
+        const current = await this.getAll();
+        const updated: PanelSettings = { ...current, ...changes };
+
+        if (updated.subEnable && updated.webPort === updated.subPort) {
+            throw new ValidationError('Panel and subscription ports must differ', 'subPort');
+        }
+
+        const diff = diffSettings(current, updated);
+
+        if (diff.length === 0) {
+            return { settings: current, changes: [] };
+        }
+
+        try {
+            const response = await this.client.post<ApiResponse>(
+                this.getPath('/update'),
+                updated
+            );
+
+            if (!response.success) {
+                throw new Error(response.message || 'Failed to update settings');
+            }
+
+            this.client.getLogger().info(`Updated panel settings: ${diff.map(change => change.key).join(', ')}`, {
+                operation: 'updateSettings',
+                keys: diff.map(change => change.key)
+            });
+
+            return { settings: updated, changes: diff };
+        } catch (error) {
+            throw createErrorWithContext(error, {
+                operation: 'updateSettings',
+                keys: diff.map(change => change.key)
+            }, 'Failed to update panel settings');
+        }
+    }
+
+    /**
+     * Get defaults the panel uses for new inbounds and clients
+     */
+    async getDefaults(): Promise<PanelDefaultSettings> {
+        try {
+            const response = await this.client.post<ApiResponse<PanelDefaultSettings>>(
+                this.getPath('/defaultSettings')
+            );
+
+            if (!response.success || !response.obj) {
+                throw new Error(response.message || 'Failed to get default settings');
+            }
+
+            return response.obj;
+        } catch (error) {
+            throw createErrorWithContext(error, {
+                operation: 'getDefaultSettings'
+            }, 'Failed to get default settings');
+        }
+    }
+
+    /**
+     * Get subscription service settings
+     */
+    async getSubscriptionSettings(): Promise<SubscriptionSettings> {
+        return toSubscriptionSettings(await this.getAll());
+    }
+
+    /**
+     * Update subscription service settings (port, path, domain, encryption, JSON subscription)
+     */
+    async updateSubscriptionSettings(
+        changes: Partial<SubscriptionSettings>
+    ): Promise<SettingsUpdateResult<SubscriptionSettings>> {
+        const panelChanges: Partial<PanelSettings> = {};
+
+        for (const [key, value] of Object.entries(changes)) {
+            const panelKey = SUBSCRIPTION_SETTING_KEYS[key as keyof SubscriptionSettings];
+
+            if (!panelKey) {
+                throw new ValidationError(`Unknown subscription setting: ${key}`, key);
+            }
+
+            (panelChanges as Record<string, unknown>)[panelKey] = value;
+        }
+
+        const result = await this.update(panelChanges);
+        const subscriptionKeys = Object.entries(SUBSCRIPTION_SETTING_KEYS)
+            .map(([key, panelKey]) => [panelKey, key as keyof SubscriptionSettings] as const);
+        const keyByPanelKey = new Map<string, keyof SubscriptionSettings>(subscriptionKeys);
+
+        return {
+            settings: toSubscriptionSettings(result.settings),
+            changes: result.changes
+                .filter(change => keyByPanelKey.has(change.key))
+                .map(change => ({ ...change, key: keyByPanelKey.get(change.key)! }))
+        };
+    }
+
+    /**
+     * Change admin username and password. The client keeps working with the new credentials.
+     */
+    async updateAdminCredentials(credentials: AdminCredentialsUpdate): Promise<boolean> {
+        const { oldUsername, oldPassword, newUsername, newPassword } = credentials;
+
+        if (!oldUsername || !oldPassword) {
+            throw new ValidationError('Current username and password are required', 'oldPassword');
+        }
+
+        if (!newUsername?.trim() || !newPassword) {
+            throw new ValidationError('New username and password are required', 'newPassword');
+        }
+
+        try {
+            const response = await this.client.post<ApiResponse>(
+                this.getPath('/updateUser'),
+                { oldUsername, oldPassword, newUsername, newPassword }
+            );
+
+            if (!response.success) {
+                throw new Error(response.message || 'Failed to update admin credentials');
+            }
+
+            await this.client.updateCredentials(newUsername, newPassword);
+            this.client.getLogger().info('Updated admin credentials', { operation: 'updateAdminCredentials' });
+            return true;
+        } catch (error) {
+            throw createErrorWithContext(error, {
+                operation: 'updateAdminCredentials',
+                newUsername
+            }, 'Failed to update admin credentials');
+        }
+    }
+
+    /**
+     * Restart panel to apply web server settings
+     */
+    async restartPanel(): Promise<boolean> {
+        try {
+            const response = await this.client.post<ApiResponse>(
+                this.getPath('/restartPanel')
+            );
+
+            if (!response.success) {
+                throw new Error(response.message || 'Failed to restart panel');
+            }
+
+            this.client.getLogger().info('Panel restart requested', { operation: 'restartPanel' });
+            return true;
+        } catch (error) {
+            throw createErrorWithContext(error, {
+                operation: 'restartPanel'
+            }, 'Failed to restart panel');
+        }
+    }
+
+    /**
+     * Validate settings before sending them to the panel
+     */
+    private validateSettings(settings: Partial<PanelSettings>): void {
+        for (const key of ['webPort', 'subPort'] as const) {
+            const port = settings[key];
+            if (port !== undefined && !validatePort(port)) {
+                throw new ValidationError('Invalid port number', key);
+            }
+        }
+
+        for (const key of ['webBasePath', 'subPath', 'subJsonPath'] as const) {
+            const path = settings[key];
+            if (path !== undefined && (!path.startsWith('/') || !path.endsWith('/'))) {
+                throw new ValidationError('Path must start and end with "/"', key);
+            }
+        }
+
+        for (const key of ['sessionMaxAge', 'pageSize', 'expireDiff', 'trafficDiff', 'subUpdates', 'tgCpu'] as const) {
+            const value = settings[key];
+            if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+                throw new ValidationError(`${key} must be a non-negative integer`, key);
+            }
+        }
+    }
+
+    /**
+     * Get API path for settings operations
+     */
+    private getPath(subPath: string): string {
+        return `/panel/setting${subPath}`;
+    }
+}
+
+function toSubscriptionSettings(settings: PanelSettings): SubscriptionSettings {
+    const result = {} as Record<string, unknown>;
+
+    for (const [key, panelKey] of Object.entries(SUBSCRIPTION_SETTING_KEYS)) {
+        result[key] = settings[panelKey];
+    }
+
+    return result as unknown as SubscriptionSettings;
+}
+
+/**
+ * List settings whose values differ
+ */
+function diffSettings<T extends object>(before: T, after: T): SettingChange<Extract<keyof T, string>>[] {
+    const changes: SettingChange<Extract<keyof T, string>>[] = [];
+
+    for (const key of Object.keys(after) as Extract<keyof T, string>[]) {
+        if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+            changes.push({ key, from: before[key], to: after[key] });
+        }
+    }
+
+    return changes;
+}
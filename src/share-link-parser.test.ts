@@ -0,0 +1,113 @@
+import { describe, expect, test } from 'bun:test';
+
+import { ValidationError, buildShareLink, clientFromShareLink, parseShareLink } from './index';
+import type { Inbound, InboundStreamSettings, TrojanClient, VlessClient } from './types';
+
+const CLIENT_ID = '4f9b3b6e-3c0a-4e47-9a55-6f0b6c4d2a11';
+
+function inbound(protocol: Inbound['protocol'], streamSettings: InboundStreamSettings): Inbound {
+    return {
+        id: 1,
+        userId: 1,
+        up: 0,
+        down: 0,
+        total: 0,
+        remark: 'main',
+        enable: true,
+        expiryTime: 0,
+        clientStats: [],
+        listen: '',
+        port: 443,
+        protocol,
+        settings: { decryption: 'none' },
+        streamSettings,
+        tag: 'inbound-443',
+        sniffing: { enabled: false, destOverride: [] }
+    };
+}
+
+const base = { email: 'alice', enable: true, limitIp: 0, totalGB: 0, expiryTime: 0, subId: 'sub', reset: 0 };
+
+describe('parseShareLink', () => {
+    test('reads back a built vless reality link', () => {
+        const client: VlessClient = { ...base, id: CLIENT_ID, flow: 'xtls-rprx-vision' };
+        const link = buildShareLink(inbound('vless', {
+            network: 'tcp',
+            security: 'reality',
+            realitySettings: {
+                serverNames: ['www.google.com'],
+                shortIds: ['6ba8'],
+                settings: { publicKey: 'pbk-value', fingerprint: 'chrome' }
+            }
+        }), client, { address: '2001:db8::1' });
+
+        expect(parseShareLink(link)).toEqual({
+            protocol: 'vless',
+            address: '2001:db8::1',
+            port: 443,
+            id: CLIENT_ID,
+            flow: 'xtls-rprx-vision',
+            streamSettings: {
+                network: 'tcp',
+                security: 'reality',
+                realitySettings: {
+                    serverNames: ['www.google.com'],
+                    shortIds: ['6ba8'],
+                    settings: { publicKey: 'pbk-value', fingerprint: 'chrome', serverName: 'www.google.com', spiderX: '' }
+                }
+            },
+            remark: 'main-alice'
+        });
+    });
+
+    test('reads vmess JSON links', () => {
+        const config = { v: '2', ps: 'vm', add: 'vpn.example.com', port: '8080', id: CLIENT_ID, aid: 0, scy: 'auto', net: 'grpc', type: 'multi', host: '', path: 'svc', tls: 'tls', sni: 'vpn.example.com' };
+        const parsed = parseShareLink(`vmess://${Buffer.from(JSON.stringify(config)).toString('base64')}`);
+
+        expect(parsed).toMatchObject({ protocol: 'vmess', address: 'vpn.example.com', port: 8080, id: CLIENT_ID, remark: 'vm' });
+        expect(parsed.streamSettings).toMatchObject({
+            network: 'grpc',
+            security: 'tls',
+            grpcSettings: { serviceName: 'svc', multiMode: true },
+            tlsSettings: { serverName: 'vpn.example.com' }
+        });
+    });
+
+    test('reads SIP002 and legacy shadowsocks links', () => {
+        const sip002 = parseShareLink(`ss://${Buffer.from('2022-blake3-aes-128-gcm:server:user').toString('base64url')}@1.2.3.4:8388#ss`);
+        expect(sip002).toMatchObject({ protocol: 'shadowsocks', method: '2022-blake3-aes-128-gcm', password: 'user', serverPassword: 'server' });
+
+        const legacy = parseShareLink(`ss://${Buffer.from('aes-256-gcm:secret@1.2.3.4:8388').toString('base64')}#old`);
+        expect(legacy).toMatchObject({ protocol: 'shadowsocks', address: '1.2.3.4', port: 8388, method: 'aes-256-gcm', password: 'secret', remark: 'old' });
+    });
+
+    test('maps raw to tcp and splithttp to xhttp', () => {
+        const raw = parseShareLink(`vless://${CLIENT_ID}@1.2.3.4:443?type=raw&headerType=http&path=%2Fa&host=example.com`);
+        expect(raw.streamSettings).toEqual({
+            network: 'tcp',
+            security: 'none',
+            tcpSettings: { header: { type: 'http', request: { path: ['/a'], headers: { Host: ['example.com'] } } } }
+        });
+
+        const xhttp = parseShareLink(`vless://${CLIENT_ID}@1.2.3.4:443?type=splithttp&path=%2Fx&mode=stream-up`);
+        expect(xhttp.streamSettings).toEqual({ network: 'xhttp', security: 'none', xhttpSettings: { path: '/x', mode: 'stream-up' } });
+    });
+
+    test('rejects invalid links with ValidationError', () => {
+        expect(() => parseShareLink('http://example.com')).toThrow('Unsupported share link scheme: http');
+        expect(() => parseShareLink('vless://not-a-uuid@1.2.3.4:443')).toThrow('Invalid VLESS UUID');
+        expect(() => parseShareLink(`vless://${CLIENT_ID}@1.2.3.4:443?security=reality`)).toThrow('Reality public key (pbk) is missing');
+        expect(() => parseShareLink(`vless://${CLIENT_ID}@1.2.3.4:443?type=kcp`)).toThrow('Unsupported transport: kcp');
+        expect(() => parseShareLink('trojan://%E0%A4%A@1.2.3.4:443')).toThrow(ValidationError);
+    });
+});
+
+describe('clientFromShareLink', () => {
+    test('builds a client ready to add', () => {
+        const parsed = parseShareLink('trojan://secret@1.2.3.4:443?security=tls&sni=example.com#t');
+        const client = clientFromShareLink(parsed, { email: 'bob', subId: 'sub-1' }) as TrojanClient;
+
+        expect(client).toMatchObject({ email: 'bob', subId: 'sub-1', password: 'secret', enable: true });
+        expect(client.id).toBeTruthy();
+    });
+});
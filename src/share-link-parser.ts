@@ -0,0 +1,385 @@
+import { ValidationError } from './types';
+import type {
+    BaseClient,
+    Client,
+    InboundStreamSettings,
+    ParsedShareLink,
+    VmessClient,
+    VlessClient,
+    TrojanClient,
+    ShadowsocksClient
+} from './types';
+
+import {
+    decodeBase64,
+    validatePort,
+    validateUUID,
+    generateUUID,
+    generateRandomEmail,
+    safeJsonParse
+} from './utils';
+
+/** Transport names of other Xray versions: newer Xray calls tcp "raw", older Xray calls xhttp "splithttp" */
+const NETWORK_ALIASES: Record<string, string> = {
+    raw: 'tcp',
+    splithttp: 'xhttp'
+};
+
+/**
+ * Parse share link (vless://, vmess://, trojan://, ss://) into typed description
+ */
+export function parseShareLink(link: string): ParsedShareLink {
+    if (!link?.trim()) {
+        throw new ValidationError('Share link is required', 'link');
+    }
+
+    const trimmed = link.trim();
+    const scheme = trimmed.slice(0, trimmed.indexOf('://')).toLowerCase();
+
+    switch (scheme) {
+        case 'vless':
+            return parseVlessLink(trimmed);
+        case 'vmess':
+            return parseVmessLink(trimmed);
+        case 'trojan':
+            return parseTrojanLink(trimmed);
+        case 'ss':
+            return parseShadowsocksLink(trimmed);
+        default:
+            throw new ValidationError(`Unsupported share link scheme: ${scheme || 'none'}`, 'link');
+    }
+}
+
+/**
+ * Create client object from parsed share link, ready for ClientManager.addClient
+ */
+export function clientFromShareLink(parsed: ParsedShareLink, overrides: Partial<BaseClient> = {}): Client {
+    const baseClient = {
+        id: parsed.id ?? generateUUID(),
+        email: generateRandomEmail(),
+        enable: true,
+        limitIp: 0,
+        totalGB: 0,
+        expiryTime: 0,
+        subId: '',
+        reset: 0,
+        ...overrides
+    };
+
+    switch (parsed.protocol) {
+        case 'vmess':
+            return {
+                ...baseClient,
+                alterId: parsed.alterId ?? 0,
+                security: parsed.security ?? 'auto'
+            } as VmessClient;
+
+        case 'vless':
+            return {
+                ...baseClient,
+                flow: parsed.flow ?? ''
+            } as VlessClient;
+
+        case 'trojan':
+            return {
+                ...baseClient,
+                password: parsed.password!
+            } as TrojanClient;
+
+        case 'shadowsocks':
+            return {
+                ...baseClient,
+                method: parsed.method!,
+                password: parsed.password!
+            } as ShadowsocksClient;
+    }
+}
+
+function parseVlessLink(link: string): ParsedShareLink {
+    const url = parseUrl(link);
+    const id = decodeComponent(url.username);
+
+    if (!validateUUID(id)) {
+        throw new ValidationError('Invalid VLESS UUID', 'id');
+    }
+
+    const params = url.searchParams;
+
+    return {
+        protocol: 'vless',
+        ...parseEndpoint(url),
+        id,
+        flow: params.get('flow') ?? '',
+        streamSettings: streamSettingsFromParams(params),
+        remark: parseRemark(url)
+    };
+}
+
+function parseVmessLink(link: string): ParsedShareLink {
+    const payload = link.slice('vmess://'.length).split('#')[0] ?? '';
+    const config = safeJsonParse<Record<string, any> | null>(decodeBase64(payload), null);
+
+    if (!config || typeof config !== 'object') {
+        throw new ValidationError('Invalid VMESS link payload', 'link');
+    }
+
+    if (!validateUUID(String(config.id ?? ''))) {
+        throw new ValidationError('Invalid VMESS UUID', 'id');
+    }
+
+    const port = Number(config.port);
+    if (!validatePort(port)) {
+        throw new ValidationError('Invalid port number', 'port');
+    }
+
+    if (!config.add) {
+        throw new ValidationError('Server address is missing', 'address');
+    }
+
+    const network = String(config.net || 'tcp');
+    const params = new URLSearchParams();
+    params.set('type', network);
+    params.set('security', config.tls === 'tls' ? 'tls' : 'none');
+
+    if (network === 'grpc') {
+        params.set('serviceName', config.path ?? '');
+        params.set('mode', config.type === 'multi' ? 'multi' : 'gun');
+        if (config.host) params.set('authority', config.host);
+    } else {
+        if (config.path) params.set('path', config.path);
+        if (config.host) params.set('host', config.host);
+        if (config.type && config.type !== 'none') params.set('headerType', config.type);
+    }
+
+    if (config.sni) params.set('sni', config.sni);
+    if (config.alpn) params.set('alpn', config.alpn);
+    if (config.fp) params.set('fp', config.fp);
+
+    return {
+        protocol: 'vmess',
+        address: String(config.add),
+        port,
+        id: String(config.id),
+        alterId: Number(config.aid) || 0,
+        security: config.scy || 'auto',
+        streamSettings: streamSettingsFromParams(params),
+        remark: String(config.ps ?? '')
+    };
+}
+
+function parseTrojanLink(link: string): ParsedShareLink {
+    const url = parseUrl(link);
+    const password = decodeComponent(url.username);
+
+    if (!password) {
+        throw new ValidationError('Trojan password is missing', 'password');
+    }
+
+    return {
+        protocol: 'trojan',
+        ...parseEndpoint(url),
+        password,
+        streamSettings: streamSettingsFromParams(url.searchParams),
+        remark: parseRemark(url)
+    };
+}
+
+function parseShadowsocksLink(link: string): ParsedShareLink {
+    let normalized = link;
+
+    // Legacy format: ss://base64(method:password@host:port)#remark
+    if (!link.slice('ss://'.length).split('#')[0]?.includes('@')) {
+        const [payload = '', fragment] = link.slice('ss://'.length).split('#');
+        normalized = `ss://${decodeBase64(payload.split('?')[0] ?? '')}${fragment !== undefined ? `#${fragment}` : ''}`;
+    }
+
+    const url = parseUrl(normalized);
+    const userInfo = url.password
+        ? `${decodeComponent(url.username)}:${decodeComponent(url.password)}`
+        : decodeUserInfo(decodeComponent(url.username));
+
+    const separator = userInfo.indexOf(':');
+    if (separator <= 0) {
+        throw new ValidationError('Shadowsocks credentials must be in "method:password" form', 'password');
+    }
+
+    const method = userInfo.slice(0, separator);
+    const passwords = userInfo.slice(separator + 1);
+
+    if (!passwords) {
+        throw new ValidationError('Shadowsocks password is missing', 'password');
+    }
+
+    // 2022 methods with multiple users carry "serverKey:userKey"
+    const keyParts = method.startsWith('2022') ? passwords.split(':') : [passwords];
+    const password = keyParts[keyParts.length - 1]!;
+    const serverPassword = keyParts.length > 1 ? keyParts[0] : undefined;
+
+    const params = url.searchParams;
+    if (!params.has('type')) {
+        params.set('type', 'tcp');
+    }
+
+    return {
+        protocol: 'shadowsocks',
+        ...parseEndpoint(url),
+        method,
+        password,
+        ...(serverPassword ? { serverPassword } : {}),
+        streamSettings: streamSettingsFromParams(params),
+        remark: parseRemark(url)
+    };
+}
+
+/**
+ * Build stream settings from share link query parameters
+ */
+function streamSettingsFromParams(params: URLSearchParams): InboundStreamSettings {
+    const type = params.get('type') || 'tcp';
+    const network = NETWORK_ALIASES[type] ?? type;
+    const security = params.get('security') || 'none';
+    const path = params.get('path') ?? undefined;
+    const host = params.get('host') ?? undefined;
+
+    const stream: InboundStreamSettings = { network, security };
+
+    switch (network) {
+        case 'tcp':
+            if (params.get('headerType') === 'http') {
+                stream.tcpSettings = {
+                    header: {
+                        type: 'http',
+                        request: {
+                            path: path ? [path] : ['/'],
+                            headers: host ? { Host: [host] } : {}
+                        }
+                    }
+                };
+            }
+            break;
+
+        case 'ws':
+            stream.wsSettings = { path: path || '/', ...(host ? { host } : {}) };
+            break;
+
+        case 'grpc':
+            stream.grpcSettings = {
+                serviceName: params.get('serviceName') ?? '',
+                multiMode: params.get('mode') === 'multi',
+                ...(params.get('authority') ? { authority: params.get('authority')! } : {})
+            };
+            break;
+
+        case 'httpupgrade':
+            stream.httpupgradeSettings = { path: path || '/', ...(host ? { host } : {}) };
+            break;
+
+        case 'xhttp':
+            stream.xhttpSettings = {
+                path: path || '/',
+                ...(host ? { host } : {}),
+                ...(params.get('mode') ? { mode: params.get('mode')! } : {})
+            };
+            break;
+
+        default:
+            throw new ValidationError(`Unsupported transport: ${network}`, 'type');
+    }
+
+    switch (security) {
+        case 'none':
+            break;
+
+        case 'tls': {
+            const alpn = params.get('alpn');
+            stream.tlsSettings = {
+                serverName: params.get('sni') ?? '',
+                certificates: [],
+                ...(alpn ? { alpn: alpn.split(',') } : {}),
+                settings: {
+                    allowInsecure: params.get('allowInsecure') === '1' || params.get('allowInsecure') === 'true',
+                    fingerprint: params.get('fp') ?? ''
+                }
+            };
+            break;
+        }
+
+        case 'reality': {
+            const publicKey = params.get('pbk');
+            if (!publicKey) {
+                throw new ValidationError('Reality public key (pbk) is missing', 'pbk');
+            }
+
+            const serverName = params.get('sni') ?? '';
+            stream.realitySettings = {
+                serverNames: serverName ? [serverName] : [],
+                shortIds: [params.get('sid') ?? ''],
+                settings: {
+                    publicKey,
+                    fingerprint: params.get('fp') || 'chrome',
+                    serverName,
+                    spiderX: params.get('spx') ?? ''
+                }
+            };
+            break;
+        }
+
+        default:
+            throw new ValidationError(`Unsupported security: ${security}`, 'security');
+    }
+
+    return stream;
+}
+
+function parseUrl(link: string): URL {
+    try {
+        return new URL(link);
+    } catch (error) {
+        throw new ValidationError(`Malformed share link: ${(error as Error).message}`, 'link');
+    }
+}
+
+function parseEndpoint(url: URL): { address: string; port: number } {
+    const address = url.hostname.replace(/^\[|\]$/g, '');
+    const port = Number(url.port);
+
+    if (!address) {
+        throw new ValidationError('Server address is missing', 'address');
+    }
+
+    if (!validatePort(port)) {
+        throw new ValidationError('Invalid port number', 'port');
+    }
+
+    return { address, port };
+}
+
+/**
+ * Decode percent-escaped link part, malformed escapes are a link error
+ */
+function decodeComponent(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        throw new ValidationError('Malformed percent-encoding in share link', 'link');
+    }
+}
+
+function parseRemark(url: URL): string {
+    try {
+        return decodeURIComponent(url.hash.replace(/^#/, ''));
+    } catch {
+        return url.hash.replace(/^#/, '');
+    }
+}
+
+/**
+ * Decode SIP002 user info, which is base64 unless it is already "method:password"
+ */
+function decodeUserInfo(userInfo: string): string {
+    if (userInfo.includes(':')) {
+        return userInfo;
+    }
+
+    return decodeBase64(userInfo);
+}
@@ -0,0 +1,189 @@
+import { describe, expect, test } from 'bun:test';
+
+import { ValidationError, buildShareLink, buildSubscriptionLinks } from './index';
+import type {
+    Client,
+    Inbound,
+    InboundSettings,
+    InboundStreamSettings,
+    ShadowsocksClient,
+    SubscriptionInfo,
+    TrojanClient,
+    VlessClient,
+    VmessClient
+} from './types';
+
+const CLIENT_ID = '4f9b3b6e-3c0a-4e47-9a55-6f0b6c4d2a11';
+
+function inbound(
+    protocol: Inbound['protocol'],
+    streamSettings: InboundStreamSettings,
+    settings: InboundSettings = {}
+): Inbound {
+    return {
+        id: 1,
+        userId: 1,
+        up: 0,
+        down: 0,
+        total: 0,
+        remark: 'main',
+        enable: true,
+        expiryTime: 0,
+        clientStats: [],
+        listen: '',
+        port: 443,
+        protocol,
+        settings,
+        streamSettings,
+        tag: 'inbound-443',
+        sniffing: { enabled: false, destOverride: [] }
+    };
+}
+
+const base = { email: 'alice', enable: true, limitIp: 0, totalGB: 0, expiryTime: 0, subId: 'sub', reset: 0 };
+
+const options = { address: 'vpn.example.com' };
+
+describe('buildShareLink', () => {
+    test('vless over reality carries key, sni, short id and flow', () => {
+        const client: VlessClient = { ...base, id: CLIENT_ID, flow: 'xtls-rprx-vision' };
+        const link = buildShareLink(inbound('vless', {
+            network: 'tcp',
+            security: 'reality',
+            realitySettings: {
+                serverNames: ['www.google.com'],
+                shortIds: ['6ba85179e30d4fc2'],
+                settings: { publicKey: 'pbk-value', fingerprint: 'firefox' }
+            }
+        }, { decryption: 'none' }), client, options);
+
+        const url = new URL(link);
+        expect(url.protocol).toBe('vless:');
+        expect(url.username).toBe(CLIENT_ID);
+        expect(url.host).toBe('vpn.example.com:443');
+        expect(Object.fromEntries(url.searchParams)).toEqual({
+            type: 'tcp',
+            encryption: 'none',
+            security: 'reality',
+            pbk: 'pbk-value',
+            fp: 'firefox',
+            sni: 'www.google.com',
+            sid: '6ba85179e30d4fc2',
+            flow: 'xtls-rprx-vision'
+        });
+        expect(decodeURIComponent(url.hash.slice(1))).toBe('main-alice');
+    });
+
+    test('vmess link is base64 JSON with transport fields', () => {
+        const client: VmessClient = { ...base, id: CLIENT_ID, alterId: 0, security: 'auto' };
+        const link = buildShareLink(inbound('vmess', {
+            network: 'ws',
+            security: 'tls',
+            wsSettings: { path: '/ws', headers: { Host: 'cdn.example.com' } },
+            tlsSettings: { serverName: 'cdn.example.com', certificates: [], alpn: ['h2', 'http/1.1'] }
+        }), client, options);
+
+        expect(link).toStartWith('vmess://');
+        expect(JSON.parse(Buffer.from(link.slice('vmess://'.length), 'base64').toString())).toEqual({
+            v: '2',
+            ps: 'main-alice',
+            add: 'vpn.example.com',
+            port: 443,
+            id: CLIENT_ID,
+            aid: 0,
+            scy: 'auto',
+            net: 'ws',
+            type: 'none',
+            host: 'cdn.example.com',
+            path: '/ws',
+            tls: 'tls',
+            sni: 'cdn.example.com',
+            alpn: 'h2,http/1.1',
+            fp: ''
+        });
+    });
+
+    test('trojan over grpc escapes the password', () => {
+        const client: TrojanClient = { ...base, id: CLIENT_ID, password: 'p@ss word' };
+        const link = buildShareLink(inbound('trojan', {
+            network: 'grpc',
+            security: 'tls',
+            grpcSettings: { serviceName: 'svc', multiMode: true },
+            tlsSettings: { serverName: 'vpn.example.com', certificates: [] }
+        }), client, options);
+
+        const url = new URL(link);
+        expect(decodeURIComponent(url.username)).toBe('p@ss word');
+        expect(url.searchParams.get('type')).toBe('grpc');
+        expect(url.searchParams.get('serviceName')).toBe('svc');
+        expect(url.searchParams.get('mode')).toBe('multi');
+        expect(url.searchParams.get('sni')).toBe('vpn.example.com');
+    });
+
+    test('shadowsocks 2022 joins server and user keys', () => {
+        const client: ShadowsocksClient = { ...base, id: CLIENT_ID, method: '', password: 'user-key' };
+        const link = buildShareLink(inbound('shadowsocks', { network: 'tcp', security: 'none' }, {
+            method: '2022-blake3-aes-256-gcm',
+            password: 'server-key'
+        }), client, options);
+
+        const url = new URL(link);
+        expect(url.search).toBe('');
+        expect(Buffer.from(decodeURIComponent(url.username), 'base64url').toString())
+            .toBe('2022-blake3-aes-256-gcm:server-key:user-key');
+    });
+
+    test('raw transport is written as tcp with its header settings', () => {
+        const client: VlessClient = { ...base, id: CLIENT_ID, flow: '' };
+        const link = buildShareLink(inbound('vless', {
+            network: 'raw',
+            security: 'none',
+            rawSettings: { header: { type: 'http', request: { path: ['/index'], headers: { Host: ['example.com'] } } } }
+        }, { decryption: 'none' }), client, options);
+
+        const params = new URL(link).searchParams;
+        expect(params.get('type')).toBe('tcp');
+        expect(params.get('headerType')).toBe('http');
+        expect(params.get('path')).toBe('/index');
+        expect(params.get('host')).toBe('example.com');
+    });
+
+    test('xhttp transport carries path, host and mode', () => {
+        const client: VlessClient = { ...base, id: CLIENT_ID, flow: '' };
+        const link = buildShareLink(inbound('vless', {
+            network: 'xhttp',
+            security: 'none',
+            xhttpSettings: { path: '/x', host: 'example.com', mode: 'packet-up' }
+        }, { decryption: 'none' }), client, options);
+
+        const params = new URL(link).searchParams;
+        expect(params.get('type')).toBe('xhttp');
+        expect(params.get('path')).toBe('/x');
+        expect(params.get('host')).toBe('example.com');
+        expect(params.get('mode')).toBe('packet-up');
+    });
+
+    test('missing address and unsupported protocols are rejected', () => {
+        const client: Client = { ...base, id: CLIENT_ID, flow: '' };
+
+        expect(() => buildShareLink(inbound('vless', { network: 'tcp', security: 'none' }), client))
+            .toThrow(ValidationError);
+        expect(() => buildShareLink(inbound('wireguard', { network: 'tcp', security: 'none' }), client, options))
+            .toThrow('Share links are not supported for protocol wireguard');
+    });
+});
+
+describe('buildSubscriptionLinks', () => {
+    test('builds one link per subscription client and rejects unknown inbounds', () => {
+        const vless = inbound('vless', { network: 'tcp', security: 'none' }, { decryption: 'none' });
+        const subscription: SubscriptionInfo = {
+            subId: 'sub',
+            clients: [
+                { client: { ...base, id: CLIENT_ID, flow: '' }, inboundId: 1, inboundRemark: 'main', inboundProtocol: 'vless' }
+            ]
+        };
+
+        expect(buildSubscriptionLinks(subscription, [vless], options)).toHaveLength(1);
+        expect(() => buildSubscriptionLinks(subscription, [], options)).toThrow('Inbound 1 not found');
+    });
+});
@@ -0,0 +1,376 @@
+import { ValidationError } from './types';
+import type {
+    Client,
+    Inbound,
+    InboundSettings,
+    InboundStreamSettings,
+    ShareLinkOptions,
+    SkippedEndpoint,
+    SubscriptionEndpoint,
+    SubscriptionFeedOptions,
+    SubscriptionInfo,
+    VmessClient,
+    VlessClient,
+    TrojanClient,
+    ShadowsocksClient
+} from './types';
+
+import {
+    encodeBase64,
+    parseInboundField
+} from './utils';
+import { parseShareLink } from './share-link-parser';
+
+/**
+ * Build share link (vless://, vmess://, trojan://, ss://) for a client of an inbound
+ */
+export function buildShareLink(inbound: Inbound, client: Client, options: ShareLinkOptions = {}): string {
+    const address = resolveAddress(inbound, options);
+    const remark = options.remark ?? buildRemark(inbound, client);
+    const stream = normalizeStreamSettings(
+        parseInboundField<InboundStreamSettings>(inbound.streamSettings, { network: 'tcp', security: 'none' })
+    );
+
+    switch (inbound.protocol) {
+        case 'vless':
+            return buildVlessLink(inbound, client as VlessClient, stream, address, remark);
+        case 'vmess':
+            return buildVmessLink(inbound, client as VmessClient, stream, address, remark);
+        case 'trojan':
+            return buildTrojanLink(inbound, client as TrojanClient, stream, address, remark);
+        case 'shadowsocks':
+            return buildShadowsocksLink(inbound, client as ShadowsocksClient, stream, address, remark);
+        default:
+            throw new ValidationError(`Share links are not supported for protocol ${inbound.protocol}`, 'protocol');
+    }
+}
+
+/**
+ * Build share links for every client of a subscription
+ * @param inbounds Inbounds the subscription clients belong to (e.g. from InboundManager.getList)
+ */
+export function buildSubscriptionLinks(
+    subscription: SubscriptionInfo,
+    inbounds: Inbound[],
+    options: Omit<ShareLinkOptions, 'remark'> = {}
+): string[] {
+    const inboundsById = new Map(inbounds.map(inbound => [inbound.id, inbound]));
+    const links: string[] = [];
+
+    for (const clientInfo of subscription.clients) {
+        const inbound = inboundsById.get(clientInfo.inboundId);
+
+        if (!inbound) {
+            throw new ValidationError(`Inbound ${clientInfo.inboundId} not found for subscription ${subscription.subId}`, 'inboundId');
+        }
+
+        links.push(buildShareLink(inbound, clientInfo.client, options));
+    }
+
+    return links;
+}
+
+/**
+ * Resolve subscription clients into connection endpoints for config exporters.
+ * Clients whose inbound cannot be expressed as a share link are reported in `skipped`.
+ */
+export function resolveSubscriptionEndpoints(
+    subscription: SubscriptionInfo,
+    inbounds: Inbound[],
+    options: SubscriptionFeedOptions = {}
+): { endpoints: SubscriptionEndpoint[]; skipped: SkippedEndpoint[] } {
+    const activeSubscription = options.includeDisabled
+        ? subscription
+        : filterActiveClients(subscription, inbounds);
+
+    const inboundsById = new Map(inbounds.map(inbound => [inbound.id, inbound]));
+    const endpoints: SubscriptionEndpoint[] = [];
+    const skipped: SkippedEndpoint[] = [];
+
+    for (const clientInfo of activeSubscription.clients) {
+        const inbound = inboundsById.get(clientInfo.inboundId);
+
+        try {
+            if (!inbound) {
+                throw new ValidationError(`Inbound ${clientInfo.inboundId} not found`, 'inboundId');
+            }
+
+            const link = buildShareLink(inbound, clientInfo.client, { address: options.address });
+            endpoints.push({
+                ...parseShareLink(link),
+                inboundId: clientInfo.inboundId,
+                email: clientInfo.client.email,
+                link
+            });
+        } catch (error) {
+            if (!(error instanceof ValidationError)) {
+                throw error;
+            }
+
+            skipped.push({
+                inboundId: clientInfo.inboundId,
+                email: clientInfo.client.email,
+                protocol: clientInfo.inboundProtocol,
+                reason: error.message
+            });
+        }
+    }
+
+    return { endpoints, skipped };
+}
+
+/**
+ * Describe skipped endpoints for error messages
+ */
+export function describeSkippedEndpoints(skipped: SkippedEndpoint[]): string {
+    return skipped
+        .map(item => `${item.email} on inbound ${item.inboundId}: ${item.reason}`)
+        .join('; ');
+}
+
+/**
+ * Drop disabled clients and clients of disabled inbounds
+ */
+export function filterActiveClients(subscription: SubscriptionInfo, inbounds: Inbound[]): SubscriptionInfo {
+    const enabledInbounds = new Set(inbounds.filter(inbound => inbound.enable).map(inbound => inbound.id));
+
+    return {
+        ...subscription,
+        clients: subscription.clients.filter(clientInfo =>
+            clientInfo.client.enable && enabledInbounds.has(clientInfo.inboundId)
+        )
+    };
+}
+
+function buildVlessLink(
+    inbound: Inbound,
+    client: VlessClient,
+    stream: InboundStreamSettings,
+    address: string,
+    remark: string
+): string {
+    const settings = parseInboundField<InboundSettings>(inbound.settings, {});
+    const params = new URLSearchParams();
+
+    params.set('type', stream.network);
+    params.set('encryption', settings.decryption || 'none');
+    applyTransportParams(params, stream);
+    applySecurityParams(params, stream);
+
+    if (client.flow && stream.network === 'tcp' && (stream.security === 'tls' || stream.security === 'reality')) {
+        params.set('flow', client.flow);
+    }
+
+    return `vless://${client.id}@${formatHost(address)}:${inbound.port}?${params.toString()}#${encodeURIComponent(remark)}`;
+}
+
+function buildVmessLink(
+    inbound: Inbound,
+    client: VmessClient,
+    stream: InboundStreamSettings,
+    address: string,
+    remark: string
+): string {
+    const params = new URLSearchParams();
+    applyTransportParams(params, stream);
+    applySecurityParams(params, stream);
+
+    const config: Record<string, string | number> = {
+        v: '2',
+        ps: remark,
+        add: address,
+        port: inbound.port,
+        id: client.id,
+        aid: client.alterId ?? 0,
+        scy: client.security || 'auto',
+        net: stream.network,
+        type: params.get('headerType') ?? (stream.network === 'grpc' ? (params.get('mode') ?? 'gun') : 'none'),
+        host: params.get('host') ?? params.get('authority') ?? '',
+        path: params.get('path') ?? params.get('serviceName') ?? '',
+        tls: stream.security === 'tls' ? 'tls' : ''
+    };
+
+    if (stream.security === 'tls') {
+        config.sni = params.get('sni') ?? '';
+        config.alpn = params.get('alpn') ?? '';
+        config.fp = params.get('fp') ?? '';
+    }
+
+    return `vmess://${encodeBase64(JSON.stringify(config))}`;
+}
+
+function buildTrojanLink(
+    inbound: Inbound,
+    client: TrojanClient,
+    stream: InboundStreamSettings,
+    address: string,
+    remark: string
+): string {
+    const params = new URLSearchParams();
+
+    params.set('type', stream.network);
+    applyTransportParams(params, stream);
+    applySecurityParams(params, stream);
+
+    return `trojan://${encodeURIComponent(client.password)}@${formatHost(address)}:${inbound.port}?${params.toString()}#${encodeURIComponent(remark)}`;
+}
+
+function buildShadowsocksLink(
+    inbound: Inbound,
+    client: ShadowsocksClient,
+    stream: InboundStreamSettings,
+    address: string,
+    remark: string
+): string {
+    const settings = parseInboundField<InboundSettings>(inbound.settings, {});
+    const method = client.method || settings.method;
+
+    if (!method) {
+        throw new ValidationError('Shadowsocks method is required', 'method');
+    }
+
+    // 2022 methods with multiple users authenticate with "serverKey:userKey"
+    const password = method.startsWith('2022') && settings.password && settings.password !== client.password
+        ? `${settings.password}:${client.password}`
+        : client.password;
+
+    const params = new URLSearchParams();
+    params.set('type', stream.network);
+    applyTransportParams(params, stream);
+    applySecurityParams(params, stream);
+
+    if (params.get('security') === 'none') {
+        params.delete('security');
+    }
+
+    const userInfo = encodeBase64(`${method}:${password}`, true);
+    const query = params.toString() === 'type=tcp' ? '' : `?${params.toString()}`;
+
+    return `ss://${userInfo}@${formatHost(address)}:${inbound.port}${query}#${encodeURIComponent(remark)}`;
+}
+
+/**
+ * Map transport aliases of newer Xray to the names share links use: raw is tcp, splithttp is xhttp
+ */
+function normalizeStreamSettings(stream: InboundStreamSettings): InboundStreamSettings {
+    switch (stream.network) {
+        case 'raw':
+            return { ...stream, network: 'tcp', tcpSettings: stream.rawSettings ?? stream.tcpSettings };
+        case 'splithttp':
+            return { ...stream, network: 'xhttp', xhttpSettings: stream.xhttpSettings ?? stream.splithttpSettings };
+        default:
+            return stream;
+    }
+}
+
+/**
+ * Add network specific parameters (path, host, serviceName, header type, xhttp mode)
+ */
+function applyTransportParams(params: URLSearchParams, stream: InboundStreamSettings): void {
+    switch (stream.network) {
+        case 'tcp': {
+            const header = stream.tcpSettings?.header;
+            if (header?.type === 'http') {
+                params.set('headerType', 'http');
+                const path = header.request?.path?.[0];
+                const host = header.request?.headers?.Host?.[0] ?? header.request?.headers?.host?.[0];
+                if (path) params.set('path', path);
+                if (host) params.set('host', host);
+            }
+            break;
+        }
+
+        case 'ws': {
+            const ws = stream.wsSettings;
+            params.set('path', ws?.path || '/');
+            const host = ws?.host || ws?.headers?.Host || ws?.headers?.host;
+            if (host) params.set('host', host);
+            break;
+        }
+
+        case 'grpc': {
+            const grpc = stream.grpcSettings;
+            params.set('serviceName', grpc?.serviceName ?? '');
+            params.set('mode', grpc?.multiMode ? 'multi' : 'gun');
+            if (grpc?.authority) params.set('authority', grpc.authority);
+            break;
+        }
+
+        case 'httpupgrade': {
+            const httpUpgrade = stream.httpupgradeSettings;
+            params.set('path', httpUpgrade?.path || '/');
+            if (httpUpgrade?.host) params.set('host', httpUpgrade.host);
+            break;
+        }
+
+        case 'xhttp': {
+            const xhttp = stream.xhttpSettings;
+            params.set('path', xhttp?.path || '/');
+            if (xhttp?.host) params.set('host', xhttp.host);
+            if (xhttp?.mode) params.set('mode', xhttp.mode);
+            break;
+        }
+    }
+}
+
+/**
+ * Add security parameters (tls/reality)
+ */
+function applySecurityParams(params: URLSearchParams, stream: InboundStreamSettings): void {
+    switch (stream.security) {
+        case 'tls': {
+            const tls = stream.tlsSettings;
+            params.set('security', 'tls');
+            if (tls?.settings?.fingerprint) params.set('fp', tls.settings.fingerprint);
+            if (tls?.alpn?.length) params.set('alpn', tls.alpn.join(','));
+            if (tls?.serverName) params.set('sni', tls.serverName);
+            if (tls?.settings?.allowInsecure) params.set('allowInsecure', '1');
+            break;
+        }
+
+        case 'reality': {
+            const reality = stream.realitySettings;
+            params.set('security', 'reality');
+
+            if (!reality?.settings?.publicKey) {
+                throw new ValidationError('Reality public key is missing in stream settings', 'realitySettings.settings.publicKey');
+            }
+
+            params.set('pbk', reality.settings.publicKey);
+            params.set('fp', reality.settings.fingerprint || 'chrome');
+
+            const serverName = reality.settings.serverName || reality.serverNames?.[0];
+            if (serverName) params.set('sni', serverName);
+
+            const shortId = reality.shortIds?.[0];
+            if (shortId) params.set('sid', shortId);
+
+            if (reality.settings.spiderX) params.set('spx', reality.settings.spiderX);
+            break;
+        }
+
+        default:
+            params.set('security', 'none');
+    }
+}
+
+/**
+ * Resolve server address clients should connect to
+ */
+function resolveAddress(inbound: Inbound, options: ShareLinkOptions): string {
+    const address = options.address?.trim() || inbound.listen?.trim();
+
+    if (!address || address === '0.0.0.0' || address === '::') {
+        throw new ValidationError('Server address is required to build share link', 'address');
+    }
+
+    return address;
+}
+
+function buildRemark(inbound: Inbound, client: Client): string {
+    return client.email ? `${inbound.remark}-${client.email}` : inbound.remark;
+}
+
+function formatHost(address: string): string {
+    return address.includes(':') && !address.startsWith('[') ? `[${address}]` : address;
+}
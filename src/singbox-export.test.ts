@@ -0,0 +1,148 @@
+import { describe, expect, test } from 'bun:test';
+
+import { ValidationError, buildSingBoxConfig, createClient, createMockPanel, generateUUID } from './index';
+import type { Client, Inbound, InboundStreamSettings, SubscriptionInfo, VlessClient } from './types';
+
+function vlessInbound(id: number, streamSettings: InboundStreamSettings, client: Client): Inbound {
+    return inbound(id, 'vless', streamSettings, client);
+}
+
+function inbound(id: number, protocol: Inbound['protocol'], streamSettings: InboundStreamSettings, client: Client): Inbound {
+    return {
+        id,
+        userId: 1,
+        up: 0,
+        down: 0,
+        total: 0,
+        remark: `in-${id}`,
+        enable: true,
+        expiryTime: 0,
+        clientStats: [],
+        listen: '',
+        port: 1000 + id,
+        protocol,
+        settings: { clients: [client], decryption: 'none' },
+        streamSettings,
+        tag: `inbound-${1000 + id}`,
+        sniffing: { enabled: false, destOverride: [] }
+    };
+}
+
+function vlessClient(email: string): VlessClient {
+    return { id: generateUUID(), email, enable: true, limitIp: 0, totalGB: 0, expiryTime: 0, subId: 'sub', reset: 0, flow: '' };
+}
+
+function subscription(inbounds: Inbound[]): SubscriptionInfo {
+    return {
+        subId: 'sub',
+        clients: inbounds.map(inbound => ({
+            client: inbound.settings.clients![0]!,
+            inboundId: inbound.id,
+            inboundRemark: inbound.remark,
+            inboundProtocol: inbound.protocol
+        }))
+    };
+}
+
+describe('buildSingBoxConfig transports', () => {
+    test('raw inbound is exported without transport (plain tcp)', () => {
+        const inbounds = [
+            vlessInbound(1, { network: 'raw', security: 'none', rawSettings: { header: { type: 'none' } } }, vlessClient('raw'))
+        ];
+
+        const result = buildSingBoxConfig(subscription(inbounds), inbounds, { address: 'vpn.example.com' });
+
+        expect(result.skipped).toEqual([]);
+        expect(result.outbounds).toHaveLength(1);
+        expect(result.outbounds[0]).toMatchObject({ type: 'vless', server: 'vpn.example.com', server_port: 1001 });
+        expect(result.outbounds[0]!.transport).toBeUndefined();
+    });
+
+    test('xhttp inbound is skipped with a reason', () => {
+        const inbounds = [
+            vlessInbound(1, { network: 'raw', security: 'none' }, vlessClient('raw')),
+            vlessInbound(2, { network: 'xhttp', security: 'none', xhttpSettings: { path: '/x' } }, vlessClient('xhttp'))
+        ];
+
+        const result = buildSingBoxConfig(subscription(inbounds), inbounds, { address: 'vpn.example.com' });
+
+        expect(result.outbounds.map(outbound => outbound.server_port)).toEqual([1001]);
+        expect(result.skipped).toEqual([
+            { inboundId: 2, email: 'xhttp', protocol: 'vless', reason: 'sing-box does not support xhttp transport' }
+        ]);
+    });
+});
+
+describe('buildSingBoxConfig', () => {
+    test('vless reality outbound, selector and urltest', () => {
+        const inbounds = [vlessInbound(1, {
+            network: 'tcp',
+            security: 'reality',
+            realitySettings: {
+                serverNames: ['www.google.com'],
+                shortIds: ['6ba8'],
+                settings: { publicKey: 'pbk-value', fingerprint: 'firefox' }
+            }
+        }, { ...vlessClient('alice'), flow: 'xtls-rprx-vision' } as VlessClient)];
+
+        const { config, json } = buildSingBoxConfig(subscription(inbounds), inbounds, { address: 'vpn.example.com' });
+
+        expect(config.outbounds.map(outbound => outbound.tag)).toEqual(['proxy', 'auto', 'in-1-alice', 'direct']);
+        expect(config.outbounds[2]).toMatchObject({
+            type: 'vless',
+            flow: 'xtls-rprx-vision',
+            tls: {
+                enabled: true,
+                server_name: 'www.google.com',
+                utls: { enabled: true, fingerprint: 'firefox' },
+                reality: { enabled: true, public_key: 'pbk-value', short_id: '6ba8' }
+            }
+        });
+        expect(JSON.parse(json)).toEqual(config);
+    });
+
+    test('shadowsocks 2022 outbound joins server and user keys', () => {
+        const shadowsocks = { ...vlessClient('carol'), method: '', password: 'user-key' };
+        const ssInbound = inbound(1, 'shadowsocks', { network: 'tcp', security: 'none' }, shadowsocks);
+        ssInbound.settings = { method: '2022-blake3-aes-128-gcm', password: 'server-key', clients: [shadowsocks] };
+
+        const { outbounds } = buildSingBoxConfig(subscription([ssInbound]), [ssInbound], { address: 'vpn.example.com' });
+
+        expect(outbounds[0]).toMatchObject({ type: 'shadowsocks', method: '2022-blake3-aes-128-gcm', password: 'server-key:user-key' });
+    });
+
+    test('gRPC multi mode is skipped, or rejected in strict mode', () => {
+        const inbounds = [vlessInbound(1, { network: 'grpc', security: 'none', grpcSettings: { serviceName: 'svc', multiMode: true } }, vlessClient('alice'))];
+
+        const result = buildSingBoxConfig(subscription(inbounds), inbounds, { address: 'vpn.example.com' });
+
+        expect(result.outbounds).toEqual([]);
+        expect(result.skipped[0]!.reason).toBe('sing-box does not support gRPC multi mode');
+        // urltest needs at least one outbound
+        expect(result.config.outbounds[1]).toMatchObject({ type: 'urltest', outbounds: ['direct'] });
+        expect(() => buildSingBoxConfig(subscription(inbounds), inbounds, { address: 'vpn.example.com', strict: true }))
+            .toThrow(ValidationError);
+    });
+
+    test('ClientManager exports a panel subscription', async () => {
+        const panel = createMockPanel({
+            inbounds: [{
+                protocol: 'vless',
+                port: 443,
+                remark: 'main',
+                settings: { clients: [vlessClient('alice')], decryption: 'none' },
+                streamSettings: { network: 'httpupgrade', security: 'none', httpupgradeSettings: { path: '/up', host: 'cdn.example.com' } }
+            }]
+        });
+        const xui = createClient({ baseUrl: panel.baseUrl, username: 'admin', password: 'admin', transport: panel.transport });
+
+        const { outbounds } = await xui.clients.getSingBoxConfig('sub', { address: 'vpn.example.com' });
+
+        expect(outbounds[0]).toMatchObject({
+            type: 'vless',
+            server: 'vpn.example.com',
+            server_port: 443,
+            transport: { type: 'httpupgrade', path: '/up', host: 'cdn.example.com' }
+        });
+    });
+});
@@ -0,0 +1,277 @@
+import { ValidationError } from './types';
+import type {
+    Inbound,
+    SingBoxConfig,
+    SingBoxExportOptions,
+    SingBoxExportResult,
+    SingBoxOutbound,
+    SubscriptionEndpoint,
+    SubscriptionInfo
+} from './types';
+
+import { resolveSubscriptionEndpoints, describeSkippedEndpoints } from './share-links';
+
+const SELECTOR_TAG = 'proxy';
+const URL_TEST_TAG = 'auto';
+const DIRECT_TAG = 'direct';
+
+/**
+ * Export subscription as sing-box config with one outbound per client.
+ * Clients sing-box cannot express are listed in `skipped` (or rejected in strict mode).
+ * @param inbounds Inbounds the subscription clients belong to
+ */
+export function buildSingBoxConfig(
+    subscription: SubscriptionInfo,
+    inbounds: Inbound[],
+    options: SingBoxExportOptions = {}
+): SingBoxExportResult {
+    const { endpoints, skipped } = resolveSubscriptionEndpoints(subscription, inbounds, options);
+    const outbounds: SingBoxOutbound[] = [];
+    const usedTags = new Set<string>([SELECTOR_TAG, URL_TEST_TAG, DIRECT_TAG]);
+
+    for (const endpoint of endpoints) {
+        try {
+            const outbound = buildSingBoxOutbound(endpoint);
+            outbound.tag = uniqueTag(outbound.tag, usedTags);
+            outbounds.push(outbound);
+        } catch (error) {
+            if (!(error instanceof ValidationError)) {
+                throw error;
+            }
+
+            skipped.push({
+                inboundId: endpoint.inboundId,
+                email: endpoint.email,
+                protocol: endpoint.protocol,
+                reason: error.message
+            });
+        }
+    }
+
+    if (options.strict && skipped.length > 0) {
+        throw new ValidationError(`sing-box cannot express ${skipped.length} client(s): ${describeSkippedEndpoints(skipped)}`, 'subscription');
+    }
+
+    const tags = outbounds.map(outbound => outbound.tag);
+
+    const config: SingBoxConfig = {
+        log: { level: 'warn', timestamp: true },
+        dns: {
+            servers: [
+                { tag: 'remote', address: 'https://1.1.1.1/dns-query', detour: SELECTOR_TAG },
+                { tag: 'local', address: 'local' }
+            ],
+            final: 'remote'
+        },
+        inbounds: options.inbounds ?? [
+            {
+                type: 'tun',
+                tag: 'tun-in',
+                address: ['172.19.0.1/30'],
+                auto_route: true,
+                strict_route: true
+            }
+        ],
+        outbounds: [
+            {
+                type: 'selector',
+                tag: SELECTOR_TAG,
+                outbounds: [URL_TEST_TAG, ...tags, DIRECT_TAG],
+                default: URL_TEST_TAG
+            },
+            {
+                type: 'urltest',
+                tag: URL_TEST_TAG,
+                outbounds: tags.length > 0 ? tags : [DIRECT_TAG],
+                url: options.testUrl ?? 'https://www.gstatic.com/generate_204',
+                interval: options.testInterval ?? '3m'
+            },
+            ...outbounds,
+            { type: 'direct', tag: DIRECT_TAG }
+        ],
+        route: {
+            rules: [
+                { action: 'sniff' },
+                { protocol: 'dns', action: 'hijack-dns' },
+                { ip_is_private: true, outbound: DIRECT_TAG }
+            ],
+            final: SELECTOR_TAG,
+            auto_detect_interface: true
+        }
+    };
+
+    return {
+        config,
+        json: JSON.stringify(config, null, 2),
+        outbounds,
+        skipped
+    };
+}
+
+/**
+ * Convert endpoint into sing-box outbound
+ */
+function buildSingBoxOutbound(endpoint: SubscriptionEndpoint): SingBoxOutbound {
+    const base = {
+        tag: endpoint.remark || `${endpoint.protocol}-${endpoint.port}`,
+        server: endpoint.address,
+        server_port: endpoint.port
+    };
+
+    switch (endpoint.protocol) {
+        case 'vless':
+            return {
+                type: 'vless',
+                ...base,
+                uuid: endpoint.id,
+                ...(endpoint.flow ? { flow: endpoint.flow } : {}),
+                packet_encoding: 'xudp',
+                ...buildTls(endpoint),
+                ...buildTransport(endpoint)
+            };
+
+        case 'vmess':
+            return {
+                type: 'vmess',
+                ...base,
+                uuid: endpoint.id,
+                security: endpoint.security || 'auto',
+                alter_id: endpoint.alterId ?? 0,
+                ...buildTls(endpoint),
+                ...buildTransport(endpoint)
+            };
+
+        case 'trojan':
+            return {
+                type: 'trojan',
+                ...base,
+                password: endpoint.password,
+                ...buildTls(endpoint),
+                ...buildTransport(endpoint)
+            };
+
+        case 'shadowsocks':
+            if (endpoint.streamSettings.network !== 'tcp' || endpoint.streamSettings.security !== 'none'
+                || endpoint.streamSettings.tcpSettings?.header?.type === 'http') {
+                throw new ValidationError('sing-box supports Shadowsocks only over plain TCP', 'network');
+            }
+
+            return {
+                type: 'shadowsocks',
+                ...base,
+                method: endpoint.method,
+                password: endpoint.serverPassword
+                    ? `${endpoint.serverPassword}:${endpoint.password}`
+                    : endpoint.password
+            };
+    }
+}
+
+/**
+ * Build transport block (ws, grpc, httpupgrade)
+ */
+function buildTransport(endpoint: SubscriptionEndpoint): { transport?: Record<string, any> } {
+    const stream = endpoint.streamSettings;
+
+    switch (stream.network) {
+        case 'tcp':
+            if (stream.tcpSettings?.header?.type === 'http') {
+                throw new ValidationError('sing-box does not support TCP HTTP obfuscation', 'tcpSettings');
+            }
+            return {};
+
+        case 'ws':
+            return {
+                transport: {
+                    type: 'ws',
+                    path: stream.wsSettings?.path || '/',
+                    ...(stream.wsSettings?.host ? { headers: { Host: stream.wsSettings.host } } : {})
+                }
+            };
+
+        case 'httpupgrade':
+            return {
+                transport: {
+                    type: 'httpupgrade',
+                    path: stream.httpupgradeSettings?.path || '/',
+                    ...(stream.httpupgradeSettings?.host ? { host: stream.httpupgradeSettings.host } : {})
+                }
+            };
+
+        case 'grpc':
+            if (stream.grpcSettings?.multiMode) {
+                throw new ValidationError('sing-box does not support gRPC multi mode', 'grpcSettings.multiMode');
+            }
+            return {
+                transport: {
+                    type: 'grpc',
+                    service_name: stream.grpcSettings?.serviceName ?? ''
+                }
+            };
+
+        default:
+            throw new ValidationError(`sing-box does not support ${stream.network} transport`, 'network');
+    }
+}
+
+/**
+ * Build TLS block (tls, reality)
+ */
+function buildTls(endpoint: SubscriptionEndpoint): { tls?: Record<string, any> } {
+    const stream = endpoint.streamSettings;
+
+    switch (stream.security) {
+        case 'tls': {
+            const tls = stream.tlsSettings;
+            return {
+                tls: {
+                    enabled: true,
+                    ...(tls?.serverName ? { server_name: tls.serverName } : {}),
+                    ...(tls?.alpn?.length ? { alpn: tls.alpn } : {}),
+                    ...(tls?.settings?.allowInsecure ? { insecure: true } : {}),
+                    ...(tls?.settings?.fingerprint
+                        ? { utls: { enabled: true, fingerprint: tls.settings.fingerprint } }
+                        : {})
+                }
+            };
+        }
+
+        case 'reality': {
+            if (stream.network !== 'tcp' && stream.network !== 'grpc') {
+                throw new ValidationError(`sing-box supports Reality only over tcp or grpc, not ${stream.network}`, 'network');
+            }
+
+            const reality = stream.realitySettings;
+            return {
+                tls: {
+                    enabled: true,
+                    server_name: reality?.settings?.serverName || reality?.serverNames[0] || '',
+                    utls: {
+                        enabled: true,
+                        fingerprint: reality?.settings?.fingerprint || 'chrome'
+                    },
+                    reality: {
+                        enabled: true,
+                        public_key: reality?.settings?.publicKey ?? '',
+                        short_id: reality?.shortIds[0] ?? ''
+                    }
+                }
+            };
+        }
+
+        default:
+            return {};
+    }
+}
+
+function uniqueTag(tag: string, usedTags: Set<string>): string {
+    let candidate = tag;
+    let counter = 2;
+
+    while (usedTags.has(candidate)) {
+        candidate = `${tag} (${counter++})`;
+    }
+
+    usedTags.add(candidate);
+    return candidate;
+}
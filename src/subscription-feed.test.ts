@@ -0,0 +1,104 @@
+import { describe, expect, test } from 'bun:test';
+
+import {
+    buildSubscriptionFeed,
+    calculateSubscriptionUserInfo,
+    createClient,
+    createMockPanel,
+    formatSubscriptionUserInfo,
+    generateUUID
+} from './index';
+import type { Client, SubscriptionInfo } from './types';
+
+function vlessClient(email: string, overrides: Partial<Client> = {}): Client {
+    return {
+        id: generateUUID(),
+        email,
+        enable: true,
+        limitIp: 0,
+        totalGB: 0,
+        expiryTime: 0,
+        subId: 'sub',
+        reset: 0,
+        flow: '',
+        ...overrides
+    };
+}
+
+function setup(clients: Client[]) {
+    const panel = createMockPanel({
+        inbounds: [{
+            protocol: 'vless',
+            port: 443,
+            remark: 'main',
+            settings: { clients, decryption: 'none' },
+            streamSettings: { network: 'tcp', security: 'none' }
+        }]
+    });
+    const xui = createClient({
+        baseUrl: panel.baseUrl,
+        username: 'admin',
+        password: 'admin',
+        transport: panel.transport,
+        retryAttempts: 0
+    });
+
+    return { panel, xui };
+}
+
+function decodeLinks(content: string): string[] {
+    return Buffer.from(content, 'base64').toString().split('\n');
+}
+
+describe('subscription feed', () => {
+    test('feed holds links of enabled clients and the subscription-userinfo header', async () => {
+        const { panel, xui } = setup([
+            vlessClient('alice-1', { totalGB: 1000, expiryTime: 1_800_000_000_000 }),
+            vlessClient('alice-2', { totalGB: 500, expiryTime: 1_700_000_000_000, enable: false })
+        ]);
+        panel.addTraffic('alice-1', 10, 20);
+        panel.addTraffic('alice-2', 1, 2);
+
+        const feed = await xui.clients.getSubscriptionFeed('sub', { address: 'vpn.example.com' });
+
+        expect(feed.links).toHaveLength(1);
+        expect(feed.links[0]).toContain('#main-alice-1');
+        expect(decodeLinks(feed.content)).toEqual(feed.links);
+        // Traffic and limits still count disabled clients
+        expect(feed.userInfo).toEqual({ upload: 11, download: 22, total: 1500, expire: 1_700_000_000 });
+        expect(feed.headers['subscription-userinfo']).toBe('upload=11; download=22; total=1500; expire=1700000000');
+    });
+
+    test('includeDisabled keeps disabled clients', async () => {
+        const { xui } = setup([vlessClient('alice-1'), vlessClient('alice-2', { enable: false })]);
+
+        const feed = await xui.clients.getSubscriptionFeed('sub', { address: 'vpn.example.com', includeDisabled: true });
+
+        expect(feed.links).toHaveLength(2);
+    });
+
+    test('one unlimited client makes the subscription total unlimited', () => {
+        const subscription: SubscriptionInfo = {
+            subId: 'sub',
+            clients: [
+                { client: vlessClient('a', { totalGB: 100 }), inboundId: 1, inboundRemark: 'main', inboundProtocol: 'vless' },
+                { client: vlessClient('b', { totalGB: 0 }), inboundId: 1, inboundRemark: 'main', inboundProtocol: 'vless' }
+            ]
+        };
+
+        const info = calculateSubscriptionUserInfo(subscription, []);
+
+        expect(info).toEqual({ upload: 0, download: 0, total: 0, expire: 0 });
+        expect(formatSubscriptionUserInfo(info)).toBe('upload=0; download=0; total=0; expire=0');
+    });
+
+    test('unknown inbound is an error', () => {
+        const subscription: SubscriptionInfo = {
+            subId: 'sub',
+            clients: [{ client: vlessClient('a'), inboundId: 7, inboundRemark: 'gone', inboundProtocol: 'vless' }]
+        };
+
+        expect(() => buildSubscriptionFeed(subscription, [], [], { includeDisabled: true, address: 'vpn.example.com' }))
+            .toThrow('Inbound 7 not found');
+    });
+});
@@ -0,0 +1,93 @@
+import type {
+    ClientTraffic,
+    Inbound,
+    SubscriptionFeed,
+    SubscriptionFeedOptions,
+    SubscriptionInfo,
+    SubscriptionUserInfo
+} from './types';
+
+import { encodeBase64 } from './utils';
+import { buildSubscriptionLinks, filterActiveClients } from './share-links';
+
+/**
+ * Render subscription into base64 link feed (v2rayN/Hiddify format)
+ * @param inbounds Inbounds the subscription clients belong to
+ * @param traffics Traffic statistics of the subscription clients (defaults to inbound clientStats)
+ */
+export function buildSubscriptionFeed(
+    subscription: SubscriptionInfo,
+    inbounds: Inbound[],
+    traffics?: ClientTraffic[],
+    options: SubscriptionFeedOptions = {}
+): SubscriptionFeed {
+    const activeSubscription = options.includeDisabled
+        ? subscription
+        : filterActiveClients(subscription, inbounds);
+
+    const links = buildSubscriptionLinks(activeSubscription, inbounds, { address: options.address });
+    const userInfo = calculateSubscriptionUserInfo(
+        subscription,
+        traffics ?? inbounds.flatMap(inbound => (inbound.clientStats || []) as ClientTraffic[])
+    );
+
+    return {
+        subId: subscription.subId,
+        links,
+        content: encodeBase64(links.join('\n')),
+        userInfo,
+        headers: {
+            'subscription-userinfo': formatSubscriptionUserInfo(userInfo)
+        }
+    };
+}
+
+/**
+ * Sum up traffic and limits of all subscription clients
+ */
+export function calculateSubscriptionUserInfo(
+    subscription: SubscriptionInfo,
+    traffics: ClientTraffic[]
+): SubscriptionUserInfo {
+    const emails = new Set(subscription.clients.map(clientInfo => clientInfo.client.email));
+    const info: SubscriptionUserInfo = { upload: 0, download: 0, total: 0, expire: 0 };
+
+    let unlimitedTraffic = false;
+    let earliestExpiry = 0;
+
+    for (const traffic of traffics) {
+        if (!emails.has(traffic.email)) {
+            continue;
+        }
+
+        info.upload += traffic.up;
+        info.download += traffic.down;
+    }
+
+    for (const { client } of subscription.clients) {
+        if (!client.totalGB) {
+            unlimitedTraffic = true;
+        } else {
+            info.total += client.totalGB;
+        }
+
+        if (client.expiryTime > 0 && (earliestExpiry === 0 || client.expiryTime < earliestExpiry)) {
+            earliestExpiry = client.expiryTime;
+        }
+    }
+
+    if (unlimitedTraffic) {
+        info.total = 0;
+    }
+
+    info.expire = Math.floor(earliestExpiry / 1000);
+
+    return info;
+}
+
+/**
+ * Format subscription-userinfo header value
+ */
+export function formatSubscriptionUserInfo(info: SubscriptionUserInfo): string {
+    return `upload=${info.upload}; download=${info.download}; total=${info.total}; expire=${info.expire}`;
+}
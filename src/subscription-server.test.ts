@@ -0,0 +1,119 @@
+import { describe, expect, test } from 'bun:test';
+
+import { createClient, createMockPanel, generateUUID } from './index';
+import type { Client, Logger } from './types';
+
+function vlessClient(email: string, subId: string): Client {
+    return {
+        id: generateUUID(),
+        email,
+        enable: true,
+        limitIp: 0,
+        totalGB: 0,
+        expiryTime: 0,
+        subId,
+        reset: 0,
+        flow: ''
+    };
+}
+
+function setup() {
+    const panel = createMockPanel({
+        inbounds: [
+            {
+                protocol: 'vless',
+                port: 443,
+                remark: 'ws',
+                settings: { clients: [vlessClient('alice-ws', 'alice')], decryption: 'none' },
+                streamSettings: { network: 'ws', security: 'none', wsSettings: { path: '/ws' } }
+            },
+            {
+                protocol: 'vless',
+                port: 8443,
+                remark: 'reality',
+                settings: { clients: [vlessClient('alice-reality', 'alice')], decryption: 'none' },
+                // Reality without public key cannot be turned into a link
+                streamSettings: {
+                    network: 'tcp',
+                    security: 'reality',
+                    realitySettings: { show: false, dest: 'example.com:443', serverNames: ['example.com'], privateKey: '', shortIds: [''] }
+                }
+            }
+        ]
+    });
+    const xui = createClient({
+        baseUrl: panel.baseUrl,
+        username: 'admin',
+        password: 'admin',
+        transport: panel.transport,
+        retryAttempts: 0
+    });
+    const warnings: string[] = [];
+    const logger: Logger = {
+        debug: () => {},
+        info: () => {},
+        warn: message => { warnings.push(message); },
+        error: () => {}
+    };
+    const server = xui.createSubscriptionServer({ address: 'vpn.example.com', logger });
+
+    return { panel, server, warnings };
+}
+
+function get(path: string, userAgent = 'v2rayN/6.0'): Request {
+    return new Request(`http://sub.local${path}`, { headers: { 'User-Agent': userAgent } });
+}
+
+describe('SubscriptionServer', () => {
+    test('base64 feed serves linkable clients and logs the skipped ones', async () => {
+        const { server, warnings } = setup();
+
+        const response = await server.handle(get('/sub/alice'));
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('Content-Type')).toBe('text/plain; charset=utf-8');
+        expect(response.headers.get('Subscription-Userinfo')).toBe('upload=0; download=0; total=0; expire=0');
+
+        const links = Buffer.from(await response.text(), 'base64').toString().split('\n');
+        expect(links).toHaveLength(1);
+        expect(links[0]).toStartWith('vless://');
+        expect(links[0]).toContain('@vpn.example.com:443');
+        expect(warnings).toHaveLength(1);
+        expect(warnings[0]).toContain('alice-reality');
+    });
+
+    test('format is picked from query, then User-Agent', async () => {
+        const { server } = setup();
+
+        const clash = await server.handle(get('/sub/alice', 'clash.meta'));
+        expect(clash.headers.get('Content-Type')).toBe('text/yaml; charset=utf-8');
+        expect(await clash.text()).toContain('vpn.example.com');
+
+        const singBox = await server.handle(get('/sub/alice?format=sing-box', 'clash.meta'));
+        expect(singBox.headers.get('Content-Type')).toBe('application/json; charset=utf-8');
+        expect(JSON.parse(await singBox.text()).outbounds.some((outbound: { server?: string }) => outbound.server === 'vpn.example.com')).toBe(true);
+    });
+
+    test('unknown subId is 404 and panel reads are cached', async () => {
+        const { panel, server } = setup();
+
+        expect((await server.handle(get('/sub/alice'))).status).toBe(200);
+        const requestsAfterFirst = panel.requests.length;
+
+        expect((await server.handle(get('/sub/bob'))).status).toBe(404);
+        expect((await server.handle(get('/sub/alice'))).status).toBe(200);
+        expect(panel.requests.length).toBe(requestsAfterFirst);
+
+        expect((await server.handle(get('/other/alice'))).status).toBe(404);
+        expect((await server.handle(new Request('http://sub.local/sub/alice', { method: 'POST' }))).status).toBe(405);
+    });
+
+    test('concurrent requests share one panel read', async () => {
+        const { panel, server } = setup();
+
+        await Promise.all([server.handle(get('/sub/alice')), server.handle(get('/sub/alice'))]);
+
+        // One snapshot: inbound list plus subscription lookup
+        expect(panel.requests.filter(request => request.path.endsWith('/list'))).toHaveLength(2);
+    });
+});
@@ -0,0 +1,297 @@
+import type {
+    Inbound,
+    Logger,
+    MutationResultMode,
+    SubscriptionFormat,
+    SubscriptionInfo,
+    SubscriptionServerOptions,
+    SubscriptionUserInfo,
+    SkippedEndpoint
+} from './types';
+import type { InboundManager } from './inbound-manager';
+import type { ClientManager } from './client-manager';
+
+import { encodeBase64 } from './utils';
+import { silentLogger } from './logger';
+import { calculateSubscriptionUserInfo, formatSubscriptionUserInfo } from './subscription-feed';
+import { buildClashConfig } from './clash-export';
+import { buildSingBoxConfig } from './singbox-export';
+import { describeSkippedEndpoints, resolveSubscriptionEndpoints } from './share-links';
+
+interface CacheEntry<T> {
+    value: T;
+    expiresAt: number;
+}
+
+interface PanelSnapshot {
+    inbounds: Inbound[];
+    subscriptions: Map<string, SubscriptionInfo>;
+}
+
+interface RenderedSubscription {
+    body: string;
+    contentType: string;
+    extension: string;
+}
+
+const FORMAT_ALIASES: Record<string, SubscriptionFormat> = {
+    base64: 'base64',
+    v2ray: 'base64',
+    links: 'base64',
+    clash: 'clash',
+    mihomo: 'clash',
+    meta: 'clash',
+    singbox: 'singbox',
+    'sing-box': 'singbox',
+    json: 'singbox'
+};
+
+/**
+ * Local HTTP server serving subscriptions at /sub/:subId in base64, Clash and sing-box formats
+ */
+export class SubscriptionServer {
+    private readonly options: Required<Omit<SubscriptionServerOptions, 'profileTitle' | 'logger'>> & { profileTitle?: string };
+    private readonly logger: Logger;
+    private snapshotCache: CacheEntry<PanelSnapshot> | null = null;
+    private snapshotPromise: Promise<PanelSnapshot> | null = null;
+    private server: ReturnType<typeof Bun.serve> | null = null;
+
+    constructor(
+        private xui: { inbounds: InboundManager<MutationResultMode>; clients: ClientManager<MutationResultMode> },
+        options: SubscriptionServerOptions
+    ) {
+        this.options = {
+            port: 2096,
+            hostname: '0.0.0.0',
+            path: '/sub',
+            cacheTtl: 30000,
+            updateInterval: 12,
+            defaultFormat: 'base64',
+            includeDisabled: false,
+            ...options,
+            address: options.address
+        };
+        this.logger = options.logger ?? silentLogger;
+
+        const trimmedPath = this.options.path.replace(/^\/+|\/+$/g, '');
+        this.options.path = trimmedPath ? `/${trimmedPath}` : '';
+    }
+
+    /**
+     * Start listening (Bun runtime)
+     */
+    start(): void {
+        if (this.server) {
+            return;
+        }
+
+        this.server = Bun.serve({
+            port: this.options.port,
+            hostname: this.options.hostname,
+            fetch: request => this.handle(request)
+        });
+
+        this.logger.info(`Subscription server listening on ${this.options.hostname}:${this.server.port}${this.options.path}`, {
+            operation: 'subscriptionServer'
+        });
+    }
+
+    /**
+     * Stop listening
+     */
+    stop(): void {
+        this.server?.stop();
+        this.server = null;
+    }
+
+    /**
+     * Handle request (usable with any fetch-compatible HTTP server)
+     */
+    async handle(request: Request): Promise<Response> {
+        if (request.method !== 'GET' && request.method !== 'HEAD') {
+            return new Response('Method Not Allowed', { status: 405, headers: { Allow: 'GET, HEAD' } });
+        }
+
+        const url = new URL(request.url);
+        const subId = this.extractSubId(url.pathname);
+
+        if (!subId) {
+            return new Response('Not Found', { status: 404 });
+        }
+
+        try {
+            // Unknown subIds are answered from the cached inbound list, so they never reach the panel
+            const { inbounds, subscriptions } = await this.getSnapshot();
+            const subscription = subscriptions.get(subId);
+
+            if (!subscription) {
+                return new Response('Not Found', { status: 404 });
+            }
+
+            const format = this.resolveFormat(url, request.headers.get('user-agent') ?? '');
+            const rendered = this.render(format, subscription, inbounds);
+            const userInfo = calculateSubscriptionUserInfo(
+                subscription,
+                inbounds.flatMap(inbound => inbound.clientStats || [])
+            );
+
+            return new Response(request.method === 'HEAD' ? null : rendered.body, {
+                status: 200,
+                headers: this.buildHeaders(subId, rendered, userInfo)
+            });
+        } catch (error) {
+            this.logger.error(`Failed to serve subscription ${subId}`, {
+                operation: 'serveSubscription',
+                subId,
+                error: error instanceof Error ? error.message : String(error)
+            });
+            return new Response('Internal Server Error', { status: 500 });
+        }
+    }
+
+    /**
+     * Drop cached panel reads
+     */
+    clearCache(): void {
+        this.snapshotCache = null;
+    }
+
+    private render(format: SubscriptionFormat, subscription: SubscriptionInfo, inbounds: Inbound[]): RenderedSubscription {
+        const exportOptions = {
+            address: this.options.address,
+            includeDisabled: this.options.includeDisabled
+        };
+
+        switch (format) {
+            case 'clash': {
+                const config = buildClashConfig(subscription, inbounds, exportOptions);
+                this.reportSkipped(format, subscription.subId, config.skipped);
+
+                return {
+                    body: config.yaml,
+                    contentType: 'text/yaml; charset=utf-8',
+                    extension: 'yaml'
+                };
+            }
+
+            case 'singbox': {
+                const config = buildSingBoxConfig(subscription, inbounds, exportOptions);
+                this.reportSkipped(format, subscription.subId, config.skipped);
+
+                return {
+                    body: config.json,
+                    contentType: 'application/json; charset=utf-8',
+                    extension: 'json'
+                };
+            }
+
+            case 'base64': {
+                const { endpoints, skipped } = resolveSubscriptionEndpoints(subscription, inbounds, exportOptions);
+                this.reportSkipped(format, subscription.subId, skipped);
+
+                return {
+                    body: encodeBase64(endpoints.map(endpoint => endpoint.link).join('\n')),
+                    contentType: 'text/plain; charset=utf-8',
+                    extension: 'txt'
+                };
+            }
+        }
+    }
+
+    private reportSkipped(format: SubscriptionFormat, subId: string, skipped: SkippedEndpoint[]): void {
+        if (skipped.length === 0) {
+            return;
+        }
+
+        this.logger.warn(`Subscription ${subId}: ${format} output left out ${skipped.length} client(s): ${describeSkippedEndpoints(skipped)}`, {
+            operation: 'serveSubscription',
+            subId,
+            format,
+            skipped: skipped.length
+        });
+    }
+
+    private buildHeaders(subId: string, rendered: RenderedSubscription, userInfo: SubscriptionUserInfo): Record<string, string> {
+        const title = this.options.profileTitle ?? subId;
+        const fileName = `${title}.${rendered.extension}`;
+
+        return {
+            'Content-Type': rendered.contentType,
+            'Content-Disposition': `attachment; filename="${fileName.replace(/[^\x20-\x7e]|"/g, '_')}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+            'Profile-Update-Interval': String(this.options.updateInterval),
+            'Profile-Title': `base64:${encodeBase64(title)}`,
+            'Subscription-Userinfo': formatSubscriptionUserInfo(userInfo),
+            'Cache-Control': 'no-store'
+        };
+    }
+
+    /**
+     * Pick format from ?format= query, then User-Agent, then default
+     */
+    private resolveFormat(url: URL, userAgent: string): SubscriptionFormat {
+        const requested = (url.searchParams.get('format') ?? url.searchParams.get('target') ?? '').toLowerCase();
+        const format = FORMAT_ALIASES[requested];
+
+        if (format) {
+            return format;
+        }
+
+        if (/clash|mihomo|stash/i.test(userAgent)) {
+            return 'clash';
+        }
+
+        if (/sing-?box|SF[AIMT]\//i.test(userAgent)) {
+            return 'singbox';
+        }
+
+        return this.options.defaultFormat;
+    }
+
+    private extractSubId(pathname: string): string | null {
+        const prefix = `${this.options.path}/`;
+
+        if (!pathname.startsWith(prefix)) {
+            return null;
+        }
+
+        try {
+            const subId = decodeURIComponent(pathname.slice(prefix.length)).replace(/\/+$/, '');
+            return subId && !subId.includes('/') ? subId : null;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Inbounds and subscriptions grouped by subId, read from the panel at most once per cacheTtl.
+     * Concurrent requests share one in-flight read.
+     */
+    private async getSnapshot(): Promise<PanelSnapshot> {
+        if (this.snapshotCache && this.snapshotCache.expiresAt > Date.now()) {
+            return this.snapshotCache.value;
+        }
+
+        if (!this.snapshotPromise) {
+            this.snapshotPromise = this.loadSnapshot().finally(() => {
+                this.snapshotPromise = null;
+            });
+        }
+
+        return this.snapshotPromise;
+    }
+
+    private async loadSnapshot(): Promise<PanelSnapshot> {
+        const [inbounds, subscriptions] = await Promise.all([
+            this.xui.inbounds.getList(),
+            this.xui.clients.getAllSubscriptions()
+        ]);
+
+        const snapshot = {
+            inbounds,
+            subscriptions: new Map(subscriptions.map(subscription => [subscription.subId, subscription]))
+        };
+        this.snapshotCache = { value: snapshot, expiresAt: Date.now() + this.options.cacheTtl };
+
+        return snapshot;
+    }
+}
@@ -4,6 +4,7 @@
 export interface LoginRequest {
     username: string;
     password: string;
+    twoFactorCode?: string;
 }
 
 export interface LoginResponse {
@@ -51,39 +52,308 @@ export type Client = VmessClient | VlessClient | TrojanClient | ShadowsocksClien
 /**
  * Inbound types
  */
+export interface InboundFallback {
+    name?: string;
+    alpn?: string;
+    path?: string;
+    dest: string | number;
+    xver?: number;
+}
+
+export interface ProxyAccount {
+    user: string;
+    pass: string;
+}
+
 export interface InboundSettings {
     clients?: Client[];
     decryption?: string;
-    fallbacks?: any[];
+    fallbacks?: InboundFallback[];
+    // Shadowsocks server-level settings
+    method?: string;
+    password?: string;
+    network?: string;
+    // WireGuard settings
+    secretKey?: string;
+    mtu?: number;
+    peers?: WireguardPeer[];
 }
 
-export interface InboundStreamSettings {
+/**
+ * Protocol-specific inbound settings
+ */
+export interface VmessInboundSettings {
+    clients: VmessClient[];
+}
+
+export interface VlessInboundSettings {
+    clients: VlessClient[];
+    decryption: string;
+    fallbacks?: InboundFallback[];
+}
+
+export interface TrojanInboundSettings {
+    clients: TrojanClient[];
+    fallbacks?: InboundFallback[];
+}
+
+export interface ShadowsocksInboundSettings {
+    method: string;
+    password: string;
     network: string;
-    security: string;
-    tlsSettings?: {
-        serverName: string;
-        certificates: Array<{
-            certificateFile: string;
-            keyFile: string;
-        }>;
+    clients: ShadowsocksClient[];
+}
+
+export interface DokodemoInboundSettings {
+    address: string;
+    port: number;
+    network: string;
+    followRedirect?: boolean;
+}
+
+export interface SocksInboundSettings {
+    auth: 'noauth' | 'password';
+    accounts?: ProxyAccount[];
+    udp?: boolean;
+    ip?: string;
+}
+
+export interface HttpInboundSettings {
+    accounts?: ProxyAccount[];
+    allowTransparent?: boolean;
+}
+
+/** Tunnel is the newer panel name of dokodemo-door */
+export interface TunnelInboundSettings extends DokodemoInboundSettings {
+    /** Listen port → "host:port" overrides */
+    portMap?: Record<string, string>;
+}
+
+/** Mixed serves SOCKS and HTTP on one port */
+export interface MixedInboundSettings extends SocksInboundSettings { }
+
+export interface WireguardPeer {
+    /** Peer private key, kept by the panel to build client configs */
+    privateKey?: string;
+    publicKey: string;
+    /** Pre-shared key */
+    psk?: string;
+    allowedIPs: string[];
+    keepAlive?: number;
+}
+
+export interface WireguardInboundSettings {
+    mtu: number;
+    secretKey: string;
+    peers: WireguardPeer[];
+    noKernelTun?: boolean;
+}
+
+export interface WireguardPeerOptions {
+    /** Peer addresses (default: next free /32 after existing peers, starting at 10.0.0.2) */
+    allowedIPs?: string[];
+    keepAlive?: number;
+    /** Peer private key (default: generated) */
+    privateKey?: string;
+    /** Pre-shared key, true to generate one */
+    psk?: string | boolean;
+}
+
+/**
+ * Curve25519 keypair in standard base64, as used by WireGuard
+ */
+export interface WireguardKeyPair {
+    privateKey: string;
+    publicKey: string;
+}
+
+export interface InboundSettingsMap {
+    vmess: VmessInboundSettings;
+    vless: VlessInboundSettings;
+    trojan: TrojanInboundSettings;
+    shadowsocks: ShadowsocksInboundSettings;
+    'dokodemo-door': DokodemoInboundSettings;
+    socks: SocksInboundSettings;
+    http: HttpInboundSettings;
+    mixed: MixedInboundSettings;
+    tunnel: TunnelInboundSettings;
+    wireguard: WireguardInboundSettings;
+}
+
+export type InboundProtocol = keyof InboundSettingsMap;
+
+/**
+ * Stream security settings
+ */
+export interface TlsSettings {
+    serverName: string;
+    certificates: Array<{
+        certificateFile: string;
+        keyFile: string;
+    }>;
+    alpn?: string[];
+    settings?: {
+        allowInsecure?: boolean;
+        fingerprint?: string;
     };
-    wsSettings?: {
-        path: string;
-        headers?: Record<string, string>;
+}
+
+export interface RealitySettings {
+    show?: boolean;
+    dest?: string;
+    serverNames: string[];
+    privateKey?: string;
+    shortIds: string[];
+    settings?: {
+        publicKey: string;
+        fingerprint?: string;
+        serverName?: string;
+        spiderX?: string;
     };
-    tcpSettings?: {
-        header?: {
-            type: string;
+}
+
+/**
+ * Transport settings
+ */
+export interface TcpTransportSettings {
+    header?: {
+        type: string;
+        request?: {
+            path?: string[];
+            headers?: Record<string, string[]>;
         };
     };
-    kcpSettings?: any;
-    httpSettings?: any;
-    quicSettings?: any;
-    grpcSettings?: {
-        serviceName: string;
-    };
 }
 
+export interface KcpTransportSettings {
+    mtu?: number;
+    tti?: number;
+    uplinkCapacity?: number;
+    downlinkCapacity?: number;
+    congestion?: boolean;
+    readBufferSize?: number;
+    writeBufferSize?: number;
+    header?: { type: string };
+    seed?: string;
+}
+
+export interface WsTransportSettings {
+    path: string;
+    host?: string;
+    headers?: Record<string, string>;
+}
+
+export interface HttpTransportSettings {
+    path: string;
+    host?: string[];
+}
+
+export interface QuicTransportSettings {
+    security: string;
+    key: string;
+    header?: { type: string };
+}
+
+export interface GrpcTransportSettings {
+    serviceName: string;
+    authority?: string;
+    multiMode?: boolean;
+}
+
+export interface HttpUpgradeTransportSettings {
+    path: string;
+    host?: string;
+}
+
+export interface XhttpTransportSettings {
+    path: string;
+    host?: string;
+    mode?: string;
+}
+
+export interface InboundStreamSettings {
+    network: string;
+    security: string;
+    tlsSettings?: TlsSettings;
+    realitySettings?: RealitySettings;
+    wsSettings?: WsTransportSettings;
+    tcpSettings?: TcpTransportSettings;
+    rawSettings?: TcpTransportSettings;
+    kcpSettings?: KcpTransportSettings;
+    httpSettings?: HttpTransportSettings;
+    quicSettings?: QuicTransportSettings;
+    grpcSettings?: GrpcTransportSettings;
+    httpupgradeSettings?: HttpUpgradeTransportSettings;
+    xhttpSettings?: XhttpTransportSettings;
+    splithttpSettings?: XhttpTransportSettings;
+}
+
+/**
+ * Network-specific stream settings
+ */
+export type StreamSecurity = 'none' | 'tls' | 'reality' | 'xtls';
+
+interface StreamSecurityFields {
+    security: StreamSecurity;
+    tlsSettings?: TlsSettings;
+    realitySettings?: RealitySettings;
+}
+
+export interface TcpStreamSettings extends StreamSecurityFields {
+    /** Newer Xray calls TCP transport "raw" */
+    network: 'tcp' | 'raw';
+    tcpSettings?: TcpTransportSettings;
+    rawSettings?: TcpTransportSettings;
+}
+
+export interface KcpStreamSettings extends StreamSecurityFields {
+    network: 'kcp';
+    kcpSettings?: KcpTransportSettings;
+}
+
+export interface WsStreamSettings extends StreamSecurityFields {
+    network: 'ws';
+    wsSettings?: WsTransportSettings;
+}
+
+export interface HttpStreamSettings extends StreamSecurityFields {
+    network: 'http' | 'h2';
+    httpSettings?: HttpTransportSettings;
+}
+
+export interface QuicStreamSettings extends StreamSecurityFields {
+    network: 'quic';
+    quicSettings?: QuicTransportSettings;
+}
+
+export interface GrpcStreamSettings extends StreamSecurityFields {
+    network: 'grpc';
+    grpcSettings?: GrpcTransportSettings;
+}
+
+export interface HttpUpgradeStreamSettings extends StreamSecurityFields {
+    network: 'httpupgrade';
+    httpupgradeSettings?: HttpUpgradeTransportSettings;
+}
+
+export interface XhttpStreamSettings extends StreamSecurityFields {
+    network: 'xhttp' | 'splithttp';
+    xhttpSettings?: XhttpTransportSettings;
+    splithttpSettings?: XhttpTransportSettings;
+}
+
+export type StreamSettings =
+    | TcpStreamSettings
+    | KcpStreamSettings
+    | WsStreamSettings
+    | HttpStreamSettings
+    | QuicStreamSettings
+    | GrpcStreamSettings
+    | HttpUpgradeStreamSettings
+    | XhttpStreamSettings;
+
+export type StreamNetwork = StreamSettings['network'];
+
 export interface Inbound {
     id: number;
     userId: number;
@@ -93,10 +363,10 @@ export interface Inbound {
     remark: string;
     enable: boolean;
     expiryTime: number;
-    clientStats: any[];
+    clientStats: ClientTraffic[];
     listen: string;
     port: number;
-    protocol: 'vmess' | 'vless' | 'trojan' | 'shadowsocks' | 'dokodemo-door' | 'socks' | 'http';
+    protocol: InboundProtocol;
     settings: InboundSettings;
     streamSettings: InboundStreamSettings;
     tag: string;
@@ -106,6 +376,36 @@ export interface Inbound {
     };
 }
 
+/**
+ * Inbound narrowed by protocol: `if (inbound.protocol === 'vless') inbound.settings.decryption`
+ */
+export type TypedInbound<P extends InboundProtocol = InboundProtocol> = P extends InboundProtocol
+    ? Omit<Inbound, 'protocol' | 'settings' | 'streamSettings'> & {
+        protocol: P;
+        settings: InboundSettingsMap[P];
+        streamSettings: StreamSettings;
+    }
+    : never;
+
+/**
+ * Mismatch between a panel response and the expected schema
+ */
+export interface SchemaIssue {
+    /** Field path, e.g. "settings.clients[0].email" */
+    path: string;
+    expected: string;
+    received: string;
+}
+
+export interface InboundParseResult {
+    /** Inbound with settings, streamSettings and sniffing parsed into objects */
+    inbound: Inbound;
+    issues: SchemaIssue[];
+}
+
+/** What to do when panel responses do not match the expected schema */
+export type SchemaValidationMode = 'off' | 'warn' | 'strict';
+
 /**
  * Traffic statistics
  */
@@ -135,6 +435,295 @@ export interface InboundGetResponse extends ApiResponse<Inbound> { }
 export interface ClientTrafficResponse extends ApiResponse<ClientTraffic> { }
 export interface ClientTrafficsResponse extends ApiResponse<ClientTraffic[]> { }
 export interface OnlineUsersResponse extends ApiResponse<string[]> { }
+export interface ServerStatusResponse extends ApiResponse<ServerStatus> { }
+export interface PanelSettingsResponse extends ApiResponse<PanelSettings> { }
+
+/**
+ * Server types
+ */
+export type XrayState = 'running' | 'stop' | 'error';
+
+export interface ServerUsage {
+    current: number;
+    total: number;
+}
+
+export interface ServerStatus {
+    /** CPU usage in percent */
+    cpu: number;
+    cpuCores: number;
+    logicalPro: number;
+    cpuSpeedMhz: number;
+    /** Memory usage in bytes */
+    mem: ServerUsage;
+    swap: ServerUsage;
+    disk: ServerUsage;
+    xray: {
+        state: XrayState;
+        errorMsg: string;
+        version: string;
+    };
+    /** System uptime in seconds */
+    uptime: number;
+    /** Load averages for 1, 5 and 15 minutes */
+    loads: number[];
+    tcpCount: number;
+    udpCount: number;
+    /** Current network speed in bytes per second */
+    netIO: { up: number; down: number };
+    /** Total network traffic in bytes */
+    netTraffic: { sent: number; recv: number };
+    publicIP: { ipv4: string; ipv6: string };
+    appStats: { threads: number; mem: number; uptime: number };
+}
+
+export type PanelLogLevel = 'debug' | 'info' | 'notice' | 'warning' | 'error';
+
+export interface PanelLogOptions {
+    /** Minimum level (default: info) */
+    level?: PanelLogLevel;
+    /** Read from syslog instead of the panel log buffer (default: false) */
+    syslog?: boolean;
+}
+
+export interface DatabaseDownloadOptions {
+    /** Reject downloads larger than this many bytes (default: 100 MB) */
+    maxSize?: number;
+}
+
+export interface DatabaseImportOptions {
+    /** Must be true: import replaces all panel data */
+    confirm: boolean;
+    /** Reject files larger than this many bytes (default: 100 MB) */
+    maxSize?: number;
+}
+
+export interface DatabaseBackupFile {
+    path: string;
+    size: number;
+}
+
+export interface XrayLogOptions {
+    /** Only lines containing this text */
+    filter?: string;
+    /** Include direct connections (default: true) */
+    showDirect?: boolean;
+    /** Include blocked connections (default: true) */
+    showBlocked?: boolean;
+    /** Include proxied connections (default: true) */
+    showProxy?: boolean;
+}
+
+/**
+ * Settings types
+ */
+export interface PanelSettings {
+    webListen: string;
+    webDomain: string;
+    webPort: number;
+    webCertFile: string;
+    webKeyFile: string;
+    /** Panel URL path, starts and ends with "/" */
+    webBasePath: string;
+    /** Session lifetime in minutes */
+    sessionMaxAge: number;
+    pageSize: number;
+    /** Days before expiry to notify */
+    expireDiff: number;
+    /** GB before traffic limit to notify */
+    trafficDiff: number;
+    remarkModel: string;
+    tgBotEnable: boolean;
+    tgBotToken: string;
+    tgBotProxy: string;
+    tgBotAPIServer: string;
+    tgBotChatId: string;
+    tgRunTime: string;
+    tgBotBackup: boolean;
+    tgBotLoginNotify: boolean;
+    tgCpu: number;
+    tgLang: string;
+    timeLocation: string;
+    twoFactorEnable: boolean;
+    twoFactorToken: string;
+    subEnable: boolean;
+    subJsonEnable: boolean;
+    subTitle: string;
+    subListen: string;
+    subPort: number;
+    /** Subscription URL path, starts and ends with "/" */
+    subPath: string;
+    subDomain: string;
+    subCertFile: string;
+    subKeyFile: string;
+    /** Client update interval in hours */
+    subUpdates: number;
+    externalTrafficInformEnable: boolean;
+    externalTrafficInformURI: string;
+    subEncrypt: boolean;
+    subShowInfo: boolean;
+    subURI: string;
+    subJsonPath: string;
+    subJsonURI: string;
+    subJsonFragment: string;
+    subJsonNoises: string;
+    subJsonMux: string;
+    subJsonRules: string;
+    datepicker: string;
+}
+
+/**
+ * Defaults the panel UI uses for new inbounds and clients
+ */
+export interface PanelDefaultSettings {
+    expireDiff?: number;
+    trafficDiff?: number;
+    ipLimitEnable?: boolean;
+    pageSize?: number;
+    remarkModel?: string;
+    datepicker?: string;
+    tgBotEnable?: boolean;
+    subEnable?: boolean;
+    subURI?: string;
+    subJsonURI?: string;
+    defaultCert?: string;
+    defaultKey?: string;
+    [key: string]: unknown;
+}
+
+/**
+ * Subscription service settings (subset of PanelSettings)
+ */
+export interface SubscriptionSettings {
+    enable: boolean;
+    jsonEnable: boolean;
+    title: string;
+    listen: string;
+    port: number;
+    path: string;
+    domain: string;
+    certFile: string;
+    keyFile: string;
+    updates: number;
+    /** Base64 encode subscription responses */
+    encrypt: boolean;
+    showInfo: boolean;
+    uri: string;
+    jsonPath: string;
+    jsonUri: string;
+}
+
+export interface SettingChange<K extends string = string> {
+    key: K;
+    from: unknown;
+    to: unknown;
+}
+
+export interface SettingsUpdateResult<T> {
+    settings: T;
+    changes: SettingChange<Extract<keyof T, string>>[];
+}
+
+export interface AdminCredentialsUpdate {
+    oldUsername: string;
+    oldPassword: string;
+    newUsername: string;
+    newPassword: string;
+}
+
+/**
+ * Xray config template types
+ */
+export interface XrayOutbound {
+    tag: string;
+    protocol: string;
+    settings?: Record<string, any>;
+    streamSettings?: Record<string, any>;
+    proxySettings?: { tag: string };
+    mux?: { enabled: boolean; concurrency?: number };
+    sendThrough?: string;
+}
+
+export interface XrayRoutingRule {
+    type: 'field';
+    /** Identifies the rule for addRoutingRule/removeRoutingRule */
+    ruleTag?: string;
+    outboundTag?: string;
+    balancerTag?: string;
+    /** Domains: "geosite:ru", "domain:example.com", "regexp:\\.ru$", "full:example.com" */
+    domain?: string[];
+    /** IPs or CIDRs: "geoip:ru", "10.0.0.0/8" */
+    ip?: string[];
+    port?: string | number;
+    sourcePort?: string | number;
+    network?: 'tcp' | 'udp' | 'tcp,udp';
+    source?: string[];
+    user?: string[];
+    inboundTag?: string[];
+    protocol?: Array<'http' | 'tls' | 'quic' | 'bittorrent'>;
+    attrs?: Record<string, string>;
+}
+
+export interface XrayBalancer {
+    tag: string;
+    /** Outbound tag prefixes to balance between */
+    selector: string[];
+    strategy?: { type: 'random' | 'roundRobin' | 'leastPing' | 'leastLoad'; settings?: Record<string, any> };
+    fallbackTag?: string;
+}
+
+export interface XrayRouting {
+    domainStrategy?: 'AsIs' | 'IPIfNonMatch' | 'IPOnDemand';
+    rules: XrayRoutingRule[];
+    balancers?: XrayBalancer[];
+}
+
+export interface XrayConfig {
+    log?: Record<string, any>;
+    api?: Record<string, any>;
+    dns?: Record<string, any>;
+    inbounds?: Array<Record<string, any>>;
+    outbounds: XrayOutbound[];
+    routing?: XrayRouting;
+    policy?: Record<string, any>;
+    stats?: Record<string, any>;
+    observatory?: Record<string, any>;
+    [key: string]: unknown;
+}
+
+export interface XraySocksOutboundOptions {
+    address: string;
+    port: number;
+    user?: string;
+    pass?: string;
+}
+
+export interface XrayWireguardPeer {
+    publicKey: string;
+    /** host:port */
+    endpoint: string;
+    allowedIPs?: string[];
+    keepAlive?: number;
+}
+
+export interface XrayWireguardOutboundOptions {
+    secretKey: string;
+    /** Interface addresses, e.g. ["172.16.0.2/32", "2606:4700::2/128"] */
+    address: string[];
+    peers: XrayWireguardPeer[];
+    mtu?: number;
+    /** WARP client id bytes */
+    reserved?: number[];
+    domainStrategy?: 'ForceIP' | 'ForceIPv4' | 'ForceIPv6' | 'ForceIPv4v6' | 'ForceIPv6v4';
+}
+
+/** Panel returns xraySetting and inboundTags as one JSON string */
+export type XraySettingResponse = ApiResponse<string | { xraySetting: XrayConfig | string; inboundTags?: string[] }>;
+
+export interface XrayRuleInsertOptions {
+    /** Where to insert a new rule (default: end). Existing rules with the same ruleTag are replaced in place. */
+    position?: 'start' | 'end';
+}
 
 /**
  * Request types
@@ -160,6 +749,54 @@ export interface UpdateInboundRequest extends Partial<AddInboundRequest> {
     id: number;
 }
 
+/**
+ * InboundBuilder options
+ */
+export interface InboundTlsOptions {
+    serverName: string;
+    certificateFile: string;
+    keyFile: string;
+    alpn?: string[];
+    /** uTLS fingerprint for client links (default: chrome) */
+    fingerprint?: string;
+}
+
+export interface InboundRealityOptions {
+    /** Site Reality borrows the TLS handshake from (default: google.com:443) */
+    dest?: string;
+    /** Allowed SNI values (default: host of dest) */
+    serverNames?: string[];
+    /** x25519 private key (default: generated) */
+    privateKey?: string;
+    /** Allowed short IDs (default: generated) */
+    shortIds?: string[];
+    fingerprint?: string;
+    spiderX?: string;
+}
+
+export interface InboundPresetOptions {
+    port: number;
+    remark?: string;
+    listen?: string;
+}
+
+export interface VlessRealityPresetOptions extends InboundPresetOptions, InboundRealityOptions { }
+
+export interface VmessWsPresetOptions extends InboundPresetOptions, InboundTlsOptions {
+    path?: string;
+    host?: string;
+}
+
+export interface TrojanGrpcPresetOptions extends InboundPresetOptions, InboundTlsOptions {
+    serviceName?: string;
+}
+
+export interface Shadowsocks2022PresetOptions extends InboundPresetOptions {
+    method?: '2022-blake3-aes-128-gcm' | '2022-blake3-aes-256-gcm' | '2022-blake3-chacha20-poly1305';
+    /** Server key (default: generated for the method) */
+    password?: string;
+}
+
 export interface AddClientRequest {
     id: number;
     settings: string;
@@ -191,6 +828,13 @@ export class AuthenticationError extends ApiError {
     }
 }
 
+export class TwoFactorError extends AuthenticationError {
+    constructor(message: string = 'Two-factor code rejected') {
+        super(message);
+        this.name = 'TwoFactorError';
+    }
+}
+
 export class ValidationError extends ApiError {
     constructor(message: string, public field?: string) {
         super(message, 400);
@@ -198,6 +842,20 @@ export class ValidationError extends ApiError {
     }
 }
 
+export class SchemaValidationError extends ApiError {
+    constructor(message: string, public issues: SchemaIssue[] = []) {
+        super(message);
+        this.name = 'SchemaValidationError';
+    }
+}
+
+export class WriteConflictError extends ApiError {
+    constructor(message: string, public inboundId?: number) {
+        super(message, 409);
+        this.name = 'WriteConflictError';
+    }
+}
+
 export class NetworkError extends ApiError {
     constructor(message: string, statusCode?: number) {
         super(message, statusCode);
@@ -205,16 +863,148 @@ export class NetworkError extends ApiError {
     }
 }
 
+/**
+ * TOTP generation options (RFC 6238)
+ */
+export interface TotpOptions {
+    /** Code length (default: 6) */
+    digits?: number;
+    /** Time step in seconds (default: 30) */
+    period?: number;
+    /** HMAC algorithm (default: sha1) */
+    algorithm?: 'sha1' | 'sha256' | 'sha512';
+    /** Time to generate code for in ms (default: now) */
+    timestamp?: number;
+}
+
+/**
+ * Two-factor authentication: static code, TOTP secret or code callback.
+ * A static code is sent on the first login only, re-login after session expiry fails with TwoFactorError.
+ */
+export type TwoFactorConfig =
+    | { code: string }
+    | ({ secret: string } & Omit<TotpOptions, 'timestamp'>)
+    | { getCode: () => string | Promise<string> };
+
+/**
+ * x25519 keypair for VLESS Reality, base64url without padding (as printed by `xray x25519`)
+ */
+export interface RealityKeyPair {
+    /** Goes to the inbound realitySettings.privateKey */
+    privateKey: string;
+    /** Goes to client links (pbk) */
+    publicKey: string;
+}
+
+/**
+ * Persisted panel session
+ */
+export interface StoredSession {
+    sessionCookie: string;
+    lastLoginTime: number;
+}
+
+/**
+ * Storage for panel sessions, keyed by panel URL and username
+ */
+export interface SessionStore {
+    get(key: string): Promise<StoredSession | null> | StoredSession | null;
+    set(key: string, session: StoredSession): Promise<void> | void;
+    delete(key: string): Promise<void> | void;
+}
+
+/**
+ * Log levels in increasing severity
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured log fields
+ */
+export interface LogFields {
+    operation?: string;
+    inboundId?: number;
+    email?: string;
+    attempt?: number;
+    [key: string]: unknown;
+}
+
+/**
+ * Structured logger
+ */
+export interface Logger {
+    debug(message: string, fields?: LogFields): void;
+    info(message: string, fields?: LogFields): void;
+    warn(message: string, fields?: LogFields): void;
+    error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * Fetch-compatible HTTP transport
+ */
+export type HttpTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Outgoing request seen by interceptors
+ */
+export interface HttpRequestContext {
+    /** Full request URL */
+    url: string;
+    /** Panel path, e.g. /panel/api/inbounds/list */
+    path: string;
+    init: RequestInit;
+}
+
+/**
+ * Request/response interceptor. Hooks may return a replacement value or nothing to keep the original.
+ */
+export interface HttpInterceptor {
+    /** Called before the request is sent */
+    onRequest?(request: HttpRequestContext): HttpRequestContext | void | Promise<HttpRequestContext | void>;
+    /** Called after a response is received */
+    onResponse?(response: Response, request: HttpRequestContext): Response | void | Promise<Response | void>;
+    /** Called when the transport fails; returning a Response recovers from the error */
+    onError?(error: Error, request: HttpRequestContext): Response | void | Promise<Response | void>;
+}
+
+/**
+ * What mutations (add/update of inbounds and clients) return:
+ * the resulting entity, or `true` like releases before entity results
+ */
+export type MutationResultMode = 'entity' | 'boolean';
+
+export type MutationResult<M extends MutationResultMode, T> = M extends 'boolean' ? boolean : T;
+
 /**
  * Client configuration
  */
-export interface ClientConfig {
+export interface ClientConfig<M extends MutationResultMode = 'entity'> {
     baseUrl: string;
     username: string;
     password: string;
     timeout?: number;
     retryAttempts?: number;
     retryDelay?: number;
+    /** Two-factor authentication for panels with 2FA enabled */
+    twoFactor?: TwoFactorConfig;
+    /** Persist session cookie between processes (default: in-process only) */
+    sessionStore?: SessionStore;
+    /** Session lifetime before re-login in ms (default: 3600000) */
+    sessionTtl?: number;
+    /** HTTP transport (default: global fetch) */
+    transport?: HttpTransport;
+    /** Interceptors applied to every request in order */
+    interceptors?: HttpInterceptor[];
+    /** User-Agent header (default: 3xui-api-client/1.0.0) */
+    userAgent?: string;
+    /** Structured logger (default: silent) */
+    logger?: Logger;
+    /** Check inbound responses against the expected schema: log drift (warn, default), throw (strict) or skip (off) */
+    schemaValidation?: SchemaValidationMode;
+    /** Return created/updated entities (default) or `true` for compatibility with older code */
+    mutationResult?: M;
+    /** Repeat a client/peer write that a concurrent writer overwrote, up to N times (default: 2) */
+    lostUpdateRetries?: number;
 }
 
 /**
@@ -238,6 +1028,438 @@ export interface SubscriptionInfo {
     }>;
 }
 
+/**
+ * Share link generation options
+ */
+export interface ShareLinkOptions {
+    /** Server address clients connect to (defaults to the inbound listen address) */
+    address?: string;
+    /** Link remark (defaults to "<inbound remark>-<client email>") */
+    remark?: string;
+}
+
+/**
+ * Subscription traffic summary for the subscription-userinfo header
+ */
+export interface SubscriptionUserInfo {
+    /** Uploaded bytes */
+    upload: number;
+    /** Downloaded bytes */
+    download: number;
+    /** Traffic limit in bytes (0 means unlimited) */
+    total: number;
+    /** Expiry as unix timestamp in seconds (0 means no expiry) */
+    expire: number;
+}
+
+/**
+ * Rendered subscription feed
+ */
+export interface SubscriptionFeed {
+    subId: string;
+    links: string[];
+    /** Base64 encoded newline-separated links */
+    content: string;
+    userInfo: SubscriptionUserInfo;
+    headers: Record<string, string>;
+}
+
+/**
+ * Subscription feed options
+ */
+export interface SubscriptionFeedOptions {
+    /** Server address clients connect to */
+    address?: string;
+    /** Include disabled clients in the feed (default: false) */
+    includeDisabled?: boolean;
+}
+
+/**
+ * Share link parsed back into client and transport description
+ */
+export interface ParsedShareLink {
+    protocol: 'vmess' | 'vless' | 'trojan' | 'shadowsocks';
+    address: string;
+    port: number;
+    /** UUID for VMESS/VLESS */
+    id?: string;
+    /** Password for TROJAN/Shadowsocks */
+    password?: string;
+    /** Shadowsocks cipher */
+    method?: string;
+    /** Shadowsocks-2022 server key for multi-user inbounds */
+    serverPassword?: string;
+    /** VLESS flow */
+    flow?: string;
+    /** VMESS alterId */
+    alterId?: number;
+    /** VMESS cipher */
+    security?: string;
+    streamSettings: InboundStreamSettings;
+    remark: string;
+}
+
+/**
+ * Subscription client resolved into connection endpoint
+ */
+export interface SubscriptionEndpoint extends ParsedShareLink {
+    inboundId: number;
+    email: string;
+    /** Share link the endpoint was parsed from */
+    link: string;
+}
+
+/**
+ * Subscription client left out of an export, with the reason
+ */
+export interface SkippedEndpoint {
+    inboundId: number;
+    email: string;
+    protocol: string;
+    reason: string;
+}
+
+/**
+ * Client config export options
+ */
+export interface ConfigExportOptions extends SubscriptionFeedOptions {
+    /** Throw ValidationError instead of reporting skipped clients */
+    strict?: boolean;
+}
+
+/**
+ * Clash/Mihomo proxy entry
+ */
+export interface ClashProxy {
+    name: string;
+    type: 'vless' | 'vmess' | 'trojan' | 'ss';
+    server: string;
+    port: number;
+    udp?: boolean;
+    [key: string]: any;
+}
+
+/**
+ * Clash/Mihomo proxy group
+ */
+export interface ClashProxyGroup {
+    name: string;
+    type: 'select' | 'url-test' | 'fallback' | 'load-balance';
+    proxies: string[];
+    url?: string;
+    interval?: number;
+}
+
+/**
+ * Clash/Mihomo configuration
+ */
+export interface ClashConfig {
+    'mixed-port': number;
+    'allow-lan': boolean;
+    mode: 'rule' | 'global' | 'direct';
+    'log-level': string;
+    proxies: ClashProxy[];
+    'proxy-groups': ClashProxyGroup[];
+    rules: string[];
+}
+
+/**
+ * Clash export options
+ */
+export interface ClashExportOptions extends ConfigExportOptions {
+    /** Rules placed before the final MATCH rule */
+    rules?: string[];
+    /** url-test probe URL */
+    testUrl?: string;
+    /** url-test interval in seconds */
+    testInterval?: number;
+}
+
+/**
+ * Clash export result
+ */
+export interface ClashExportResult {
+    config: ClashConfig;
+    yaml: string;
+    skipped: SkippedEndpoint[];
+}
+
+/**
+ * sing-box outbound
+ */
+export interface SingBoxOutbound {
+    type: string;
+    tag: string;
+    [key: string]: any;
+}
+
+/**
+ * sing-box configuration
+ */
+export interface SingBoxConfig {
+    log: { level: string; timestamp?: boolean };
+    dns: Record<string, any>;
+    inbounds: Array<Record<string, any>>;
+    outbounds: SingBoxOutbound[];
+    route: Record<string, any>;
+}
+
+/**
+ * sing-box export options
+ */
+export interface SingBoxExportOptions extends ConfigExportOptions {
+    /** Replace default TUN inbound */
+    inbounds?: Array<Record<string, any>>;
+    /** url-test probe URL */
+    testUrl?: string;
+    /** url-test interval (sing-box duration, e.g. "3m") */
+    testInterval?: string;
+}
+
+/**
+ * sing-box export result
+ */
+export interface SingBoxExportResult {
+    config: SingBoxConfig;
+    json: string;
+    /** Proxy outbounds only, without selector/urltest/direct */
+    outbounds: SingBoxOutbound[];
+    skipped: SkippedEndpoint[];
+}
+
+/**
+ * Subscription output formats
+ */
+export type SubscriptionFormat = 'base64' | 'clash' | 'singbox';
+
+/**
+ * Local subscription server options
+ */
+export interface SubscriptionServerOptions {
+    /** Server address used in generated links */
+    address: string;
+    /** Listen port (default: 2096) */
+    port?: number;
+    /** Listen hostname (default: 0.0.0.0) */
+    hostname?: string;
+    /** URL path prefix (default: /sub) */
+    path?: string;
+    /** How long panel reads are cached in ms (default: 30000) */
+    cacheTtl?: number;
+    /** profile-update-interval header value in hours (default: 12) */
+    updateInterval?: number;
+    /** profile-title header and download file name (default: subId) */
+    profileTitle?: string;
+    /** Format used when neither query nor User-Agent selects one (default: base64) */
+    defaultFormat?: SubscriptionFormat;
+    /** Include disabled clients (default: false) */
+    includeDisabled?: boolean;
+    /** Structured logger (default: silent) */
+    logger?: Logger;
+}
+
+/**
+ * Cluster configuration
+ */
+export interface ClusterConfig {
+    /** Panels keyed by node name */
+    panels: Record<string, ClientConfig>;
+    /** Logger for cluster events, also default logger of every panel */
+    logger?: Logger;
+}
+
+/**
+ * Value returned by one cluster node
+ */
+export interface ClusterNodeResult<T> {
+    node: string;
+    value: T;
+}
+
+/**
+ * Failure of one cluster node
+ */
+export interface ClusterNodeError {
+    node: string;
+    error: Error;
+}
+
+/**
+ * Per-node outcome of a cluster call, failed nodes do not fail the call
+ */
+export interface ClusterResult<T> {
+    results: ClusterNodeResult<T>[];
+    errors: ClusterNodeError[];
+}
+
+/**
+ * Item labeled with the node it came from
+ */
+export type ClusterItem<T> = T & { node: string };
+
+/**
+ * Merged items of a cluster read
+ */
+export interface ClusterListResult<T> {
+    items: ClusterItem<T>[];
+    errors: ClusterNodeError[];
+}
+
+/**
+ * Health of one cluster node, based on the calls made through the cluster
+ */
+export interface ClusterNodeHealth {
+    node: string;
+    baseUrl: string;
+    status: 'unknown' | 'healthy' | 'unhealthy';
+    consecutiveFailures: number;
+    lastSuccessAt?: Date;
+    lastFailureAt?: Date;
+    lastError?: string;
+    /** Duration of the last call in ms */
+    latencyMs?: number;
+    circuitBreakerOpen: boolean;
+}
+
+/**
+ * Options of cluster-wide subscription operations
+ */
+export interface ClusterSubscriptionOptions {
+    /** Nodes to run on (default: all) */
+    nodes?: string[];
+    /** Extra rounds for nodes that failed (default: 2) */
+    retries?: number;
+    /** Delay before each retry round in ms (default: 1000) */
+    retryDelay?: number;
+}
+
+/**
+ * Outcome of a subscription operation on one node
+ */
+export interface ClusterSubscriptionNodeResult {
+    node: string;
+    /** Clients (inbounds) processed successfully */
+    success: number;
+    /** Clients (inbounds) that failed in the last attempt */
+    failed: number;
+    attempts: number;
+    errors: string[];
+}
+
+/**
+ * Outcome of a subscription operation across the cluster
+ */
+export interface ClusterSubscriptionResult {
+    subId: string;
+    nodes: ClusterSubscriptionNodeResult[];
+    /** Nodes still failing after all retries */
+    failedNodes: string[];
+}
+
+/**
+ * Options of the merged cluster subscription feed
+ */
+export interface ClusterSubscriptionFeedOptions {
+    /** Server address per node (default: node panel host) */
+    addresses?: Record<string, string>;
+    /** Include disabled clients (default: false) */
+    includeDisabled?: boolean;
+}
+
+/**
+ * Subscription feed merged from all nodes
+ */
+export interface ClusterSubscriptionFeed extends SubscriptionFeed {
+    /** Nodes the subscription was found on */
+    nodes: string[];
+    errors: ClusterNodeError[];
+}
+
+/**
+ * Fault injection settings of the mock panel
+ */
+export interface MockPanelFaults {
+    /** Delay before every response in ms, fixed or [min, max] (default: 0) */
+    latency?: number | [number, number];
+    /** Share of API requests answered with HTTP 500, 0..1 (default: 0) */
+    errorRate?: number;
+    /** Session lifetime in ms, expired cookies get HTTP 401 (default: never) */
+    sessionTtl?: number;
+}
+
+/**
+ * Mock panel configuration
+ */
+export interface MockPanelOptions {
+    /** Base URL the mock answers on (default: http://mock-panel.local) */
+    baseUrl?: string;
+    username?: string;
+    password?: string;
+    /** Require this two-factor code on login */
+    twoFactorCode?: string;
+    /** Inbounds the panel starts with */
+    inbounds?: Array<Partial<Inbound> & Pick<Inbound, 'protocol' | 'port'>>;
+    /** Return settings/streamSettings/sniffing as JSON strings like a real panel (default: false) */
+    serializeFields?: boolean;
+    /** Installed Xray version reported by /server/status (default: newest installable version) */
+    xrayVersion?: string;
+    /** SQLite file served by /server/getDb (default: empty database) */
+    database?: Uint8Array;
+    /** Panel settings that differ from a fresh install */
+    settings?: Partial<PanelSettings>;
+    /** Xray config template (default: template of a fresh install) */
+    xrayTemplate?: XrayConfig;
+    faults?: MockPanelFaults;
+}
+
+/**
+ * Request recorded by the mock panel
+ */
+export interface MockPanelRequest {
+    method: string;
+    path: string;
+    status: number;
+}
+
+/**
+ * QR code error correction level
+ */
+export type QrErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+/**
+ * QR code output formats
+ */
+export type QrCodeFormat = 'svg' | 'png' | 'terminal';
+
+/**
+ * Encoded QR code matrix
+ */
+export interface QrCode {
+    version: number;
+    size: number;
+    errorCorrection: QrErrorCorrectionLevel;
+    /** modules[y][x], true for dark */
+    modules: boolean[][];
+}
+
+/**
+ * QR code rendering options
+ */
+export interface QrCodeOptions {
+    /** Error correction level (default: M) */
+    errorCorrection?: QrErrorCorrectionLevel;
+    /** Quiet zone in modules (default: 4, terminal: 2) */
+    margin?: number;
+    /** Pixels per module for SVG/PNG (default: 8) */
+    scale?: number;
+    /** Dark module color as #rgb or #rrggbb (default: #000000) */
+    dark?: string;
+    /** Light module color as #rgb or #rrggbb (default: #ffffff) */
+    light?: string;
+    /** Terminal output: draw dark modules instead of light ones (for light terminal themes) */
+    invert?: boolean;
+}
+
 /**
  * Traffic size units
  */
@@ -0,0 +1,78 @@
+import { describe, expect, test } from 'bun:test';
+
+import {
+    ValidationError,
+    generateRealityKeyPair,
+    generateShadowsocksPassword,
+    generateShortId,
+    generateShortIds,
+    generateWireguardKeyPair,
+    getRealityPublicKey,
+    getWireguardPublicKey,
+    validateShadowsocksPassword
+} from './index';
+
+// RFC 7748 section 6.1 test vector
+const X25519_PRIVATE = '77076d0a7318a57d3c16c17251b26645df4c2f87ebc0992ab177fba51db92c2a';
+const X25519_PUBLIC = '8520f0098930a754748b7ddcb43ef75a0dbf3a0d26381af4eba4a98eaa9b4e6a';
+
+describe('shadowsocks keys', () => {
+    test('2022 methods get keys of the method key size', () => {
+        expect(Buffer.from(generateShadowsocksPassword('2022-blake3-aes-128-gcm'), 'base64').length).toBe(16);
+        expect(Buffer.from(generateShadowsocksPassword('2022-blake3-aes-256-gcm'), 'base64').length).toBe(32);
+        expect(Buffer.from(generateShadowsocksPassword('2022-blake3-chacha20-poly1305'), 'base64').length).toBe(32);
+    });
+
+    test('2022 keys are checked for size and base64', () => {
+        const key = generateShadowsocksPassword('2022-blake3-aes-128-gcm');
+
+        expect(validateShadowsocksPassword(key, '2022-blake3-aes-128-gcm')).toBe(true);
+        expect(validateShadowsocksPassword(key, '2022-blake3-aes-256-gcm')).toBe(false);
+        expect(validateShadowsocksPassword('not a key!', '2022-blake3-aes-128-gcm')).toBe(false);
+    });
+
+    test('pre-2022 methods accept any non-empty password', () => {
+        expect(validateShadowsocksPassword('secret', 'aes-256-gcm')).toBe(true);
+        expect(validateShadowsocksPassword('', 'aes-256-gcm')).toBe(false);
+    });
+});
+
+describe('x25519 keys', () => {
+    test('Reality public key matches the RFC 7748 vector in base64url', () => {
+        const privateKey = Buffer.from(X25519_PRIVATE, 'hex').toString('base64url');
+
+        expect(getRealityPublicKey(privateKey)).toBe(Buffer.from(X25519_PUBLIC, 'hex').toString('base64url'));
+    });
+
+    test('WireGuard public key matches the RFC 7748 vector in base64', () => {
+        const privateKey = Buffer.from(X25519_PRIVATE, 'hex').toString('base64');
+
+        expect(getWireguardPublicKey(privateKey)).toBe(Buffer.from(X25519_PUBLIC, 'hex').toString('base64'));
+    });
+
+    test('generated keypairs are consistent', () => {
+        const reality = generateRealityKeyPair();
+        const wireguard = generateWireguardKeyPair();
+
+        expect(reality.privateKey).not.toMatch(/[+/=]/);
+        expect(getRealityPublicKey(reality.privateKey)).toBe(reality.publicKey);
+        expect(getWireguardPublicKey(wireguard.privateKey)).toBe(wireguard.publicKey);
+    });
+
+    test('private key of the wrong size is rejected', () => {
+        expect(() => getRealityPublicKey('c2hvcnQ')).toThrow(ValidationError);
+    });
+});
+
+describe('Reality short IDs', () => {
+    test('hex strings of the requested lengths', () => {
+        expect(generateShortIds([0, 4, 16]).map(id => id.length)).toEqual([0, 4, 16]);
+        expect(generateShortId()).toMatch(/^[0-9a-f]{8}$/);
+        expect(generateShortIds()).toHaveLength(8);
+    });
+
+    test('odd or too long lengths are rejected', () => {
+        expect(() => generateShortId(3)).toThrow('Short ID length must be an even number from 0 to 16');
+        expect(() => generateShortId(18)).toThrow(ValidationError);
+    });
+});
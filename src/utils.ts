@@ -4,7 +4,9 @@ import {
     NetworkError,
     ValidationError
 } from './types';
-import type { TrafficConfig, TrafficUnit } from './types';
+import type { Logger, MutationResult, MutationResultMode, RealityKeyPair, TotpOptions, TrafficConfig, TrafficUnit, WireguardKeyPair } from './types';
+import { createHmac, createPrivateKey, createPublicKey, randomBytes } from 'node:crypto';
+import { silentLogger } from './logger';
 
 /**
  * Retry configuration
@@ -13,6 +15,9 @@ export interface RetryOptions {
     maxRetries?: number;
     backoffMs?: number;
     retryableErrors?: (error: any) => boolean;
+    logger?: Logger;
+    /** Operation name reported in retry logs */
+    operation?: string;
 }
 
 /**
@@ -28,7 +33,9 @@ export async function resilientApiCall<T>(
         retryableErrors = (error) =>
             error instanceof NetworkError &&
             error.statusCode !== 401 &&
-            error.statusCode !== 403
+            error.statusCode !== 403,
+        logger = silentLogger,
+        operation
     } = options;
 
     let lastError: any;
@@ -44,7 +51,12 @@ export async function resilientApiCall<T>(
             }
 
             const delay = backoffMs * Math.pow(2, attempt) + Math.random() * 1000;
-            console.warn(`API call failed, retrying in ${Math.round(delay)}ms. Attempt ${attempt + 1}/${maxRetries + 1}`);
+            logger.warn(`API call failed, retrying in ${Math.round(delay)}ms`, {
+                operation,
+                attempt: attempt + 1,
+                maxAttempts: maxRetries + 1,
+                error: error instanceof Error ? error.message : String(error)
+            });
 
             await new Promise(resolve => setTimeout(resolve, delay));
         }
@@ -65,7 +77,8 @@ export class CircuitBreaker {
         private fn: Function,
         private threshold: number = 5,
         private timeout: number = 60000,
-        name: string = 'unknown'
+        name: string = 'unknown',
+        private logger: Logger = silentLogger
     ) {
         this.name = name;
     }
@@ -86,7 +99,10 @@ export class CircuitBreaker {
             this.failures++;
             if (this.failures >= this.threshold) {
                 this.nextAttempt = Date.now() + this.timeout;
-                console.error(`Circuit breaker for ${this.name} opened after ${this.failures} failures`);
+                this.logger.error(`Circuit breaker for ${this.name} opened after ${this.failures} failures`, {
+                    operation: 'circuitBreaker',
+                    failures: this.failures
+                });
             }
             throw error;
         }
@@ -172,11 +188,11 @@ export function validateInboundId(id: number): boolean {
 /**
  * Safe JSON parsing with error handling
  */
-export function safeJsonParse<T = any>(jsonString: string, fallback: T): T {
+export function safeJsonParse<T = any>(jsonString: string, fallback: T, logger: Logger = silentLogger): T {
     try {
         return JSON.parse(jsonString) as T;
     } catch (error) {
-        console.warn('Failed to parse JSON:', error);
+        logger.warn('Failed to parse JSON', { error: error instanceof Error ? error.message : String(error) });
         return fallback;
     }
 }
@@ -184,11 +200,11 @@ export function safeJsonParse<T = any>(jsonString: string, fallback: T): T {
 /**
  * Safe JSON stringifying with error handling
  */
-export function safeJsonStringify(obj: any, fallback: string = '{}'): string {
+export function safeJsonStringify(obj: any, fallback: string = '{}', logger: Logger = silentLogger): string {
     try {
         return JSON.stringify(obj);
     } catch (error) {
-        console.warn('Failed to stringify JSON:', error);
+        logger.warn('Failed to stringify JSON', { error: error instanceof Error ? error.message : String(error) });
         return fallback;
     }
 }
@@ -219,12 +235,13 @@ export function validateClientId(clientId: string, protocol: string): boolean {
 export async function withFallback<T>(
     primaryFn: () => Promise<T>,
     fallbackFn: () => T | Promise<T>,
-    errorMessage: string = 'Primary operation failed, using fallback'
+    errorMessage: string = 'Primary operation failed, using fallback',
+    logger: Logger = silentLogger
 ): Promise<T> {
     try {
         return await primaryFn();
     } catch (error) {
-        console.warn(errorMessage, error);
+        logger.warn(errorMessage, { error: error instanceof Error ? error.message : String(error) });
         return await fallbackFn();
     }
 }
@@ -303,6 +320,140 @@ export function generateUUID(): string {
     return crypto.randomUUID();
 }
 
+/** PKCS#8 DER prefix of a raw 32-byte X25519 private key */
+const X25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b656e04220420', 'hex');
+
+/** Key sizes in bytes of Shadowsocks 2022 methods */
+export const SHADOWSOCKS_2022_KEY_SIZES: Record<string, number> = {
+    '2022-blake3-aes-128-gcm': 16,
+    '2022-blake3-aes-256-gcm': 32,
+    '2022-blake3-chacha20-poly1305': 32
+};
+
+/**
+ * Generate x25519 keypair for VLESS Reality
+ */
+export function generateRealityKeyPair(): RealityKeyPair {
+    const privateKey = generateX25519PrivateKey().toString('base64url');
+    return { privateKey, publicKey: getRealityPublicKey(privateKey) };
+}
+
+/**
+ * Derive Reality public key from a private key (like `xray x25519 -i`)
+ */
+export function getRealityPublicKey(privateKey: string): string {
+    const raw = Buffer.from(privateKey ?? '', 'base64url');
+
+    if (raw.length !== 32) {
+        throw new ValidationError('Reality private key must be 32 bytes in base64url', 'privateKey');
+    }
+
+    return deriveX25519PublicKey(raw).toString('base64url');
+}
+
+/**
+ * Generate WireGuard keypair (like `wg genkey | wg pubkey`)
+ */
+export function generateWireguardKeyPair(): WireguardKeyPair {
+    const privateKey = generateX25519PrivateKey().toString('base64');
+    return { privateKey, publicKey: getWireguardPublicKey(privateKey) };
+}
+
+/**
+ * Derive WireGuard public key from a private key
+ */
+export function getWireguardPublicKey(privateKey: string): string {
+    const raw = Buffer.from(privateKey ?? '', 'base64');
+
+    if (raw.length !== 32) {
+        throw new ValidationError('WireGuard private key must be 32 bytes in base64', 'privateKey');
+    }
+
+    return deriveX25519PublicKey(raw).toString('base64');
+}
+
+/**
+ * Generate WireGuard pre-shared key
+ */
+export function generateWireguardPresharedKey(): string {
+    return randomBytes(32).toString('base64');
+}
+
+function generateX25519PrivateKey(): Buffer {
+    const privateKey = randomBytes(32);
+
+    // Clamp the scalar the same way `xray x25519` and `wg genkey` do
+    privateKey[0]! &= 248;
+    privateKey[31]! &= 127;
+    privateKey[31]! |= 64;
+
+    return privateKey;
+}
+
+function deriveX25519PublicKey(privateKey: Buffer): Buffer {
+    const key = createPrivateKey({
+        key: Buffer.concat([X25519_PKCS8_PREFIX, privateKey]),
+        format: 'der',
+        type: 'pkcs8'
+    });
+
+    return Buffer.from(createPublicKey(key).export({ format: 'jwk' }).x!, 'base64url');
+}
+
+/** Inbound protocols that carry clients (and can join subscriptions) */
+const CLIENT_PROTOCOLS = ['vmess', 'vless', 'trojan', 'shadowsocks'];
+
+/**
+ * Check whether inbound protocol has clients. WireGuard has peers, mixed has accounts, tunnel has neither.
+ */
+export function protocolSupportsClients(protocol: string): boolean {
+    return CLIENT_PROTOCOLS.includes(protocol?.toLowerCase());
+}
+
+/**
+ * Generate Reality shortId: hex string of even length up to 16
+ */
+export function generateShortId(length: number = 8): string {
+    if (!Number.isInteger(length) || length < 0 || length > 16 || length % 2 !== 0) {
+        throw new ValidationError('Short ID length must be an even number from 0 to 16', 'length');
+    }
+
+    return randomBytes(length / 2).toString('hex');
+}
+
+/**
+ * Generate Reality shortIds, one per requested length (default: one of each length 2..16 like the panel)
+ */
+export function generateShortIds(lengths: number[] = [2, 4, 6, 8, 10, 12, 14, 16]): string[] {
+    return lengths.map(length => generateShortId(length));
+}
+
+/**
+ * Generate Shadowsocks password. 2022 methods get a base64 key of the size the method requires,
+ * other methods get a random 32-byte base64 password.
+ */
+export function generateShadowsocksPassword(method: string = '2022-blake3-aes-256-gcm'): string {
+    return randomBytes(SHADOWSOCKS_2022_KEY_SIZES[method] ?? 32).toString('base64');
+}
+
+/**
+ * Check that password is a valid key for the Shadowsocks method.
+ * Any non-empty password is valid for pre-2022 methods.
+ */
+export function validateShadowsocksPassword(password: string, method: string): boolean {
+    if (!password) {
+        return false;
+    }
+
+    const keySize = SHADOWSOCKS_2022_KEY_SIZES[method];
+
+    if (keySize === undefined) {
+        return true;
+    }
+
+    return /^[A-Za-z0-9+/]+={0,2}$/.test(password) && Buffer.from(password, 'base64').length === keySize;
+}
+
 /**
  * Generate random email from 8 random bytes (like "8s884159@x.ui")
  */
@@ -315,4 +466,193 @@ export function generateRandomEmail(): string {
     }
 
     return `${result}`;
-} 
\ No newline at end of file
+}
+
+/**
+ * Decode RFC 4648 base32 string (TOTP secrets)
+ */
+export function decodeBase32(value: string): Uint8Array {
+    const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+    const normalized = value.toUpperCase().replace(/[\s=-]/g, '');
+    const bytes: number[] = [];
+
+    let buffer = 0;
+    let bits = 0;
+
+    for (const char of normalized) {
+        const index = alphabet.indexOf(char);
+        if (index === -1) {
+            throw new ValidationError(`Invalid base32 character: ${char}`, 'secret');
+        }
+
+        buffer = (buffer << 5) | index;
+        bits += 5;
+
+        if (bits >= 8) {
+            bits -= 8;
+            bytes.push((buffer >>> bits) & 0xff);
+        }
+    }
+
+    return new Uint8Array(bytes);
+}
+
+/**
+ * Generate time-based one-time password (RFC 6238) from base32 secret
+ */
+export function generateTOTP(secret: string, options: TotpOptions = {}): string {
+    const {
+        digits = 6,
+        period = 30,
+        algorithm = 'sha1',
+        timestamp = Date.now()
+    } = options;
+
+    const key = decodeBase32(secret);
+    if (key.length === 0) {
+        throw new ValidationError('TOTP secret is required', 'secret');
+    }
+
+    const counter = Math.floor(timestamp / 1000 / period);
+    const message = Buffer.alloc(8);
+    message.writeUInt32BE(Math.floor(counter / 0x100000000), 0);
+    message.writeUInt32BE(counter % 0x100000000, 4);
+
+    const hmac = createHmac(algorithm, key).update(message).digest();
+    const offset = hmac[hmac.length - 1]! & 0x0f;
+    const binary = ((hmac[offset]! & 0x7f) << 24)
+        | (hmac[offset + 1]! << 16)
+        | (hmac[offset + 2]! << 8)
+        | hmac[offset + 3]!;
+
+    return String(binary % Math.pow(10, digits)).padStart(digits, '0');
+}
+
+/**
+ * Encode UTF-8 string to base64
+ */
+export function encodeBase64(value: string, urlSafe: boolean = false): string {
+    const encoded = Buffer.from(value, 'utf8').toString('base64');
+
+    if (!urlSafe) {
+        return encoded;
+    }
+
+    return encoded.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode base64 (standard or URL-safe, padded or not) to UTF-8 string
+ */
+export function decodeBase64(value: string): string {
+    const normalized = value.trim().replace(/-/g, '+').replace(/_/g, '/');
+    const padded = normalized + '='.repeat((4 - normalized.length % 4) % 4);
+    return Buffer.from(padded, 'base64').toString('utf8');
+}
+
+/**
+ * Resolve mutation return value: `true` in boolean mode (without loading the entity), the entity otherwise
+ */
+export async function toMutationResult<M extends MutationResultMode, T>(
+    mode: MutationResultMode,
+    load: () => T | Promise<T>
+): Promise<MutationResult<M, T>> {
+    if (mode === 'boolean') {
+        return true as MutationResult<M, T>;
+    }
+
+    return await load() as MutationResult<M, T>;
+}
+
+/**
+ * Parse inbound JSON field that the panel may return as a string
+ */
+export function parseInboundField<T>(value: T | string | null | undefined, fallback: T): T {
+    if (value === null || value === undefined || value === '') {
+        return fallback;
+    }
+
+    if (typeof value === 'string') {
+        return safeJsonParse<T>(value, fallback);
+    }
+
+    return value;
+}
+
+/**
+ * Serialize plain data (objects, arrays, scalars) to YAML
+ */
+export function stringifyYaml(value: any): string {
+    return renderYaml(value, 0).join('\n') + '\n';
+}
+
+function renderYaml(value: any, indent: number): string[] {
+    const pad = ' '.repeat(indent);
+
+    if (Array.isArray(value)) {
+        if (value.length === 0) {
+            return [`${pad}[]`];
+        }
+
+        return value.flatMap(item => {
+            if (isYamlCollection(item)) {
+                const [first = '', ...rest] = renderYaml(item, indent + 2);
+                return [`${pad}- ${first.trimStart()}`, ...rest];
+            }
+            return [`${pad}- ${formatYamlScalar(item)}`];
+        });
+    }
+
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+
+        if (entries.length === 0) {
+            return [`${pad}{}`];
+        }
+
+        return entries.flatMap(([key, item]) => {
+            const formattedKey = formatYamlKey(key);
+            if (isYamlCollection(item)) {
+                return [`${pad}${formattedKey}:`, ...renderYaml(item, indent + 2)];
+            }
+            return [`${pad}${formattedKey}: ${formatYamlScalar(item)}`];
+        });
+    }
+
+    return [`${pad}${formatYamlScalar(value)}`];
+}
+
+function isYamlCollection(value: any): boolean {
+    if (Array.isArray(value)) {
+        return value.length > 0;
+    }
+    return !!value && typeof value === 'object' && Object.keys(value).length > 0;
+}
+
+function formatYamlKey(key: string): string {
+    return /^[A-Za-z0-9_-]+$/.test(key) ? key : JSON.stringify(key);
+}
+
+function formatYamlScalar(value: any): string {
+    if (value === null || value === undefined) {
+        return 'null';
+    }
+
+    if (Array.isArray(value)) {
+        return '[]';
+    }
+
+    if (typeof value === 'object') {
+        return '{}';
+    }
+
+    if (typeof value === 'number' || typeof value === 'boolean') {
+        return String(value);
+    }
+
+    const text = String(value);
+    const isPlain = /^[A-Za-z_/][A-Za-z0-9_./-]*$/.test(text) &&
+        !/^(true|false|yes|no|on|off|null|y|n)$/i.test(text);
+
+    return isPlain ? text : JSON.stringify(text);
+}
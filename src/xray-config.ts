@@ -0,0 +1,170 @@
+import { ValidationError } from './types';
+import type {
+    XrayBalancer,
+    XrayOutbound,
+    XrayRoutingRule,
+    XraySocksOutboundOptions,
+    XrayWireguardOutboundOptions
+} from './types';
+
+import { validatePort } from './utils';
+
+const RULE_MATCHERS = [
+    'domain', 'ip', 'port', 'sourcePort', 'network', 'source', 'user', 'inboundTag', 'protocol', 'attrs'
+] as const;
+
+/**
+ * Build a routing rule. Exactly one of outboundTag/balancerTag is required,
+ * plus at least one matcher (domain, ip, port, ...).
+ */
+export function buildRoutingRule(rule: Omit<XrayRoutingRule, 'type'>): XrayRoutingRule {
+    if (!!rule.outboundTag === !!rule.balancerTag) {
+        throw new ValidationError('Routing rule needs exactly one of outboundTag or balancerTag', 'outboundTag');
+    }
+
+    const hasMatcher = RULE_MATCHERS.some(key => {
+        const value = rule[key];
+        if (Array.isArray(value)) {
+            return value.length > 0;
+        }
+        return value !== undefined && value !== '';
+    });
+
+    if (!hasMatcher) {
+        throw new ValidationError('Routing rule needs at least one condition (domain, ip, port, ...)', 'domain');
+    }
+
+    return { type: 'field', ...rule };
+}
+
+/**
+ * Build a balancer over outbounds whose tags start with the selector prefixes
+ */
+export function buildBalancer(
+    tag: string,
+    selector: string[],
+    options: Omit<XrayBalancer, 'tag' | 'selector'> = {}
+): XrayBalancer {
+    validateTag(tag);
+
+    if (!selector?.length) {
+        throw new ValidationError('Balancer selector must contain at least one outbound tag', 'selector');
+    }
+
+    return { tag, selector, ...options };
+}
+
+/**
+ * Direct connection outbound
+ */
+export function buildFreedomOutbound(tag: string = 'direct', domainStrategy?: string): XrayOutbound {
+    validateTag(tag);
+
+    return {
+        tag,
+        protocol: 'freedom',
+        settings: domainStrategy ? { domainStrategy } : {}
+    };
+}
+
+/**
+ * Outbound that drops connections
+ */
+export function buildBlackholeOutbound(tag: string = 'blocked', responseType: 'none' | 'http' = 'none'): XrayOutbound {
+    validateTag(tag);
+
+    return {
+        tag,
+        protocol: 'blackhole',
+        settings: responseType === 'http' ? { response: { type: 'http' } } : {}
+    };
+}
+
+/**
+ * Upstream SOCKS5 proxy outbound
+ */
+export function buildSocksOutbound(tag: string, options: XraySocksOutboundOptions): XrayOutbound {
+    return {
+        tag,
+        protocol: 'socks',
+        settings: { servers: [buildProxyServer(tag, options)] }
+    };
+}
+
+/**
+ * Upstream HTTP proxy outbound
+ */
+export function buildHttpOutbound(tag: string, options: XraySocksOutboundOptions): XrayOutbound {
+    return {
+        tag,
+        protocol: 'http',
+        settings: { servers: [buildProxyServer(tag, options)] }
+    };
+}
+
+/**
+ * WireGuard outbound, e.g. Cloudflare WARP
+ */
+export function buildWireguardOutbound(tag: string, options: XrayWireguardOutboundOptions): XrayOutbound {
+    validateTag(tag);
+
+    if (!options.secretKey) {
+        throw new ValidationError('WireGuard secret key is required', 'secretKey');
+    }
+
+    if (!options.address?.length) {
+        throw new ValidationError('WireGuard interface address is required', 'address');
+    }
+
+    if (!options.peers?.length) {
+        throw new ValidationError('WireGuard outbound needs at least one peer', 'peers');
+    }
+
+    for (const peer of options.peers) {
+        if (!peer.publicKey || !peer.endpoint) {
+            throw new ValidationError('WireGuard peer needs publicKey and endpoint', 'peers');
+        }
+    }
+
+    return {
+        tag,
+        protocol: 'wireguard',
+        settings: {
+            secretKey: options.secretKey,
+            address: options.address,
+            peers: options.peers.map(peer => ({
+                publicKey: peer.publicKey,
+                endpoint: peer.endpoint,
+                allowedIPs: peer.allowedIPs ?? ['0.0.0.0/0', '::/0'],
+                ...(peer.keepAlive !== undefined && { keepAlive: peer.keepAlive })
+            })),
+            mtu: options.mtu ?? 1420,
+            ...(options.reserved && { reserved: options.reserved }),
+            ...(options.domainStrategy && { domainStrategy: options.domainStrategy })
+        }
+    };
+}
+
+function buildProxyServer(tag: string, options: XraySocksOutboundOptions): Record<string, any> {
+    validateTag(tag);
+
+    if (!options.address) {
+        throw new ValidationError('Proxy address is required', 'address');
+    }
+
+    if (!validatePort(options.port)) {
+        throw new ValidationError('Invalid port number', 'port');
+    }
+
+    return {
+        address: options.address,
+        port: options.port,
+        ...(options.user && { users: [{ user: options.user, pass: options.pass ?? '' }] })
+    };
+}
+
+function validateTag(tag: string): void {
+    if (!tag?.trim()) {
+        throw new ValidationError('Tag is required', 'tag');
+    }
+}
@@ -0,0 +1,128 @@
+import { describe, expect, test } from 'bun:test';
+
+import { ValidationError, createClient, createMockPanel } from './index';
+import type { MockPanelOptions, XrayRoutingRule } from './types';
+
+function setup(options: MockPanelOptions = {}) {
+    const panel = createMockPanel(options);
+    const xui = createClient({
+        baseUrl: panel.baseUrl,
+        username: 'admin',
+        password: 'admin',
+        transport: panel.transport,
+        retryAttempts: 0
+    });
+
+    return { panel, xui };
+}
+
+function countUpdateRequests(panel: ReturnType<typeof createMockPanel>): number {
+    return panel.requests.filter(request => request.path === '/panel/xray/update').length;
+}
+
+const blockAds: XrayRoutingRule = { type: 'field', ruleTag: 'block-ads', domain: ['geosite:category-ads-all'], outboundTag: 'blocked' };
+
+describe('Xray template', () => {
+    test('reads the template and inbound tags', async () => {
+        const { xui } = setup({
+            inbounds: [{ protocol: 'vless', port: 443, tag: 'inbound-443', settings: { clients: [], decryption: 'none' } }]
+        });
+
+        const template = await xui.xray.getTemplate();
+
+        expect(template.outbounds.map(outbound => outbound.tag)).toEqual(['direct', 'blocked']);
+        expect(await xui.xray.getInboundTags()).toEqual(['inbound-443']);
+        expect((await xui.xray.getDefaultTemplate()).api?.tag).toBe('api');
+    });
+
+    test('updateTemplate rejects rules that point to unknown outbounds', async () => {
+        const { panel, xui } = setup();
+        const template = await xui.xray.getTemplate();
+        template.routing!.rules.push({ type: 'field', domain: ['geosite:ru'], outboundTag: 'warp' });
+
+        await expect(xui.xray.updateTemplate(template)).rejects.toBeInstanceOf(ValidationError);
+        expect(countUpdateRequests(panel)).toBe(0);
+    });
+});
+
+describe('routing rules', () => {
+    test('add, replace and remove a rule by ruleTag', async () => {
+        const { panel, xui } = setup();
+
+        await xui.xray.addRoutingRule(blockAds);
+        await xui.xray.addRoutingRule({ ...blockAds, domain: ['geosite:category-ads'] });
+
+        let rules = panel.getXrayTemplate().routing!.rules;
+        expect(rules.filter(rule => rule.ruleTag === 'block-ads')).toEqual([{ ...blockAds, domain: ['geosite:category-ads'] }]);
+        expect(rules.at(-1)?.ruleTag).toBe('block-ads');
+
+        expect(await xui.xray.removeRoutingRule('block-ads')).toBe(true);
+        expect(await xui.xray.removeRoutingRule('block-ads')).toBe(false);
+
+        rules = panel.getXrayTemplate().routing!.rules;
+        expect(rules.some(rule => rule.ruleTag === 'block-ads')).toBe(false);
+        expect(countUpdateRequests(panel)).toBe(3);
+    });
+
+    test('rule at start is inserted after the stats API rule', async () => {
+        const { xui } = setup();
+
+        const rules = await xui.xray.addRoutingRule(blockAds, { position: 'start' });
+
+        expect(rules[0]?.outboundTag).toBe('api');
+        expect(rules[1]?.ruleTag).toBe('block-ads');
+    });
+
+    test('rule without ruleTag or with unknown outbound is rejected', async () => {
+        const { panel, xui } = setup();
+
+        await expect(xui.xray.addRoutingRule({ type: 'field', outboundTag: 'direct' })).rejects.toThrow('ruleTag');
+        await expect(xui.xray.addRoutingRule({ ...blockAds, outboundTag: 'warp' }))
+            .rejects.toThrow('Routing rule points to unknown outbound "warp"');
+
+        expect(countUpdateRequests(panel)).toBe(0);
+    });
+});
+
+describe('outbounds and balancers', () => {
+    test('outbound in use cannot be removed', async () => {
+        const { xui } = setup();
+
+        await xui.xray.addOutbound({ tag: 'warp', protocol: 'wireguard', settings: {} });
+        await xui.xray.addRoutingRule({ type: 'field', ruleTag: 'ru', domain: ['geosite:ru'], outboundTag: 'warp' });
+
+        await expect(xui.xray.removeOutbound('warp')).rejects.toThrow('Outbound "warp" is used by routing rule ru');
+
+        await xui.xray.removeRoutingRule('ru');
+        expect(await xui.xray.removeOutbound('warp')).toBe(true);
+    });
+
+    test('balancer in use cannot be removed', async () => {
+        const { xui } = setup();
+
+        await xui.xray.addBalancer({ tag: 'pool', selector: ['direct'] });
+        await xui.xray.addRoutingRule({ type: 'field', ruleTag: 'balanced', network: 'tcp,udp', balancerTag: 'pool' });
+
+        await expect(xui.xray.removeBalancer('pool')).rejects.toThrow('Balancer "pool" is used by routing rule balanced');
+
+        await xui.xray.removeRoutingRule('balanced');
+        expect(await xui.xray.removeBalancer('pool')).toBe(true);
+    });
+
+    test('concurrent edits are queued and all survive', async () => {
+        const { panel, xui } = setup();
+        panel.setFaults({ latency: [5, 20] });
+
+        await Promise.all([
+            xui.xray.addOutbound({ tag: 'warp', protocol: 'wireguard', settings: {} }),
+            xui.xray.addRoutingRule(blockAds),
+            xui.xray.addBalancer({ tag: 'pool', selector: ['direct'] }),
+            xui.xray.addRoutingRule({ type: 'field', ruleTag: 'torrents', protocol: ['bittorrent'], outboundTag: 'blocked' })
+        ]);
+
+        const template = panel.getXrayTemplate();
+        expect(template.outbounds.map(outbound => outbound.tag)).toContain('warp');
+        expect(template.routing!.balancers?.map(balancer => balancer.tag)).toEqual(['pool']);
+        expect(template.routing!.rules.map(rule => rule.ruleTag).filter(Boolean)).toEqual(['block-ads', 'torrents']);
+    });
+});
@@ -0,0 +1,352 @@
+import { XUIClient } from './client';
+import {
+    type ApiResponse,
+    type XrayBalancer,
+    type XrayConfig,
+    type XrayOutbound,
+    type XrayRoutingRule,
+    type XrayRuleInsertOptions,
+    type XraySettingResponse,
+    ValidationError
+} from './types';
+
+import { createErrorWithContext, parseInboundField } from './utils';
+
+/**
+ * Xray manager for the panel's Xray config template (outbounds, routing, balancers).
+ * Template changes apply after `xui.server.restartXray()`.
+ */
+export class XrayManager {
+    constructor(private client: XUIClient) { }
+
+    /**
+     * Get Xray config template
+     */
+    async getTemplate(): Promise<XrayConfig> {
+        return (await this.fetchTemplate()).config;
+    }
+
+    /**
+     * Get tags of inbounds configured in the panel (usable in rule inboundTag)
+     */
+    async getInboundTags(): Promise<string[]> {
+        return (await this.fetchTemplate()).inboundTags;
+    }
+
+    /**
+     * Get Xray config template the panel ships with
+     */
+    async getDefaultTemplate(): Promise<XrayConfig> {
+        try {
+            const response = await this.client.get<ApiResponse<XrayConfig | string>>(
+                this.getPath('/getDefaultJsonConfig')
+            );
+
+            if (!response.success || !response.obj) {
+                throw new Error(response.message || 'Failed to get default Xray template');
+            }
+
+            return this.parseConfig(response.obj);
+        } catch (error) {
+            throw createErrorWithContext(error, {
+                operation: 'getDefaultXrayTemplate'
+            }, 'Failed to get default Xray template');
+        }
+    }
+
+    /**
+     * Replace Xray config template
+     */
+    async updateTemplate(config: XrayConfig): Promise<boolean> {
+        this.validateTemplate(config);
+
+        return this.client.withXrayTemplateLock(() => this.writeTemplate(config));
+    }
+
+    private async writeTemplate(config: XrayConfig): Promise<boolean> {
+        try {
+            const response = await this.client.post<ApiResponse>(
+                this.getPath('/update'),
+                new URLSearchParams({ xraySetting: JSON.stringify(config, null, 2) })
+            );
+
+            if (!response.success) {
+                throw new Error(response.message || 'Failed to update Xray template');
+            }
+
+            this.client.getLogger().info('Updated Xray template', { operation: 'updateXrayTemplate' });
+            return true;
+        } catch (error) {
+            throw createErrorWithContext(error, {
+                operation: 'updateXrayTemplate'
+            }, 'Failed to update Xray template');
+        }
+    }
+
+    /**
+     * Get routing rules
+     */
+    async getRoutingRules(): Promise<XrayRoutingRule[]> {
+        return (await this.getTemplate()).routing?.rules ?? [];
+    }
+
+    /**
+     * Add routing rule. A rule with the same ruleTag is replaced in place, the rest of the template is kept.
+     * Rules are matched top to bottom, use `position: 'start'` for rules that must win.
+     */
+    async addRoutingRule(rule: XrayRoutingRule, options: XrayRuleInsertOptions = {}): Promise<XrayRoutingRule[]> {
+        if (!rule.ruleTag?.trim()) {
+            throw new ValidationError('Rule needs a ruleTag so it can be updated or removed later', 'ruleTag');
+        }
+
+        const config = await this.modifyTemplate('addRoutingRule', config => {
+            const routing = config.routing ??= { rules: [] };
+            routing.rules ??= [];
+
+            const index = routing.rules.findIndex(existing => existing.ruleTag === rule.ruleTag);
+
+            if (index !== -1) {
+                routing.rules[index] = rule;
+            } else if (options.position === 'start') {
+                // Keep the stats API rule first, otherwise the new rule may swallow API traffic
+                const apiTag = config.api?.tag;
+                const first = routing.rules.findIndex(existing => !apiTag || existing.outboundTag !== apiTag);
+                routing.rules.splice(first === -1 ? routing.rules.length : first, 0, rule);
+            } else {
+                routing.rules.push(rule);
+            }
+
+            return true;
+        });
+
+        return config.routing!.rules;
+    }
+
+    /**
+     * Remove routing rule by ruleTag. Returns false if there is no such rule.
+     */
+    async removeRoutingRule(ruleTag: string): Promise<boolean> {
+        let removed = false;
+
+        await this.modifyTemplate('removeRoutingRule', config => {
+            const rules = config.routing?.rules ?? [];
+            const remaining = rules.filter(rule => rule.ruleTag !== ruleTag);
+
+            removed = remaining.length !== rules.length;
+            if (removed) {
+                config.routing!.rules = remaining;
+            }
+
+            return removed;
+        });
+
+        return removed;
+    }
+
+    /**
+     * Add outbound, or replace the outbound with the same tag
+     */
+    async addOutbound(outbound: XrayOutbound): Promise<XrayOutbound[]> {
+        if (!outbound.tag?.trim() || !outbound.protocol) {
+            throw new ValidationError('Outbound needs tag and protocol', 'tag');
+        }
+
+        const config = await this.modifyTemplate('addOutbound', config => {
+            const index = config.outbounds.findIndex(existing => existing.tag === outbound.tag);
+
+            if (index !== -1) {
+                config.outbounds[index] = outbound;
+            } else {
+                config.outbounds.push(outbound);
+            }
+
+            return true;
+        });
+
+        return config.outbounds;
+    }
+
+    /**
+     * Remove outbound by tag. Fails while routing rules or balancers still use it.
+     */
+    async removeOutbound(tag: string): Promise<boolean> {
+        let removed = false;
+
+        await this.modifyTemplate('removeOutbound', config => {
+            const rule = config.routing?.rules?.find(rule => rule.outboundTag === tag);
+            if (rule) {
+                throw new ValidationError(`Outbound "${tag}" is used by routing rule ${rule.ruleTag ?? '(untagged)'}`, 'tag');
+            }
+
+            const balancer = config.routing?.balancers?.find(balancer => balancer.fallbackTag === tag);
+            if (balancer) {
+                throw new ValidationError(`Outbound "${tag}" is the fallback of balancer "${balancer.tag}"`, 'tag');
+            }
+
+            const remaining = config.outbounds.filter(outbound => outbound.tag !== tag);
+
+            removed = remaining.length !== config.outbounds.length;
+            config.outbounds = remaining;
+            return removed;
+        });
+
+        return removed;
+    }
+
+    /**
+     * Add balancer, or replace the balancer with the same tag
+     */
+    async addBalancer(balancer: XrayBalancer): Promise<XrayBalancer[]> {
+        if (!balancer.tag?.trim() || !balancer.selector?.length) {
+            throw new ValidationError('Balancer needs tag and selector', 'tag');
+        }
+
+        const config = await this.modifyTemplate('addBalancer', config => {
+            const routing = config.routing ??= { rules: [] };
+            const balancers = routing.balancers ??= [];
+            const index = balancers.findIndex(existing => existing.tag === balancer.tag);
+
+            if (index !== -1) {
+                balancers[index] = balancer;
+            } else {
+                balancers.push(balancer);
+            }
+
+            return true;
+        });
+
+        return config.routing!.balancers!;
+    }
+
+    /**
+     * Remove balancer by tag. Fails while routing rules still use it.
+     */
+    async removeBalancer(tag: string): Promise<boolean> {
+        let removed = false;
+
+        await this.modifyTemplate('removeBalancer', config => {
+            const rule = config.routing?.rules?.find(rule => rule.balancerTag === tag);
+            if (rule) {
+                throw new ValidationError(`Balancer "${tag}" is used by routing rule ${rule.ruleTag ?? '(untagged)'}`, 'tag');
+            }
+
+            const balancers = config.routing?.balancers ?? [];
+            const remaining = balancers.filter(balancer => balancer.tag !== tag);
+
+            removed = remaining.length !== balancers.length;
+            if (removed) {
+                config.routing!.balancers = remaining;
+            }
+
+            return removed;
+        });
+
+        return removed;
+    }
+
+    /**
+     * Read template, apply change and write it back.
+     * The change returns false when there is nothing to write.
+     * Edits are queued, so concurrent edits from this process never overwrite each other.
+     */
+    private async modifyTemplate(operation: string, change: (config: XrayConfig) => boolean): Promise<XrayConfig> {
+        return this.client.withXrayTemplateLock(async () => {
+            const config = await this.getTemplate();
+
+            if (!change(config)) {
+                return config;
+            }
+
+            this.validateTemplate(config);
+            await this.writeTemplate(config);
+
+            this.client.getLogger().debug(`Applied ${operation} to Xray template`, { operation });
+            return config;
+        });
+    }
+
+    private async fetchTemplate(): Promise<{ config: XrayConfig; inboundTags: string[] }> {
+        try {
+            const response = await this.client.post<XraySettingResponse>(this.getPath('/'));
+
+            if (!response.success || !response.obj) {
+                throw new Error(response.message || 'Failed to get Xray template');
+            }
+
+            const data = parseInboundField<{ xraySetting?: XrayConfig | string; inboundTags?: string[] }>(response.obj, {});
+
+            if (!data.xraySetting) {
+                throw new Error('Panel response does not contain xraySetting');
+            }
+
+            return {
+                config: this.parseConfig(data.xraySetting),
+                inboundTags: data.inboundTags ?? []
+            };
+        } catch (error) {
+            throw createErrorWithContext(error, {
+                operation: 'getXrayTemplate'
+            }, 'Failed to get Xray template');
+        }
+    }
+
+    private parseConfig(value: XrayConfig | string): XrayConfig {
+        const config = parseInboundField<XrayConfig | null>(value, null);
+
+        if (!config || typeof config !== 'object') {
+            throw new Error('Xray template is not valid JSON');
+        }
+
+        config.outbounds ??= [];
+        return config;
+    }
+
+    /**
+     * Basic structure checks, so a broken template never reaches the panel
+     */
+    private validateTemplate(config: XrayConfig): void {
+        if (!config || typeof config !== 'object' || !Array.isArray(config.outbounds)) {
+            throw new ValidationError('Xray template must contain an outbounds array', 'outbounds');
+        }
+
+        const tags = new Set<string>();
+        for (const outbound of config.outbounds) {
+            if (!outbound?.protocol) {
+                throw new ValidationError('Every outbound needs a protocol', 'outbounds');
+            }
+            if (outbound.tag) {
+                if (tags.has(outbound.tag)) {
+                    throw new ValidationError(`Duplicate outbound tag "${outbound.tag}"`, 'outbounds');
+                }
+                tags.add(outbound.tag);
+            }
+        }
+
+        if (config.routing && !Array.isArray(config.routing.rules ?? [])) {
+            throw new ValidationError('routing.rules must be an array', 'routing');
+        }
+
+        // The stats API routes to its own tag rather than to an outbound
+        if (typeof config.api?.tag === 'string') {
+            tags.add(config.api.tag);
+        }
+
+        const balancerTags = new Set((config.routing?.balancers ?? []).map(balancer => balancer.tag));
+
+        for (const rule of config.routing?.rules ?? []) {
+            if (rule.outboundTag && !tags.has(rule.outboundTag)) {
+                throw new ValidationError(`Routing rule points to unknown outbound "${rule.outboundTag}"`, 'routing');
+            }
+            if (rule.balancerTag && !balancerTags.has(rule.balancerTag)) {
+                throw new ValidationError(`Routing rule points to unknown balancer "${rule.balancerTag}"`, 'routing');
+            }
+        }
+    }
+
+    /**
+     * Get API path for Xray template operations
+     */
+    private getPath(subPath: string): string {
+        return `/panel/xray${subPath}`;
+    }
+}
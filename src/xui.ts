@@ -0,0 +1,152 @@
+import { XUIClient } from './client';
+import { InboundManager } from './inbound-manager';
+import { ClientManager } from './client-manager';
+import { ServerManager } from './server-manager';
+import { SettingsManager } from './settings-manager';
+import { XrayManager } from './xray-manager';
+import { SubscriptionServer } from './subscription-server';
+import type { ClientConfig, HttpInterceptor, MutationResultMode, SubscriptionServerOptions } from './types';
+
+/**
+ * Main 3x-ui API client that combines all functionality.
+ * `M` is the mutation result mode: created/updated entities by default, booleans with `mutationResult: 'boolean'`.
+ */
+export class XUI<M extends MutationResultMode = 'entity'> {
+    private xuiClient: XUIClient;
+
+    /** Inbound management operations */
+    public readonly inbounds: InboundManager<M>;
+
+    /** Client management operations */
+    public readonly clients: ClientManager<M>;
+
+    /** Server status and Xray control operations */
+    public readonly server: ServerManager;
+
+    /** Panel settings operations */
+    public readonly settings: SettingsManager;
+
+    /** Xray config template, outbounds and routing operations */
+    public readonly xray: XrayManager;
+
+    constructor(config: ClientConfig<M>) {
+        this.xuiClient = new XUIClient(config);
+        this.inbounds = new InboundManager<M>(this.xuiClient);
+        this.clients = new ClientManager<M>(this.xuiClient);
+        this.server = new ServerManager(this.xuiClient);
+        this.settings = new SettingsManager(this.xuiClient);
+        this.xray = new XrayManager(this.xuiClient);
+    }
+
+    /**
+     * Login to 3x-ui panel
+     */
+    async login(): Promise<void> {
+        return this.xuiClient.login();
+    }
+
+    /**
+     * Logout from 3x-ui panel
+     */
+    logout(): void {
+        this.xuiClient.logout();
+    }
+
+    /**
+     * Check connection to 3x-ui panel
+     */
+    async checkConnection(): Promise<boolean> {
+        return this.xuiClient.checkConnection();
+    }
+
+    /**
+     * Get authentication status
+     */
+    getAuthStatus() {
+        return this.xuiClient.getAuthStatus();
+    }
+
+    /**
+     * Get circuit breaker status
+     */
+    getCircuitBreakerStatus() {
+        return this.xuiClient.getCircuitBreakerStatus();
+    }
+
+    /**
+     * Register request/response interceptor, returns function that removes it
+     */
+    addInterceptor(interceptor: HttpInterceptor): () => void {
+        return this.xuiClient.addInterceptor(interceptor);
+    }
+
+    /**
+     * Make a raw request (advanced usage)
+     */
+    async request<T = any>(path: string, init?: RequestInit): Promise<T> {
+        return this.xuiClient.request<T>(path, init);
+    }
+
+    /**
+ * Get system overview with basic statistics
+ */
+    async getSystemOverview(): Promise<{
+        auth: ReturnType<XUIClient['getAuthStatus']>;
+        circuitBreaker: ReturnType<XUIClient['getCircuitBreakerStatus']>;
+        inbounds: Awaited<ReturnType<InboundManager['getSummary']>>;
+        onlineUsers: string[];
+        subscriptions: Awaited<ReturnType<ClientManager['getAllSubscriptions']>>;
+    }> {
+        const results = await Promise.allSettled([
+            this.inbounds.getSummary(),
+            this.inbounds.getOnlineUsers(),
+            this.clients.getAllSubscriptions()
+        ]);
+
+        const inboundsSummary = results[0].status === 'fulfilled'
+            ? results[0].value
+            : { total: 0, enabled: 0, disabled: 0, protocols: {}, totalTraffic: { up: 0, down: 0, total: 0 } };
+
+        const onlineUsers = results[1].status === 'fulfilled'
+            ? results[1].value
+            : [];
+
+        const subscriptions = results[2].status === 'fulfilled'
+            ? results[2].value
+            : [];
+
+        return {
+            auth: this.getAuthStatus(),
+            circuitBreaker: this.getCircuitBreakerStatus(),
+            inbounds: inboundsSummary,
+            onlineUsers,
+            subscriptions
+        };
+    }
+
+    /**
+     * Create local subscription HTTP server (call start() to listen)
+     */
+    createSubscriptionServer(options: SubscriptionServerOptions): SubscriptionServer {
+        return new SubscriptionServer(this, { logger: this.xuiClient.getLogger(), ...options });
+    }
+
+    /**
+ * Quick method: Create client with same subId on all inbounds
+ */
+    async createUniversalClient(options: {
+        subId?: string;
+        limitIp?: number | 'unlimited';
+        traffic?: { size: number; unit: 'MB' | 'GB' | 'TB' } | 'unlimited';
+        expiryDays?: number | 'unlimited';
+    } = {}) {
+        return this.clients.createClientOnAllInbounds({
+            subId: options.subId,
+            enable: true,
+            limitIp: options.limitIp ?? 'unlimited',
+            traffic: options.traffic ?? 'unlimited',
+            expiryDays: options.expiryDays ?? 'unlimited',
+            reset: 0
+        });
+    }
+}